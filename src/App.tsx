@@ -4,22 +4,40 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/lib/auth-context";
+import { Permission } from "@/lib/permissions";
 import Layout from "@/components/Layout";
 import Dashboard from "./pages/Dashboard";
 import Auth from "./pages/Auth";
 import Customers from "./pages/Customers";
+import CustomerDetails from "./pages/CustomerDetails";
+import CustomerStatement from "./pages/CustomerStatement";
+import Suppliers from "./pages/Suppliers";
+import SupplierLedger from "./pages/SupplierLedger";
 import Projects from "./pages/ProjectsUpdated";
 import Transactions from "./pages/TransactionsUpdated";
 import ProjectDetails from "./pages/ProjectDetails";
 import PettyCash from "./pages/PettyCashUpdated";
+import Employees from "./pages/Employees";
+import Users from "./pages/Users";
+import AuditLog from "./pages/AuditLog";
+import GstReport from "./pages/GstReport";
+import ReceivablesAgeing from "./pages/ReceivablesAgeing";
+import PettyCashReport from "./pages/PettyCashReport";
+import Invoices from "./pages/Invoices";
+import InvoiceView from "./pages/InvoiceView";
+import Quotations from "./pages/Quotations";
+import QuotationView from "./pages/QuotationView";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import PurchaseOrderView from "./pages/PurchaseOrderView";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
-const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
-  const { user, loading } = useAuth();
+const ProtectedRoute = ({ children, permission }: { children: React.ReactNode; permission?: Permission }) => {
+  const { user, loading, can } = useAuth();
   if (loading) return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
   if (!user) return <Navigate to="/auth" />;
+  if (permission && !can(permission)) return <Navigate to="/" />;
   return <Layout>{children}</Layout>;
 };
 
@@ -34,10 +52,26 @@ const App = () => (
             <Route path="/auth" element={<Auth />} />
             <Route path="/" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
             <Route path="/customers" element={<ProtectedRoute><Customers /></ProtectedRoute>} />
+            <Route path="/customers/:id" element={<ProtectedRoute><CustomerDetails /></ProtectedRoute>} />
+            <Route path="/customers/:id/statement" element={<ProtectedRoute><CustomerStatement /></ProtectedRoute>} />
+            <Route path="/suppliers" element={<ProtectedRoute><Suppliers /></ProtectedRoute>} />
+            <Route path="/suppliers/:id" element={<ProtectedRoute><SupplierLedger /></ProtectedRoute>} />
           <Route path="/projects" element={<ProtectedRoute><Projects /></ProtectedRoute>} />
           <Route path="/projects/:id" element={<ProtectedRoute><ProjectDetails /></ProtectedRoute>} />
           <Route path="/transactions" element={<ProtectedRoute><Transactions /></ProtectedRoute>} />
-            <Route path="/petty-cash" element={<ProtectedRoute><PettyCash /></ProtectedRoute>} />
+            <Route path="/quotations" element={<ProtectedRoute><Quotations /></ProtectedRoute>} />
+            <Route path="/quotations/:id" element={<ProtectedRoute><QuotationView /></ProtectedRoute>} />
+            <Route path="/invoices" element={<ProtectedRoute><Invoices /></ProtectedRoute>} />
+            <Route path="/invoices/:id" element={<ProtectedRoute><InvoiceView /></ProtectedRoute>} />
+            <Route path="/purchase-orders" element={<ProtectedRoute><PurchaseOrders /></ProtectedRoute>} />
+            <Route path="/purchase-orders/:id" element={<ProtectedRoute><PurchaseOrderView /></ProtectedRoute>} />
+            <Route path="/petty-cash" element={<ProtectedRoute permission="petty_cash.view"><PettyCash /></ProtectedRoute>} />
+            <Route path="/employees" element={<ProtectedRoute permission="employees.view"><Employees /></ProtectedRoute>} />
+            <Route path="/users" element={<ProtectedRoute permission="users.manage"><Users /></ProtectedRoute>} />
+            <Route path="/audit-log" element={<ProtectedRoute permission="audit_log.view"><AuditLog /></ProtectedRoute>} />
+            <Route path="/reports/gst" element={<ProtectedRoute permission="reports.view"><GstReport /></ProtectedRoute>} />
+            <Route path="/reports/receivables" element={<ProtectedRoute permission="reports.view"><ReceivablesAgeing /></ProtectedRoute>} />
+            <Route path="/reports/petty-cash" element={<ProtectedRoute permission="reports.view"><PettyCashReport /></ProtectedRoute>} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
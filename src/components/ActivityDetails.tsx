@@ -0,0 +1,67 @@
+import type { Json } from '@/integrations/supabase/types';
+import { formatINR } from '@/lib/currency';
+import {
+  AMOUNT_KEYS,
+  REFERENCE_KEYS,
+  activityChanges,
+  activityData,
+  asNumber,
+  humanizeKey,
+} from '@/lib/activity';
+
+const formatValue = (key: string, value: Json | undefined): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  const amount = AMOUNT_KEYS.includes(key) ? asNumber(value) : null;
+  if (amount !== null) return formatINR(amount);
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const ActivityDetails = ({ data: raw }: { data: Json | null }) => {
+  const data = activityData(raw);
+  const changes = activityChanges(data);
+  const oldAmount = asNumber(data.old_amount);
+  const newAmount = asNumber(data.new_amount);
+  const change = asNumber(data.amount_change);
+
+  const rest = Object.entries(data).filter(
+    ([key]) =>
+      !REFERENCE_KEYS.includes(key) &&
+      !['old_amount', 'new_amount', 'amount_change', 'changes'].includes(key)
+  );
+
+  return (
+    <div className="space-y-1 text-sm">
+      {oldAmount !== null && newAmount !== null && (
+        <div>
+          Amount {formatINR(oldAmount)} → <span className="font-medium">{formatINR(newAmount)}</span>
+        </div>
+      )}
+      {change !== null && (
+        <div>
+          Balance change{' '}
+          <span className={change < 0 ? 'text-green-600 font-medium' : 'text-orange-600 font-medium'}>
+            {change > 0 ? '+' : ''}{formatINR(change)}
+          </span>
+        </div>
+      )}
+      {rest.map(([key, value]) => (
+        <div key={key} className="text-muted-foreground">
+          {humanizeKey(key)}: <span className="text-foreground">{formatValue(key, value)}</span>
+        </div>
+      ))}
+      {changes.map((diff) => (
+        <div key={diff.field} className="text-muted-foreground">
+          {humanizeKey(diff.field)}:{' '}
+          {diff.old !== null && (
+            <>
+              <span className="line-through">{formatValue(diff.field, diff.old)}</span>
+              {' → '}
+            </>
+          )}
+          <span className="text-foreground">{formatValue(diff.field, diff.new)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,264 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatINR } from '@/lib/currency';
+import { PettyCashLimit } from '@/lib/petty-cash';
+
+interface AdvanceLimitsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employees: { id: string; name: string }[];
+  departments: string[];
+}
+
+type Scope = 'employee' | 'department';
+
+const emptyForm = () => ({
+  scope: 'department' as Scope,
+  target: '',
+  max_outstanding: '',
+  approval_threshold: '',
+});
+
+export const AdvanceLimitsDialog = ({ open, onOpenChange, employees, departments }: AdvanceLimitsDialogProps) => {
+  const [limits, setLimits] = useState<PettyCashLimit[]>([]);
+  const [form, setForm] = useState(emptyForm());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchLimits();
+      setForm(emptyForm());
+    }
+  }, [open]);
+
+  const fetchLimits = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('petty_cash_limits')
+        .select('*')
+        .order('department', { nullsFirst: false })
+        .order('created_at');
+
+      if (error) throw error;
+      setLimits(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch advance limits');
+    }
+  };
+
+  const employeeName = (id: string) => employees.find((e) => e.id === id)?.name ?? 'Unknown employee';
+
+  const existingLimit = (scope: Scope, target: string) =>
+    limits.find((l) => (scope === 'employee' ? l.employee_id === target : l.department === target));
+
+  // Picking something that already has a limit loads it for editing
+  const selectTarget = (target: string) => {
+    const existing = existingLimit(form.scope, target);
+    setForm({
+      ...form,
+      target,
+      max_outstanding: existing?.max_outstanding != null ? String(Number(existing.max_outstanding)) : '',
+      approval_threshold: existing?.approval_threshold != null ? String(Number(existing.approval_threshold)) : '',
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.target) {
+      toast.error(form.scope === 'employee' ? 'Select an employee' : 'Select a department');
+      return;
+    }
+    if (!form.max_outstanding.trim() && !form.approval_threshold.trim()) {
+      toast.error('Set a limit, an approval threshold, or both');
+      return;
+    }
+
+    const limitData = {
+      employee_id: form.scope === 'employee' ? form.target : null,
+      department: form.scope === 'department' ? form.target : null,
+      max_outstanding: form.max_outstanding.trim() ? parseFloat(form.max_outstanding) : null,
+      approval_threshold: form.approval_threshold.trim() ? parseFloat(form.approval_threshold) : null,
+    };
+
+    setSaving(true);
+    try {
+      const existing = existingLimit(form.scope, form.target);
+      const { error } = existing
+        ? await supabase.from('petty_cash_limits').update(limitData).eq('id', existing.id)
+        : await supabase.from('petty_cash_limits').insert([limitData]);
+
+      if (error) throw error;
+      toast.success('Advance limit saved');
+      setForm(emptyForm());
+      fetchLimits();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save advance limit');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Remove this advance limit?')) return;
+
+    try {
+      const { error } = await supabase.from('petty_cash_limits').delete().eq('id', id);
+      if (error) throw error;
+      toast.success('Advance limit removed');
+      fetchLimits();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove advance limit');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Advance Limits</DialogTitle>
+          <DialogDescription>
+            The most each employee may hold across unsettled advances, and the amount above which an
+            advance needs approval. A limit set for an employee overrides their department's.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="border rounded-md overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Applies To</TableHead>
+                <TableHead className="text-right">Limit</TableHead>
+                <TableHead className="text-right">Approval Above</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {limits.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    No limits set; advances of any amount are paid out straight away
+                  </TableCell>
+                </TableRow>
+              ) : (
+                limits.map((limit) => (
+                  <TableRow key={limit.id}>
+                    <TableCell>
+                      {limit.department ? `${limit.department} (department)` : employeeName(limit.employee_id)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {limit.max_outstanding != null ? formatINR(Number(limit.max_outstanding)) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {limit.approval_threshold != null ? formatINR(Number(limit.approval_threshold)) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(limit.id)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3 border-t pt-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Set For</Label>
+              <Select
+                value={form.scope}
+                onValueChange={(value) => setForm({ ...emptyForm(), scope: value as Scope })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="department">A department</SelectItem>
+                  <SelectItem value="employee">An employee</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{form.scope === 'employee' ? 'Employee *' : 'Department *'}</Label>
+              <Select value={form.target} onValueChange={selectTarget}>
+                <SelectTrigger>
+                  <SelectValue placeholder={form.scope === 'employee' ? 'Select employee' : 'Select department'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {form.scope === 'employee'
+                    ? employees.map((e) => (
+                      <SelectItem key={e.id} value={e.id}>{e.name}</SelectItem>
+                    ))
+                    : departments.map((d) => (
+                      <SelectItem key={d} value={d}>{d}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="max_outstanding">Limit (₹)</Label>
+              <Input
+                id="max_outstanding"
+                type="number"
+                step="0.01"
+                min="0.01"
+                placeholder="No limit"
+                value={form.max_outstanding}
+                onChange={(e) => setForm({ ...form, max_outstanding: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="approval_threshold">Needs Approval Above (₹)</Label>
+              <Input
+                id="approval_threshold"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="No approval needed"
+                value={form.approval_threshold}
+                onChange={(e) => setForm({ ...form, approval_threshold: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {form.target && existingLimit(form.scope, form.target) ? 'Update Limit' : 'Add Limit'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
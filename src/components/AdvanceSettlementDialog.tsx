@@ -0,0 +1,574 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Paperclip, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatINR } from '@/lib/currency';
+import { formatDate, toDateValue } from '@/lib/dates';
+import { roundPaise } from '@/lib/gst';
+import { COST_CATEGORIES, COST_CATEGORY_LABELS, CostCategory } from '@/lib/budgets';
+import {
+  AdvanceType,
+  PettyCashExpense,
+  PettyCashSettlement,
+  advanceSettlement,
+  expenseReceiptUrl,
+  removeExpenseReceipt,
+  uploadExpenseReceipt,
+} from '@/lib/petty-cash';
+
+export interface SettlementAdvance {
+  id: string;
+  project_id: string | null;
+  advance_type: AdvanceType;
+  advance_amount: number;
+  status: string;
+  employees?: { name: string };
+}
+
+interface AdvanceSettlementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  advance: SettlementAdvance | null;
+  projects: { id: string; name: string }[];
+  canEdit: boolean;
+  canDelete: boolean;
+  onChanged: () => void;
+}
+
+type ExpenseLine = PettyCashExpense & { projects?: { name: string } | null };
+
+const NO_PROJECT = 'none';
+
+const emptySettlement = () => ({
+  settled_on: toDateValue(),
+  returned_amount: '',
+  reimbursed_amount: '',
+  notes: '',
+});
+
+const emptyLine = (projectId: string | null) => ({
+  expense_date: toDateValue(),
+  description: '',
+  category: 'materials' as CostCategory,
+  amount: '',
+  project_id: projectId ?? NO_PROJECT,
+});
+
+export const AdvanceSettlementDialog = ({
+  open,
+  onOpenChange,
+  advance,
+  projects,
+  canEdit,
+  canDelete,
+  onChanged,
+}: AdvanceSettlementDialogProps) => {
+  const [expenses, setExpenses] = useState<ExpenseLine[]>([]);
+  const [settlements, setSettlements] = useState<PettyCashSettlement[]>([]);
+  const [line, setLine] = useState(emptyLine(null));
+  const [receipt, setReceipt] = useState<File | null>(null);
+  const [settleForm, setSettleForm] = useState(emptySettlement());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && advance) {
+      setLine(emptyLine(advance.project_id));
+      setReceipt(null);
+      fetchSettlement();
+    }
+  }, [open, advance?.id]);
+
+  const fetchSettlement = async () => {
+    if (!advance) return;
+    try {
+      const [expenseResult, settlementResult] = await Promise.all([
+        supabase
+          .from('petty_cash_expenses')
+          .select('*, projects(name)')
+          .eq('advance_id', advance.id)
+          .order('expense_date')
+          .order('created_at'),
+        supabase
+          .from('petty_cash_settlements')
+          .select('*')
+          .eq('advance_id', advance.id)
+          .order('settled_on')
+          .order('created_at'),
+      ]);
+      if (expenseResult.error) throw expenseResult.error;
+      if (settlementResult.error) throw settlementResult.error;
+
+      setExpenses(expenseResult.data || []);
+      setSettlements(settlementResult.data || []);
+      // Offer to take back whatever the employee still holds
+      const { balance } = advanceSettlement(advance, expenseResult.data || [], settlementResult.data || []);
+      setSettleForm({ ...emptySettlement(), returned_amount: balance > 0 ? String(balance) : '' });
+    } catch (error) {
+      toast.error('Failed to fetch settlement');
+    }
+  };
+
+  const handleAddExpense = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!advance) return;
+
+    setSaving(true);
+    let receiptPath: string | null = null;
+    try {
+      if (receipt) receiptPath = await uploadExpenseReceipt(advance.id, receipt);
+
+      const { error } = await supabase.from('petty_cash_expenses').insert([{
+        advance_id: advance.id,
+        expense_date: line.expense_date,
+        description: line.description.trim(),
+        category: line.category,
+        amount: parseFloat(line.amount),
+        project_id: line.project_id === NO_PROJECT ? null : line.project_id,
+        receipt_path: receiptPath,
+      }]);
+
+      if (error) throw error;
+      setLine(emptyLine(advance.project_id));
+      setReceipt(null);
+      fetchSettlement();
+      onChanged();
+    } catch (error) {
+      if (receiptPath) await removeExpenseReceipt(receiptPath).catch(() => undefined);
+      toast.error(error instanceof Error ? error.message : 'Failed to add expense');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteExpense = async (expense: ExpenseLine) => {
+    try {
+      const { error } = await supabase.from('petty_cash_expenses').delete().eq('id', expense.id);
+      if (error) throw error;
+      // The line is gone either way; a receipt left behind in storage is harmless
+      if (expense.receipt_path) await removeExpenseReceipt(expense.receipt_path).catch(() => undefined);
+      fetchSettlement();
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete expense');
+    }
+  };
+
+  const openReceipt = async (path: string) => {
+    try {
+      window.open(await expenseReceiptUrl(path), '_blank', 'noopener');
+    } catch (error) {
+      toast.error('Failed to open receipt');
+    }
+  };
+
+  const handleSettle = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!advance) return;
+
+    const { balance, pending } = advanceSettlement(advance, expenses, settlements);
+    const returned = parseFloat(settleForm.returned_amount) || 0;
+    const reimbursed = parseFloat(settleForm.reimbursed_amount) || 0;
+
+    if (returned > 0 && reimbursed > 0) {
+      toast.error('Record either cash returned or a reimbursement, not both');
+      return;
+    }
+    if (returned > Math.max(balance, 0)) {
+      toast.error(`The employee only holds ${formatINR(Math.max(balance, 0))}`);
+      return;
+    }
+    if (reimbursed > Math.max(-balance, 0)) {
+      toast.error(`Only ${formatINR(Math.max(-balance, 0))} is owed to the employee`);
+      return;
+    }
+    if (pending === 0 && returned === 0 && reimbursed === 0) {
+      toast.error('Nothing to settle: add expenses or enter an amount');
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc('record_petty_cash_settlement', {
+        _advance_id: advance.id,
+        _settled_on: settleForm.settled_on,
+        _returned_amount: returned,
+        _reimbursed_amount: reimbursed,
+        _notes: settleForm.notes.trim() || null,
+      });
+
+      if (error) throw error;
+      const remaining = roundPaise(balance - returned + reimbursed);
+      toast.success(remaining === 0 ? 'Advance settled and closed' : 'Settlement recorded');
+      if (remaining === 0) {
+        onOpenChange(false);
+      } else {
+        fetchSettlement();
+      }
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record settlement');
+    }
+  };
+
+  // Its expense lines go back to pending and the advance reopens if it had closed
+  const handleDeleteSettlement = async (id: string) => {
+    if (!confirm('Remove this settlement? Its expenses will be pending again.')) return;
+
+    try {
+      const { error } = await supabase.from('petty_cash_settlements').delete().eq('id', id);
+      if (error) throw error;
+      toast.success('Settlement removed');
+      fetchSettlement();
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove settlement');
+    }
+  };
+
+  if (!advance) return null;
+
+  const settlement = advanceSettlement(advance, expenses, settlements);
+  const settledOn = Object.fromEntries(settlements.map((s) => [s.id, s.settled_on]));
+  const settlementExpenses = (id: string) =>
+    roundPaise(expenses.filter((e) => e.settlement_id === id).reduce((sum, e) => sum + Number(e.amount), 0));
+  const editable = canEdit && advance.status !== 'closed';
+  // Personal advances are only ever repaid, so there is nothing to itemise
+  const itemised = advance.advance_type === 'office';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Settlement — {advance.employees?.name}</DialogTitle>
+          <DialogDescription>
+            {!itemised
+              ? 'A personal advance is recovered from the employee. Record repayments as they come in; it closes once repaid in full.'
+              : editable
+                ? 'Itemise what the advance was spent on and settle it in as many steps as needed. It closes once nothing is pending and nothing is held or owed.'
+                : 'What this advance was spent on and how it was settled'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 p-3 bg-muted rounded-lg">
+          <div>
+            <p className="text-sm text-muted-foreground">Advance</p>
+            <p className="font-medium">{formatINR(settlement.advanced)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Spent</p>
+            <p className="font-medium">{formatINR(settlement.spent)}</p>
+            {settlement.pending > 0 && (
+              <p className="text-xs text-muted-foreground">{formatINR(settlement.pending)} pending</p>
+            )}
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Returned</p>
+            <p className="font-medium">{formatINR(settlement.returned)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Reimbursed</p>
+            <p className="font-medium">{formatINR(settlement.reimbursed)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">
+              {settlement.balance < 0 ? 'Owed to Employee' : 'Held by Employee'}
+            </p>
+            <p className={settlement.balance < 0 ? 'font-medium text-destructive' : 'font-medium'}>
+              {formatINR(Math.abs(settlement.balance))}
+            </p>
+          </div>
+        </div>
+
+        {(itemised || expenses.length > 0) && (
+          <div className="border rounded-md overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Project</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Settled</TableHead>
+                  <TableHead className="w-20" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {expenses.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No expenses recorded yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  expenses.map((expense) => (
+                    <TableRow key={expense.id}>
+                      <TableCell>{formatDate(expense.expense_date)}</TableCell>
+                      <TableCell>{expense.description}</TableCell>
+                      <TableCell>{COST_CATEGORY_LABELS[expense.category]}</TableCell>
+                      <TableCell>{expense.projects?.name || '-'}</TableCell>
+                      <TableCell className="text-right">{formatINR(Number(expense.amount))}</TableCell>
+                      <TableCell>
+                        {expense.settlement_id ? (
+                          formatDate(settledOn[expense.settlement_id])
+                        ) : (
+                          <Badge variant="outline">Pending</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {expense.receipt_path && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="View receipt"
+                            onClick={() => openReceipt(expense.receipt_path as string)}
+                          >
+                            <Paperclip className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {editable && !expense.settlement_id && (
+                          <Button variant="ghost" size="icon" onClick={() => handleDeleteExpense(expense)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+              {expenses.length > 0 && (
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={4}>Total spent</TableCell>
+                    <TableCell className="text-right">{formatINR(settlement.spent)}</TableCell>
+                    <TableCell colSpan={2} />
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          </div>
+        )}
+
+        {editable && itemised && (
+          <form onSubmit={handleAddExpense} className="space-y-3 border rounded-md p-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="expense_date">Date *</Label>
+                <Input
+                  id="expense_date"
+                  type="date"
+                  value={line.expense_date}
+                  onChange={(e) => setLine({ ...line, expense_date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="expense_description">Description *</Label>
+                <Input
+                  id="expense_description"
+                  value={line.description}
+                  onChange={(e) => setLine({ ...line, description: e.target.value })}
+                  placeholder="e.g. Hinges and screws"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Category *</Label>
+                <Select
+                  value={line.category}
+                  onValueChange={(value: CostCategory) => setLine({ ...line, category: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COST_CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category}>{COST_CATEGORY_LABELS[category]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expense_amount">Amount (₹) *</Label>
+                <Input
+                  id="expense_amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={line.amount}
+                  onChange={(e) => setLine({ ...line, amount: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Project</Label>
+                <Select
+                  value={line.project_id}
+                  onValueChange={(value) => setLine({ ...line, project_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PROJECT}>No project</SelectItem>
+                    {projects.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="expense_receipt">Receipt Photo</Label>
+                <Input
+                  id="expense_receipt"
+                  type="file"
+                  accept="image/*,application/pdf"
+                  capture="environment"
+                  onChange={(e) => setReceipt(e.target.files?.[0] ?? null)}
+                />
+              </div>
+              <div className="flex items-end justify-end">
+                <Button type="submit" variant="outline" disabled={saving}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Expense
+                </Button>
+              </div>
+            </div>
+          </form>
+        )}
+
+        {settlements.length > 0 && (
+          <div className="border rounded-md overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Settled On</TableHead>
+                  <TableHead className="text-right">Expenses</TableHead>
+                  <TableHead className="text-right">Returned</TableHead>
+                  <TableHead className="text-right">Reimbursed</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {settlements.map((s) => (
+                  <TableRow key={s.id}>
+                    <TableCell>{formatDate(s.settled_on)}</TableCell>
+                    <TableCell className="text-right">{formatINR(settlementExpenses(s.id))}</TableCell>
+                    <TableCell className="text-right">{formatINR(Number(s.returned_amount))}</TableCell>
+                    <TableCell className="text-right">{formatINR(Number(s.reimbursed_amount))}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{s.notes || '-'}</TableCell>
+                    <TableCell className="text-right">
+                      {canDelete && (
+                        <Button variant="ghost" size="icon" onClick={() => handleDeleteSettlement(s.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {editable ? (
+          <form onSubmit={handleSettle} className="space-y-3 border-t pt-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="settled_on">Settlement Date *</Label>
+                <Input
+                  id="settled_on"
+                  type="date"
+                  value={settleForm.settled_on}
+                  onChange={(e) => setSettleForm({ ...settleForm, settled_on: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="settle_returned">Cash Returned (₹)</Label>
+                <Input
+                  id="settle_returned"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={settleForm.returned_amount}
+                  disabled={settlement.balance <= 0}
+                  onChange={(e) => setSettleForm({ ...settleForm, returned_amount: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="settle_reimbursed">Reimbursed to Employee (₹)</Label>
+                <Input
+                  id="settle_reimbursed"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={settleForm.reimbursed_amount}
+                  disabled={settlement.balance >= 0}
+                  onChange={(e) => setSettleForm({ ...settleForm, reimbursed_amount: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="settle_notes">Notes</Label>
+                <Input
+                  id="settle_notes"
+                  value={settleForm.notes}
+                  onChange={(e) => setSettleForm({ ...settleForm, notes: e.target.value })}
+                />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {settlement.pending > 0
+                ? `Covers ${formatINR(settlement.pending)} of pending expenses. `
+                : ''}
+              {settlement.balance < 0
+                ? `${formatINR(-settlement.balance)} is owed to the employee; enter it once it has been paid, or leave it owing.`
+                : itemised
+                  ? 'Leave the amount blank to settle expenses now and take the cash back later.'
+                  : `${formatINR(settlement.balance)} is still to be repaid; enter each repayment as cash returned.`}
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Done for Now
+              </Button>
+              <Button type="submit">Record Settlement</Button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex justify-end border-t pt-4">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,15 @@
+import { COMPANY } from '@/lib/company';
+import { HOME_STATE_CODE } from '@/lib/gst';
+
+// Seller block at the top of printed invoices and quotations
+export const CompanyDetails = () => (
+  <div>
+    <h2 className="text-xl font-bold">{COMPANY.name}</h2>
+    {COMPANY.address && <p className="text-sm whitespace-pre-line">{COMPANY.address}</p>}
+    {COMPANY.gstin && <p className="text-sm">GSTIN: {COMPANY.gstin}</p>}
+    <p className="text-sm">State: {COMPANY.state} ({HOME_STATE_CODE})</p>
+    {(COMPANY.phone || COMPANY.email) && (
+      <p className="text-sm">{[COMPANY.phone, COMPANY.email].filter(Boolean).join(' • ')}</p>
+    )}
+  </div>
+);
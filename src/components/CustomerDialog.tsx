@@ -12,6 +12,8 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { toast } from 'sonner';
+import { GstinFields } from '@/components/GstinFields';
+import { isValidGstin } from '@/lib/gst';
 
 interface CustomerDialogProps {
   open: boolean;
@@ -26,15 +28,22 @@ export const CustomerDialog = ({ open, onOpenChange, onCustomerCreated }: Custom
     phone_number: '',
     address: '',
     notes: '',
+    gstin: '',
+    state_code: '',
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (formData.gstin && !isValidGstin(formData.gstin)) {
+      toast.error('GSTIN is not valid');
+      return;
+    }
+
     try {
       const { data, error } = await supabase
         .from('customers')
-        .insert([formData])
+        .insert([{ ...formData, gstin: formData.gstin || null, state_code: formData.state_code || null }])
         .select()
         .single();
 
@@ -43,7 +52,7 @@ export const CustomerDialog = ({ open, onOpenChange, onCustomerCreated }: Custom
       toast.success('Customer created successfully');
       onCustomerCreated(data.id);
       onOpenChange(false);
-      setFormData({ name: '', email: '', phone_number: '', address: '', notes: '' });
+      setFormData({ name: '', email: '', phone_number: '', address: '', notes: '', gstin: '', state_code: '' });
     } catch (error: any) {
       toast.error(error.message || 'Failed to create customer');
     }
@@ -92,6 +101,11 @@ export const CustomerDialog = ({ open, onOpenChange, onCustomerCreated }: Custom
               rows={2}
             />
           </div>
+          <GstinFields
+            gstin={formData.gstin}
+            stateCode={formData.state_code}
+            onChange={(value) => setFormData({ ...formData, ...value })}
+          />
           <div className="flex justify-end gap-2">
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
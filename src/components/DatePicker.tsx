@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarIcon, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { toDateValue } from '@/lib/dates';
+
+interface DatePickerProps {
+  value: string;
+  onValueChange: (value: string) => void;
+  placeholder?: string;
+}
+
+export const DatePicker = ({
+  value,
+  onValueChange,
+  placeholder = 'Pick a date',
+}: DatePickerProps) => {
+  const [open, setOpen] = useState(false);
+  const selected = value ? parseISO(value) : undefined;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className={cn(
+            'w-full justify-start text-left font-normal',
+            !value && 'text-muted-foreground'
+          )}
+        >
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          <span className="flex-1">{selected ? format(selected, 'dd MMM yyyy') : placeholder}</span>
+          {value && (
+            <X
+              className="h-4 w-4 opacity-50 hover:opacity-100"
+              onClick={(e) => {
+                e.stopPropagation();
+                onValueChange('');
+              }}
+            />
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={selected}
+          defaultMonth={selected}
+          onSelect={(date) => {
+            onValueChange(date ? toDateValue(date) : '');
+            setOpen(false);
+          }}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+};
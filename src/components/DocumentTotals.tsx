@@ -0,0 +1,39 @@
+import { formatINR } from '@/lib/currency';
+import { isInterState } from '@/lib/gst';
+import { LineItemTotals } from '@/lib/line-items';
+
+interface DocumentTotalsProps {
+  totals: LineItemTotals;
+  placeOfSupply: string;
+}
+
+// Tax summary shared by invoices, quotations and purchase orders, on screen and in print
+export const DocumentTotals = ({ totals, placeOfSupply }: DocumentTotalsProps) => {
+  const rows: [string, number][] = [];
+  if (Number(totals.discount_amount) > 0) {
+    rows.push(['Gross Value', Number(totals.taxable_value) + Number(totals.discount_amount)]);
+    rows.push(['Discount', -Number(totals.discount_amount)]);
+  }
+  rows.push(['Taxable Value', Number(totals.taxable_value)]);
+  if (isInterState(placeOfSupply)) {
+    rows.push(['IGST', Number(totals.igst_amount)]);
+  } else {
+    rows.push(['CGST', Number(totals.cgst_amount)]);
+    rows.push(['SGST', Number(totals.sgst_amount)]);
+  }
+
+  return (
+    <div className="text-sm space-y-1">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between">
+          <span className="text-muted-foreground">{label}</span>
+          <span>{formatINR(value)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between font-bold border-t pt-1">
+        <span>Total</span>
+        <span>{formatINR(Number(totals.total_amount))}</span>
+      </div>
+    </div>
+  );
+};
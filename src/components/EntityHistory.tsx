@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { ActivityDetails } from '@/components/ActivityDetails';
+import { actionLabel, actorLabel, fetchActorNames } from '@/lib/activity';
+
+// Most recent entries only; the full trail lives on the Audit Log page
+const HISTORY_LIMIT = 200;
+
+interface EntityHistoryProps {
+  // activity_log.data key that ties entries to the record, e.g. project_id
+  referenceKey: 'project_id' | 'customer_id' | 'supplier_id';
+  id: string;
+}
+
+export const EntityHistory = ({ referenceKey, id }: EntityHistoryProps) => {
+  const [entries, setEntries] = useState<Tables<'activity_log'>[]>([]);
+  const [actors, setActors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchHistory();
+    fetchActorNames().then(setActors);
+  }, [referenceKey, id]);
+
+  const fetchHistory = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('activity_log')
+        .select('*')
+        .eq(`data->>${referenceKey}`, id)
+        .order('timestamp', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-2">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="h-16 bg-muted animate-pulse rounded" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>When</TableHead>
+          <TableHead>Action</TableHead>
+          <TableHead>By</TableHead>
+          <TableHead>Changes</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={4} className="text-center text-muted-foreground">
+              No history recorded
+            </TableCell>
+          </TableRow>
+        ) : (
+          entries.map((entry) => (
+            <TableRow key={entry.id} className="align-top">
+              <TableCell className="text-sm whitespace-nowrap">
+                {entry.timestamp ? new Date(entry.timestamp).toLocaleString('en-IN') : '-'}
+              </TableCell>
+              <TableCell>
+                <Badge variant="outline">{actionLabel(entry.action)}</Badge>
+              </TableCell>
+              <TableCell className="text-sm">{actorLabel(entry, actors)}</TableCell>
+              <TableCell>
+                <ActivityDetails data={entry.data} />
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+};
@@ -0,0 +1,57 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GST_STATES, gstinStateCode } from '@/lib/gst';
+
+interface GstinFieldsProps {
+  gstin: string;
+  stateCode: string;
+  onChange: (value: { gstin: string; state_code: string }) => void;
+}
+
+// GSTIN plus state for place of supply. A valid GSTIN fixes the state; unregistered
+// customers pick it by hand.
+export const GstinFields = ({ gstin, stateCode, onChange }: GstinFieldsProps) => {
+  const gstinState = gstinStateCode(gstin);
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="gstin">GSTIN</Label>
+        <Input
+          id="gstin"
+          placeholder="e.g., 33ABCDE1234F1Z5"
+          maxLength={15}
+          value={gstin}
+          onChange={(e) => {
+            const value = e.target.value.toUpperCase().trim();
+            onChange({ gstin: value, state_code: gstinStateCode(value) ?? stateCode });
+          }}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="state_code">State</Label>
+        <Select
+          value={stateCode}
+          onValueChange={(value) => onChange({ gstin, state_code: value })}
+          disabled={!!gstinState}
+        >
+          <SelectTrigger id="state_code">
+            <SelectValue placeholder="Select state" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(GST_STATES).map(([code, name]) => (
+              <SelectItem key={code} value={code}>{code} - {name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { amountInWords } from '@/lib/currency';
+import { toDateValue } from '@/lib/dates';
+import { GST_STATES, HOME_STATE_CODE } from '@/lib/gst';
+import {
+  LineItemInput,
+  calculateLineItem,
+  emptyLineItem,
+  sumLineItems,
+  toLineItemInput,
+} from '@/lib/line-items';
+import { saveInvoice } from '@/lib/invoices';
+import { LineItemsEditor } from '@/components/LineItemsEditor';
+import { DocumentTotals } from '@/components/DocumentTotals';
+
+interface ProjectOption {
+  id: string;
+  name: string;
+  customer_id: string;
+  customers?: { name: string; state_code: string | null } | null;
+}
+
+interface InvoiceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edit an existing draft; otherwise a new invoice is created
+  invoiceId?: string | null;
+  defaultProjectId?: string;
+  onSaved: (invoiceId: string) => void;
+}
+
+const emptyForm = () => ({
+  project_id: '',
+  invoice_date: toDateValue(),
+  due_date: '',
+  place_of_supply: HOME_STATE_CODE,
+  notes: '',
+});
+
+export const InvoiceDialog = ({ open, onOpenChange, invoiceId, defaultProjectId, onSaved }: InvoiceDialogProps) => {
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [formData, setFormData] = useState(emptyForm());
+  const [lines, setLines] = useState<LineItemInput[]>([emptyLineItem()]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    fetchProjects();
+    if (invoiceId) {
+      fetchInvoice(invoiceId);
+    } else {
+      setFormData({ ...emptyForm(), project_id: defaultProjectId || '' });
+      setLines([emptyLineItem()]);
+    }
+  }, [open, invoiceId]);
+
+  const fetchProjects = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, customer_id, customers(name, state_code)')
+        .order('name');
+
+      if (error) throw error;
+      setProjects(data || []);
+
+      // A preselected project sets the place of supply the same way picking one does
+      const preselected = !invoiceId && data?.find((p) => p.id === defaultProjectId);
+      if (preselected) {
+        setFormData((current) => ({
+          ...current,
+          place_of_supply: preselected.customers?.state_code || HOME_STATE_CODE,
+        }));
+      }
+    } catch (error) {
+      toast.error('Failed to fetch projects');
+    }
+  };
+
+  const fetchInvoice = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*, invoice_items(*)')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      setFormData({
+        project_id: data.project_id,
+        invoice_date: data.invoice_date,
+        due_date: data.due_date || '',
+        place_of_supply: data.place_of_supply,
+        notes: data.notes || '',
+      });
+      const items = [...data.invoice_items].sort((a, b) => a.position - b.position);
+      setLines(items.length > 0 ? items.map(toLineItemInput) : [emptyLineItem()]);
+    } catch (error) {
+      toast.error('Failed to load invoice');
+    }
+  };
+
+  const handleProjectChange = (projectId: string) => {
+    const project = projects.find((p) => p.id === projectId);
+    setFormData({
+      ...formData,
+      project_id: projectId,
+      place_of_supply: project?.customers?.state_code || HOME_STATE_CODE,
+    });
+  };
+
+  const calculated = lines.map((line) => calculateLineItem(line, formData.place_of_supply));
+  const totals = sumLineItems(calculated);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const project = projects.find((p) => p.id === formData.project_id);
+    if (!project) {
+      toast.error('Select a project');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const id = await saveInvoice(
+        {
+          project_id: project.id,
+          customer_id: project.customer_id,
+          invoice_date: formData.invoice_date,
+          due_date: formData.due_date || null,
+          place_of_supply: formData.place_of_supply,
+          notes: formData.notes || null,
+        },
+        calculated,
+        invoiceId || undefined
+      );
+      toast.success(invoiceId ? 'Invoice updated' : 'Draft invoice created');
+      onOpenChange(false);
+      onSaved(id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save invoice');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{invoiceId ? 'Edit' : 'New'} Invoice</DialogTitle>
+          <DialogDescription>
+            Invoices are numbered when they are marked as sent
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="invoice_project">Project *</Label>
+              <Select value={formData.project_id} onValueChange={handleProjectChange} required>
+                <SelectTrigger id="invoice_project">
+                  <SelectValue placeholder="Select project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name} ({p.customers?.name})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoice_date">Invoice Date *</Label>
+              <Input
+                id="invoice_date"
+                type="date"
+                value={formData.invoice_date}
+                onChange={(e) => setFormData({ ...formData, invoice_date: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="due_date">Due Date</Label>
+              <Input
+                id="due_date"
+                type="date"
+                value={formData.due_date}
+                onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="invoice_place_of_supply">Place of Supply *</Label>
+              <Select
+                value={formData.place_of_supply}
+                onValueChange={(value) => setFormData({ ...formData, place_of_supply: value })}
+              >
+                <SelectTrigger id="invoice_place_of_supply">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(GST_STATES).map(([code, name]) => (
+                    <SelectItem key={code} value={code}>{code} - {name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <LineItemsEditor lines={lines} onChange={setLines} placeOfSupply={formData.place_of_supply} />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="invoice_notes">Notes</Label>
+              <Textarea
+                id="invoice_notes"
+                placeholder="Payment terms, bank details..."
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                rows={4}
+              />
+            </div>
+            <div className="rounded-md border p-3 space-y-1 self-start">
+              <DocumentTotals totals={totals} placeOfSupply={formData.place_of_supply} />
+              <p className="text-xs text-muted-foreground">{amountInWords(totals.total_amount)}</p>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {invoiceId ? 'Update' : 'Save Draft'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
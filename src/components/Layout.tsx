@@ -1,6 +1,7 @@
 import { ReactNode } from 'react';
 import { useNavigate, useLocation, Link } from 'react-router-dom';
 import { useAuth } from '@/lib/auth-context';
+import { Permission, ROLE_LABELS } from '@/lib/permissions';
 import { Button } from '@/components/ui/button';
 import { 
   LayoutDashboard, 
@@ -8,6 +9,16 @@ import {
   FolderKanban, 
   Receipt, 
   Wallet as WalletIcon,
+  UserCog,
+  ShieldCheck,
+  History,
+  Percent,
+  Hourglass,
+  HandCoins,
+  FileText,
+  ClipboardList,
+  Truck,
+  ShoppingCart,
   LogOut,
   Menu
 } from 'lucide-react';
@@ -20,10 +31,17 @@ interface LayoutProps {
   children: ReactNode;
 }
 
+interface NavItem {
+  path: string;
+  icon: typeof LayoutDashboard;
+  label: string;
+  permission?: Permission;
+}
+
 const Layout = ({ children }: LayoutProps) => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { user } = useAuth();
+  const { user, role, can } = useAuth();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   const handleLogout = async () => {
@@ -36,17 +54,29 @@ const Layout = ({ children }: LayoutProps) => {
     }
   };
 
-  const navItems = [
+  const navItems: NavItem[] = [
     { path: '/', icon: LayoutDashboard, label: 'Dashboard' },
     { path: '/customers', icon: Users, label: 'Customers' },
+    { path: '/suppliers', icon: Truck, label: 'Suppliers' },
     { path: '/projects', icon: FolderKanban, label: 'Projects' },
     { path: '/transactions', icon: Receipt, label: 'Transactions' },
-    { path: '/petty-cash', icon: WalletIcon, label: 'Petty Cash' },
+    { path: '/quotations', icon: ClipboardList, label: 'Quotations' },
+    { path: '/invoices', icon: FileText, label: 'Invoices' },
+    { path: '/purchase-orders', icon: ShoppingCart, label: 'Purchase Orders' },
+    { path: '/petty-cash', icon: WalletIcon, label: 'Petty Cash', permission: 'petty_cash.view' },
+    { path: '/employees', icon: UserCog, label: 'Employees', permission: 'employees.view' },
+    { path: '/reports/gst', icon: Percent, label: 'GST Summary', permission: 'reports.view' },
+    { path: '/reports/receivables', icon: Hourglass, label: 'Receivables Ageing', permission: 'reports.view' },
+    { path: '/reports/petty-cash', icon: HandCoins, label: 'Petty Cash by Type', permission: 'reports.view' },
+    { path: '/users', icon: ShieldCheck, label: 'Users', permission: 'users.manage' },
+    { path: '/audit-log', icon: History, label: 'Audit Log', permission: 'audit_log.view' },
   ];
 
+  const visibleNavItems = navItems.filter((item) => !item.permission || can(item.permission));
+
   const NavLinks = () => (
     <>
-      {navItems.map((item) => {
+      {visibleNavItems.map((item) => {
         const Icon = item.icon;
         const isActive = location.pathname === item.path;
         return (
@@ -75,7 +105,7 @@ const Layout = ({ children }: LayoutProps) => {
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
-      <header className="sticky top-0 z-40 border-b bg-card/95 backdrop-blur supports-[backdrop-filter]:bg-card/60">
+      <header className="print:hidden sticky top-0 z-40 border-b bg-card/95 backdrop-blur supports-[backdrop-filter]:bg-card/60">
         <div className="container flex h-16 items-center justify-between px-4">
           <div className="flex items-center gap-4">
             <Sheet open={mobileMenuOpen} onOpenChange={setMobileMenuOpen}>
@@ -103,17 +133,24 @@ const Layout = ({ children }: LayoutProps) => {
               <span className="text-xs font-medium text-muted-foreground ml-2">INR</span>
             </div>
           </div>
-          <Button variant="ghost" size="sm" onClick={handleLogout}>
-            <LogOut className="h-4 w-4 mr-2" />
-            Logout
-          </Button>
+          <div className="flex items-center gap-2">
+            {role && (
+              <span className="hidden sm:inline text-xs font-medium text-muted-foreground">
+                {ROLE_LABELS[role]}
+              </span>
+            )}
+            <Button variant="ghost" size="sm" onClick={handleLogout}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Logout
+            </Button>
+          </div>
         </div>
       </header>
 
       <div className="container mx-auto px-4">
-        <div className="flex gap-6 py-6">
+        <div className="flex gap-6 py-6 print:py-0">
           {/* Sidebar - Desktop */}
-          <aside className="hidden lg:block w-64 shrink-0">
+          <aside className="print:hidden hidden lg:block w-64 shrink-0">
             <div className="sticky top-20">
               <nav className="space-y-2">
                 <NavLinks />
@@ -0,0 +1,143 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import { formatINR } from '@/lib/currency';
+import { GST_RATES } from '@/lib/gst';
+import { LineItemInput, calculateLineItem, emptyLineItem } from '@/lib/line-items';
+
+interface LineItemsEditorProps {
+  lines: LineItemInput[];
+  onChange: (lines: LineItemInput[]) => void;
+  placeOfSupply: string;
+}
+
+export const LineItemsEditor = ({ lines, onChange, placeOfSupply }: LineItemsEditorProps) => {
+  const updateLine = (index: number, changes: Partial<LineItemInput>) => {
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="border rounded-md overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-48">Description *</TableHead>
+              <TableHead className="w-28">HSN/SAC</TableHead>
+              <TableHead className="w-20">Qty *</TableHead>
+              <TableHead className="w-20">Unit</TableHead>
+              <TableHead className="w-28">Rate (₹) *</TableHead>
+              <TableHead className="w-20">Disc %</TableHead>
+              <TableHead className="w-24">GST</TableHead>
+              <TableHead className="w-32 text-right">Amount</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lines.map((line, index) => (
+              <TableRow key={index} className="align-top">
+                <TableCell className="p-2">
+                  <Input
+                    value={line.description}
+                    onChange={(e) => updateLine(index, { description: e.target.value })}
+                    required
+                  />
+                </TableCell>
+                <TableCell className="p-2">
+                  <Input
+                    value={line.hsn_sac}
+                    onChange={(e) => updateLine(index, { hsn_sac: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell className="p-2">
+                  <Input
+                    type="number"
+                    step="0.001"
+                    min="0.001"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    required
+                  />
+                </TableCell>
+                <TableCell className="p-2">
+                  <Input
+                    value={line.unit}
+                    onChange={(e) => updateLine(index, { unit: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell className="p-2">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={line.rate}
+                    onChange={(e) => updateLine(index, { rate: e.target.value })}
+                    required
+                  />
+                </TableCell>
+                <TableCell className="p-2">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    value={line.discount_percent}
+                    onChange={(e) => updateLine(index, { discount_percent: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell className="p-2">
+                  <Select
+                    value={line.gst_rate}
+                    onValueChange={(value) => updateLine(index, { gst_rate: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GST_RATES.map((rate) => (
+                        <SelectItem key={rate} value={String(rate)}>{rate}%</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="p-2 pt-4 text-right font-medium">
+                  {formatINR(calculateLineItem(line, placeOfSupply).amount)}
+                </TableCell>
+                <TableCell className="p-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={lines.length === 1}
+                    onClick={() => onChange(lines.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...lines, emptyLineItem()])}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add Line
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatINR } from '@/lib/currency';
+
+interface SavedLineItem {
+  id: string;
+  description: string;
+  hsn_sac: string | null;
+  quantity: number;
+  unit: string | null;
+  rate: number;
+  discount_percent: number;
+  taxable_value: number;
+  gst_rate: number;
+  amount: number;
+}
+
+// Read-only item table for printed documents; the discount column only appears when used
+export const LineItemsTable = ({ items }: { items: SavedLineItem[] }) => {
+  const hasDiscount = items.some((item) => Number(item.discount_percent) > 0);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-10">#</TableHead>
+          <TableHead>Description</TableHead>
+          <TableHead>HSN/SAC</TableHead>
+          <TableHead className="text-right">Qty</TableHead>
+          <TableHead className="text-right">Rate</TableHead>
+          {hasDiscount && <TableHead className="text-right">Disc</TableHead>}
+          <TableHead className="text-right">Taxable</TableHead>
+          <TableHead className="text-right">GST</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map((item, index) => (
+          <TableRow key={item.id}>
+            <TableCell>{index + 1}</TableCell>
+            <TableCell>{item.description}</TableCell>
+            <TableCell className="text-sm">{item.hsn_sac || '-'}</TableCell>
+            <TableCell className="text-right">
+              {Number(item.quantity)} {item.unit}
+            </TableCell>
+            <TableCell className="text-right">{formatINR(Number(item.rate))}</TableCell>
+            {hasDiscount && (
+              <TableCell className="text-right">
+                {Number(item.discount_percent) > 0 ? `${Number(item.discount_percent)}%` : '-'}
+              </TableCell>
+            )}
+            <TableCell className="text-right">{formatINR(Number(item.taxable_value))}</TableCell>
+            <TableCell className="text-right">{Number(item.gst_rate)}%</TableCell>
+            <TableCell className="text-right font-medium">{formatINR(Number(item.amount))}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
@@ -0,0 +1,257 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatINR } from '@/lib/currency';
+import { toDateValue } from '@/lib/dates';
+import { roundPaise } from '@/lib/gst';
+import { saveMilestones } from '@/lib/milestones';
+
+interface PaymentScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  projectValue: number;
+  onSaved: () => void;
+}
+
+interface MilestoneRow {
+  id?: string;
+  name: string;
+  amount: string;
+  due_date: string;
+  amount_received: number;
+}
+
+const emptyRow = (): MilestoneRow => ({ name: '', amount: '', due_date: toDateValue(), amount_received: 0 });
+
+// The usual staged terms, offered as a starting point for a new schedule
+const STANDARD_SCHEDULE = [
+  { name: 'Advance', percent: 40 },
+  { name: 'On delivery', percent: 40 },
+  { name: 'After installation', percent: 20 },
+];
+
+export const PaymentScheduleDialog = ({
+  open,
+  onOpenChange,
+  projectId,
+  projectValue,
+  onSaved,
+}: PaymentScheduleDialogProps) => {
+  const [rows, setRows] = useState<MilestoneRow[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) fetchMilestones();
+  }, [open, projectId]);
+
+  const fetchMilestones = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('payment_milestones')
+        .select('id, name, amount, due_date, amount_received')
+        .eq('project_id', projectId)
+        .order('position');
+
+      if (error) throw error;
+      setRows(
+        (data || []).map((m) => ({
+          id: m.id,
+          name: m.name,
+          amount: String(Number(m.amount)),
+          due_date: m.due_date,
+          amount_received: Number(m.amount_received),
+        }))
+      );
+    } catch (error) {
+      toast.error('Failed to fetch payment schedule');
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<MilestoneRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const percentOf = (row: MilestoneRow) =>
+    projectValue > 0 && row.amount ? String(roundPaise((parseFloat(row.amount) / projectValue) * 100)) : '';
+
+  const applyStandardSchedule = () => {
+    setRows(
+      STANDARD_SCHEDULE.map(({ name, percent }) => ({
+        ...emptyRow(),
+        name,
+        amount: String(roundPaise((projectValue * percent) / 100)),
+      }))
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      await saveMilestones(
+        projectId,
+        rows.map((row) => ({
+          id: row.id,
+          name: row.name.trim(),
+          amount: parseFloat(row.amount),
+          due_date: row.due_date,
+        }))
+      );
+      toast.success('Payment schedule saved');
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save payment schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const scheduled = roundPaise(rows.reduce((sum, row) => sum + (parseFloat(row.amount) || 0), 0));
+  const unscheduled = roundPaise(projectValue - scheduled);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Payment Schedule</DialogTitle>
+          <DialogDescription>
+            The stages in which the customer pays for this project. Enter either a percentage of the
+            project value or an amount.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="border rounded-md overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-40">Milestone *</TableHead>
+                  <TableHead className="w-20">%</TableHead>
+                  <TableHead className="w-32">Amount (₹) *</TableHead>
+                  <TableHead className="w-40">Due Date *</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No milestones yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rows.map((row, index) => (
+                    <TableRow key={row.id ?? `new-${index}`} className="align-top">
+                      <TableCell className="p-2">
+                        <Input
+                          value={row.name}
+                          onChange={(e) => updateRow(index, { name: e.target.value })}
+                          required
+                        />
+                      </TableCell>
+                      <TableCell className="p-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={percentOf(row)}
+                          disabled={projectValue <= 0}
+                          onChange={(e) => updateRow(index, {
+                            amount: e.target.value
+                              ? String(roundPaise((projectValue * parseFloat(e.target.value)) / 100))
+                              : '',
+                          })}
+                        />
+                      </TableCell>
+                      <TableCell className="p-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min={row.amount_received > 0 ? row.amount_received : 0.01}
+                          value={row.amount}
+                          onChange={(e) => updateRow(index, { amount: e.target.value })}
+                          required
+                        />
+                      </TableCell>
+                      <TableCell className="p-2">
+                        <Input
+                          type="date"
+                          value={row.due_date}
+                          onChange={(e) => updateRow(index, { due_date: e.target.value })}
+                          required
+                        />
+                      </TableCell>
+                      <TableCell className="p-2">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          disabled={row.amount_received > 0}
+                          onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setRows([...rows, emptyRow()])}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Milestone
+            </Button>
+            {rows.length === 0 && projectValue > 0 && (
+              <Button type="button" variant="outline" size="sm" onClick={applyStandardSchedule}>
+                Use 40% / 40% / 20%
+              </Button>
+            )}
+          </div>
+          <div className="space-y-1 border-t pt-3 text-sm">
+            <div className="flex justify-between font-medium">
+              <span>Scheduled</span>
+              <span>{formatINR(scheduled)} of {formatINR(projectValue)}</span>
+            </div>
+            {rows.length > 0 && unscheduled !== 0 && (
+              <p className="text-orange-600">
+                {unscheduled > 0
+                  ? `${formatINR(unscheduled)} of the project value is not in any milestone`
+                  : `The schedule is ${formatINR(-unscheduled)} more than the project value`}
+              </p>
+            )}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              Save Schedule
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { formatINR } from '@/lib/currency';
+import { COST_CATEGORIES, COST_CATEGORY_LABELS, CostCategory } from '@/lib/budgets';
+
+interface ProjectBudgetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  onSaved: () => void;
+}
+
+export const ProjectBudgetDialog = ({ open, onOpenChange, projectId, onSaved }: ProjectBudgetDialogProps) => {
+  const [amounts, setAmounts] = useState<Record<CostCategory, string>>(
+    Object.fromEntries(COST_CATEGORIES.map((c) => [c, ''])) as Record<CostCategory, string>
+  );
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) fetchBudgets();
+  }, [open, projectId]);
+
+  const fetchBudgets = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('project_budgets')
+        .select('category, amount')
+        .eq('project_id', projectId);
+
+      if (error) throw error;
+      setAmounts(
+        Object.fromEntries(
+          COST_CATEGORIES.map((c) => {
+            const budget = data?.find((b) => b.category === c);
+            return [c, budget ? String(Number(budget.amount)) : ''];
+          })
+        ) as Record<CostCategory, string>
+      );
+    } catch (error) {
+      toast.error('Failed to fetch budget');
+    }
+  };
+
+  // Categories left blank have no budget, so their rows are removed
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const set = COST_CATEGORIES.filter((c) => amounts[c].trim() !== '');
+    const cleared = COST_CATEGORIES.filter((c) => amounts[c].trim() === '');
+
+    setSaving(true);
+    try {
+      if (set.length > 0) {
+        const { error } = await supabase
+          .from('project_budgets')
+          .upsert(
+            set.map((category) => ({ project_id: projectId, category, amount: parseFloat(amounts[category]) })),
+            { onConflict: 'project_id,category' }
+          );
+        if (error) throw error;
+      }
+      if (cleared.length > 0) {
+        const { error } = await supabase
+          .from('project_budgets')
+          .delete()
+          .eq('project_id', projectId)
+          .in('category', cleared);
+        if (error) throw error;
+      }
+      toast.success('Budget saved');
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save budget');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const total = COST_CATEGORIES.reduce((sum, c) => sum + (parseFloat(amounts[c]) || 0), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cost Budget</DialogTitle>
+          <DialogDescription>
+            What this project is expected to cost, by category. Leave a category blank for no budget.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {COST_CATEGORIES.map((category) => (
+            <div key={category} className="grid grid-cols-3 items-center gap-4">
+              <Label htmlFor={`budget_${category}`}>{COST_CATEGORY_LABELS[category]}</Label>
+              <Input
+                id={`budget_${category}`}
+                className="col-span-2"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="No budget"
+                value={amounts[category]}
+                onChange={(e) => setAmounts({ ...amounts, [category]: e.target.value })}
+              />
+            </div>
+          ))}
+          <div className="flex justify-between border-t pt-3 text-sm font-medium">
+            <span>Total Budget</span>
+            <span>{formatINR(total)}</span>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              Save Budget
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,264 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { amountInWords } from '@/lib/currency';
+import { toDateValue } from '@/lib/dates';
+import { GST_STATES, HOME_STATE_CODE } from '@/lib/gst';
+import {
+  LineItemInput,
+  calculateLineItem,
+  emptyLineItem,
+  sumLineItems,
+  toLineItemInput,
+} from '@/lib/line-items';
+import { savePurchaseOrder } from '@/lib/purchase-orders';
+import { SearchableSelect } from '@/components/SearchableSelect';
+import { LineItemsEditor } from '@/components/LineItemsEditor';
+import { DocumentTotals } from '@/components/DocumentTotals';
+
+interface PurchaseOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edit a PO with nothing received yet; otherwise a new one is raised
+  purchaseOrderId?: string | null;
+  defaultProjectId?: string;
+  onSaved: (purchaseOrderId: string) => void;
+}
+
+const emptyForm = () => ({
+  project_id: '',
+  supplier_id: '',
+  order_date: toDateValue(),
+  expected_delivery_date: '',
+  place_of_supply: HOME_STATE_CODE,
+  notes: '',
+});
+
+export const PurchaseOrderDialog = ({
+  open,
+  onOpenChange,
+  purchaseOrderId,
+  defaultProjectId,
+  onSaved,
+}: PurchaseOrderDialogProps) => {
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
+  const [suppliers, setSuppliers] = useState<{ id: string; name: string; state_code: string | null }[]>([]);
+  const [formData, setFormData] = useState(emptyForm());
+  const [lines, setLines] = useState<LineItemInput[]>([emptyLineItem()]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    fetchOptions();
+    if (purchaseOrderId) {
+      fetchPurchaseOrder(purchaseOrderId);
+    } else {
+      setFormData({ ...emptyForm(), project_id: defaultProjectId || '' });
+      setLines([emptyLineItem()]);
+    }
+  }, [open, purchaseOrderId]);
+
+  const fetchOptions = async () => {
+    try {
+      const [{ data: projectData, error: projectError }, { data: supplierData, error: supplierError }] =
+        await Promise.all([
+          supabase.from('projects').select('id, name').order('name'),
+          supabase.from('suppliers').select('id, name, state_code').order('name'),
+        ]);
+
+      if (projectError) throw projectError;
+      if (supplierError) throw supplierError;
+      setProjects(projectData || []);
+      setSuppliers(supplierData || []);
+    } catch (error) {
+      toast.error('Failed to fetch projects and suppliers');
+    }
+  };
+
+  const fetchPurchaseOrder = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select('*, purchase_order_items(*)')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      setFormData({
+        project_id: data.project_id,
+        supplier_id: data.supplier_id,
+        order_date: data.order_date,
+        expected_delivery_date: data.expected_delivery_date || '',
+        place_of_supply: data.place_of_supply,
+        notes: data.notes || '',
+      });
+      const items = [...data.purchase_order_items].sort((a, b) => a.position - b.position);
+      setLines(items.length > 0 ? items.map(toLineItemInput) : [emptyLineItem()]);
+    } catch (error) {
+      toast.error('Failed to load purchase order');
+    }
+  };
+
+  // Tax follows the supplier's state unless changed by hand
+  const handleSupplierChange = (supplierId: string) => {
+    const supplier = suppliers.find((s) => s.id === supplierId);
+    setFormData({
+      ...formData,
+      supplier_id: supplierId,
+      place_of_supply: supplier?.state_code || HOME_STATE_CODE,
+    });
+  };
+
+  const calculated = lines.map((line) => calculateLineItem(line, formData.place_of_supply));
+  const totals = sumLineItems(calculated);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.project_id || !formData.supplier_id) {
+      toast.error('Select a project and a supplier');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const id = await savePurchaseOrder(
+        {
+          project_id: formData.project_id,
+          supplier_id: formData.supplier_id,
+          order_date: formData.order_date,
+          expected_delivery_date: formData.expected_delivery_date || null,
+          place_of_supply: formData.place_of_supply,
+          notes: formData.notes || null,
+        },
+        calculated.map((item, index) => ({ ...item, id: lines[index].id })),
+        purchaseOrderId || undefined
+      );
+      toast.success(purchaseOrderId ? 'Purchase order updated' : 'Purchase order raised');
+      onOpenChange(false);
+      onSaved(id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save purchase order');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{purchaseOrderId ? 'Edit' : 'New'} Purchase Order</DialogTitle>
+          <DialogDescription>
+            Purchase orders are numbered when they are raised
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label>Project *</Label>
+              <SearchableSelect
+                options={projects.map((p) => ({ value: p.id, label: p.name }))}
+                value={formData.project_id}
+                onValueChange={(value) => setFormData({ ...formData, project_id: value })}
+                placeholder="Select project"
+                searchPlaceholder="Search projects..."
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>Supplier *</Label>
+              <SearchableSelect
+                options={suppliers.map((s) => ({ value: s.id, label: s.name }))}
+                value={formData.supplier_id}
+                onValueChange={handleSupplierChange}
+                placeholder="Select supplier"
+                searchPlaceholder="Search suppliers..."
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="order_date">Order Date *</Label>
+              <Input
+                id="order_date"
+                type="date"
+                value={formData.order_date}
+                onChange={(e) => setFormData({ ...formData, order_date: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expected_delivery_date">Expected Delivery</Label>
+              <Input
+                id="expected_delivery_date"
+                type="date"
+                min={formData.order_date}
+                value={formData.expected_delivery_date}
+                onChange={(e) => setFormData({ ...formData, expected_delivery_date: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="po_place_of_supply">Supplier State *</Label>
+              <Select
+                value={formData.place_of_supply}
+                onValueChange={(value) => setFormData({ ...formData, place_of_supply: value })}
+              >
+                <SelectTrigger id="po_place_of_supply">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(GST_STATES).map(([code, name]) => (
+                    <SelectItem key={code} value={code}>{code} - {name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <LineItemsEditor lines={lines} onChange={setLines} placeOfSupply={formData.place_of_supply} />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="po_notes">Notes</Label>
+              <Textarea
+                id="po_notes"
+                placeholder="Delivery address, payment terms..."
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                rows={4}
+              />
+            </div>
+            <div className="rounded-md border p-3 space-y-1 self-start">
+              <DocumentTotals totals={totals} placeOfSupply={formData.place_of_supply} />
+              <p className="text-xs text-muted-foreground">{amountInWords(totals.total_amount)}</p>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {purchaseOrderId ? 'Update' : 'Raise Purchase Order'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
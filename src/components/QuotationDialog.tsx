@@ -0,0 +1,326 @@
+import { useEffect, useState } from 'react';
+import { addDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { amountInWords } from '@/lib/currency';
+import { toDateValue } from '@/lib/dates';
+import { GST_STATES, HOME_STATE_CODE } from '@/lib/gst';
+import {
+  LineItemInput,
+  calculateLineItem,
+  emptyLineItem,
+  sumLineItems,
+  toLineItemInput,
+} from '@/lib/line-items';
+import { latestVersion, saveQuotationVersion } from '@/lib/quotations';
+import { LineItemsEditor } from '@/components/LineItemsEditor';
+import { DocumentTotals } from '@/components/DocumentTotals';
+
+const NEW_PROJECT = 'none';
+
+interface QuotationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Revise an existing quotation; otherwise a new one is created
+  quotationId?: string | null;
+  onSaved: (quotationId: string) => void;
+}
+
+const emptyForm = () => ({
+  customer_id: '',
+  project_id: NEW_PROJECT,
+  title: '',
+  quote_date: toDateValue(),
+  valid_until: toDateValue(addDays(new Date(), 30)),
+  place_of_supply: HOME_STATE_CODE,
+  notes: '',
+});
+
+export const QuotationDialog = ({ open, onOpenChange, quotationId, onSaved }: QuotationDialogProps) => {
+  const [customers, setCustomers] = useState<{ id: string; name: string; state_code: string | null }[]>([]);
+  const [projects, setProjects] = useState<{ id: string; name: string; status: string | null }[]>([]);
+  const [formData, setFormData] = useState(emptyForm());
+  const [lines, setLines] = useState<LineItemInput[]>([emptyLineItem()]);
+  const [nextVersion, setNextVersion] = useState(1);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    fetchCustomers();
+    if (quotationId) {
+      fetchQuotation(quotationId);
+    } else {
+      setFormData(emptyForm());
+      setLines([emptyLineItem()]);
+      setNextVersion(1);
+    }
+  }, [open, quotationId]);
+
+  useEffect(() => {
+    if (formData.customer_id) {
+      fetchProjects(formData.customer_id);
+    } else {
+      setProjects([]);
+    }
+  }, [formData.customer_id]);
+
+  const fetchCustomers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('id, name, state_code')
+        .order('name');
+
+      if (error) throw error;
+      setCustomers(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch customers');
+    }
+  };
+
+  const fetchProjects = async (customerId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, status')
+        .eq('customer_id', customerId)
+        .order('name');
+
+      if (error) throw error;
+      setProjects(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch projects');
+    }
+  };
+
+  // A revision starts from the latest version
+  const fetchQuotation = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('quotations')
+        .select('*, quotation_versions!quotation_versions_quotation_id_fkey(*, quotation_items(*))')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      const latest = latestVersion(data.quotation_versions);
+      setFormData({
+        customer_id: data.customer_id,
+        project_id: data.project_id || NEW_PROJECT,
+        title: data.title,
+        quote_date: toDateValue(),
+        valid_until: toDateValue(addDays(new Date(), 30)),
+        place_of_supply: latest?.place_of_supply || HOME_STATE_CODE,
+        notes: latest?.notes || '',
+      });
+      const items = [...(latest?.quotation_items || [])].sort((a, b) => a.position - b.position);
+      setLines(items.length > 0 ? items.map(toLineItemInput) : [emptyLineItem()]);
+      setNextVersion((latest?.version_number || 0) + 1);
+    } catch (error) {
+      toast.error('Failed to load quotation');
+    }
+  };
+
+  // Place of supply follows the customer's state unless changed by hand
+  const handleCustomerChange = (customerId: string) => {
+    const customer = customers.find((c) => c.id === customerId);
+    setFormData({
+      ...formData,
+      customer_id: customerId,
+      project_id: NEW_PROJECT,
+      place_of_supply: customer?.state_code || HOME_STATE_CODE,
+    });
+  };
+
+  const handleProjectChange = (projectId: string) => {
+    const project = projects.find((p) => p.id === projectId);
+    setFormData({
+      ...formData,
+      project_id: projectId,
+      title: formData.title || project?.name || '',
+    });
+  };
+
+  const calculated = lines.map((line) => calculateLineItem(line, formData.place_of_supply));
+  const totals = sumLineItems(calculated);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.customer_id) {
+      toast.error('Select a customer');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const id = await saveQuotationVersion(
+        {
+          customer_id: formData.customer_id,
+          project_id: formData.project_id === NEW_PROJECT ? null : formData.project_id,
+          title: formData.title,
+        },
+        {
+          quote_date: formData.quote_date,
+          valid_until: formData.valid_until || null,
+          place_of_supply: formData.place_of_supply,
+          notes: formData.notes || null,
+        },
+        calculated,
+        quotationId || undefined
+      );
+      toast.success(quotationId ? `Version ${nextVersion} saved` : 'Quotation created');
+      onOpenChange(false);
+      onSaved(id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save quotation');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{quotationId ? 'Revise' : 'New'} Quotation</DialogTitle>
+          <DialogDescription>
+            {quotationId
+              ? `Saving creates version ${nextVersion}; earlier versions are kept`
+              : 'Quotations are numbered when they are created'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="quotation_customer">Customer *</Label>
+              <Select
+                value={formData.customer_id}
+                onValueChange={handleCustomerChange}
+                disabled={!!quotationId}
+              >
+                <SelectTrigger id="quotation_customer">
+                  <SelectValue placeholder="Select customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quotation_project">Project</Label>
+              <Select
+                value={formData.project_id}
+                onValueChange={handleProjectChange}
+                disabled={!formData.customer_id}
+              >
+                <SelectTrigger id="quotation_project">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEW_PROJECT}>New project on acceptance</SelectItem>
+                  {projects.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>{p.name} ({p.status})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="quotation_title">Title *</Label>
+              <Input
+                id="quotation_title"
+                placeholder="e.g. Living room furnishing"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quote_date">Quote Date *</Label>
+              <Input
+                id="quote_date"
+                type="date"
+                value={formData.quote_date}
+                onChange={(e) => setFormData({ ...formData, quote_date: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="valid_until">Valid Until</Label>
+              <Input
+                id="valid_until"
+                type="date"
+                min={formData.quote_date}
+                value={formData.valid_until}
+                onChange={(e) => setFormData({ ...formData, valid_until: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="quotation_place_of_supply">Place of Supply *</Label>
+              <Select
+                value={formData.place_of_supply}
+                onValueChange={(value) => setFormData({ ...formData, place_of_supply: value })}
+              >
+                <SelectTrigger id="quotation_place_of_supply">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(GST_STATES).map(([code, name]) => (
+                    <SelectItem key={code} value={code}>{code} - {name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <LineItemsEditor lines={lines} onChange={setLines} placeOfSupply={formData.place_of_supply} />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="quotation_notes">Notes</Label>
+              <Textarea
+                id="quotation_notes"
+                placeholder="Scope, exclusions, delivery timeline..."
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                rows={4}
+              />
+            </div>
+            <div className="rounded-md border p-3 space-y-1 self-start">
+              <DocumentTotals totals={totals} placeOfSupply={formData.place_of_supply} />
+              <p className="text-xs text-muted-foreground">{amountInWords(totals.total_amount)}</p>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {quotationId ? 'Save New Version' : 'Create Quotation'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,77 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+
+interface TablePaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+// Zero-based page numbers to show: first, last and a window around the current page
+const visiblePages = (page: number, pageCount: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let i = 0; i < pageCount; i++) {
+    if (i === 0 || i === pageCount - 1 || Math.abs(i - page) <= 1) {
+      pages.push(i);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+export const TablePagination = ({ page, pageSize, total, onPageChange }: TablePaginationProps) => {
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const first = total === 0 ? 0 : page * pageSize + 1;
+  const last = Math.min(total, (page + 1) * pageSize);
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 0 && target < pageCount && target !== page) onPageChange(target);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2 sm:flex-row sm:justify-between">
+      <p className="text-sm text-muted-foreground whitespace-nowrap">
+        Showing {first}–{last} of {total}
+      </p>
+      <Pagination className="sm:justify-end">
+        <PaginationContent>
+          <PaginationItem>
+            <PaginationPrevious
+              href="#"
+              onClick={goTo(page - 1)}
+              className={page === 0 ? 'pointer-events-none opacity-50' : ''}
+            />
+          </PaginationItem>
+          {visiblePages(page, pageCount).map((p, idx) => (
+            <PaginationItem key={p ?? `ellipsis-${idx}`}>
+              {p === null ? (
+                <PaginationEllipsis />
+              ) : (
+                <PaginationLink href="#" isActive={p === page} onClick={goTo(p)}>
+                  {p + 1}
+                </PaginationLink>
+              )}
+            </PaginationItem>
+          ))}
+          <PaginationItem>
+            <PaginationNext
+              href="#"
+              onClick={goTo(page + 1)}
+              className={page >= pageCount - 1 ? 'pointer-events-none opacity-50' : ''}
+            />
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+    </div>
+  );
+};
@@ -0,0 +1,364 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatINR } from '@/lib/currency';
+import { formatDate } from '@/lib/dates';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportCustomer,
+  ImportProject,
+  ImportSupplier,
+  ImportValidation,
+  ParsedSheet,
+  guessColumnMapping,
+  parseImportFile,
+  validateImport,
+} from '@/lib/transaction-import';
+import type { TablesInsert } from '@/integrations/supabase/types';
+
+// Rows per insert request. Each insert still fires the balance trigger once per row.
+const BATCH_SIZE = 100;
+
+const UNMAPPED = '__none__';
+
+type Step = 'upload' | 'map' | 'preview';
+
+interface TransactionImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+export const TransactionImportDialog = ({ open, onOpenChange, onImported }: TransactionImportDialogProps) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [customers, setCustomers] = useState<ImportCustomer[]>([]);
+  const [projects, setProjects] = useState<ImportProject[]>([]);
+  const [suppliers, setSuppliers] = useState<ImportSupplier[]>([]);
+  const [validation, setValidation] = useState<ImportValidation | null>(null);
+  const [creatingCustomers, setCreatingCustomers] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [imported, setImported] = useState(0);
+
+  useEffect(() => {
+    if (open) fetchLookups();
+  }, [open]);
+
+  // Re-run the dry run whenever the lookups change (e.g. after creating customers)
+  useEffect(() => {
+    if (step === 'preview' && sheet && mapping) {
+      setValidation(validateImport(sheet.records, mapping, customers, projects, suppliers));
+    }
+  }, [step, sheet, mapping, customers, projects, suppliers]);
+
+  const fetchLookups = async () => {
+    try {
+      const [
+        { data: customerData, error: customerError },
+        { data: projectData, error: projectError },
+        { data: supplierData, error: supplierError },
+      ] = await Promise.all([
+        supabase.from('customers').select('id, name'),
+        supabase.from('projects').select('id, name, customer_id'),
+        supabase.from('suppliers').select('id, name'),
+      ]);
+
+      if (customerError) throw customerError;
+      if (projectError) throw projectError;
+      if (supplierError) throw supplierError;
+      setCustomers(customerData || []);
+      setProjects(projectData || []);
+      setSuppliers(supplierData || []);
+    } catch (error) {
+      toast.error('Failed to load customers and projects');
+    }
+  };
+
+  const reset = () => {
+    setStep('upload');
+    setSheet(null);
+    setMapping(null);
+    setValidation(null);
+    setImported(0);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (importing) return;
+    onOpenChange(value);
+    if (!value) reset();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = await parseImportFile(file);
+      if (parsed.records.length === 0) {
+        toast.error('No rows found in file');
+        return;
+      }
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep('map');
+    } catch (error) {
+      toast.error('Could not read file');
+    }
+  };
+
+  const missingRequired = mapping
+    ? IMPORT_FIELDS.filter((field) => field.required && !mapping[field.key])
+    : [];
+
+  const handleCreateCustomers = async () => {
+    if (!validation?.missingCustomers.length) return;
+    setCreatingCustomers(true);
+    try {
+      const { error } = await supabase
+        .from('customers')
+        .insert(validation.missingCustomers.map((name) => ({ name })));
+
+      if (error) throw error;
+      toast.success(`Created ${validation.missingCustomers.length} customers`);
+      await fetchLookups();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create customers');
+    } finally {
+      setCreatingCustomers(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!validation?.validRows.length) return;
+    setImporting(true);
+    setImported(0);
+
+    const rows = validation.validRows.map((row) => row.transaction as TablesInsert<'transactions'>);
+    let done = 0;
+    try {
+      // Sequential batches keep project balance updates in ledger order
+      for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+        const batch = rows.slice(i, i + BATCH_SIZE);
+        const { error } = await supabase.from('transactions').insert(batch);
+        if (error) throw error;
+        done += batch.length;
+        setImported(done);
+      }
+      toast.success(`Imported ${done} transactions`);
+      onImported();
+      onOpenChange(false);
+      reset();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Import failed';
+      toast.error(`${message}. ${done} of ${rows.length} transactions were imported.`);
+      if (done > 0) onImported();
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const invalidCount = validation ? validation.rows.length - validation.validRows.length : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV file with one transaction per row'}
+            {step === 'map' && 'Match the columns in your file to transaction fields'}
+            {step === 'preview' && 'Review the dry run before anything is saved'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-2">
+            <Label htmlFor="import_file">File</Label>
+            <Input
+              id="import_file"
+              type="file"
+              accept=".csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            <p className="text-sm text-muted-foreground">
+              Dates may be yyyy-mm-dd or dd/mm/yyyy. Type must be credit or debit, fund source cash or bank.
+            </p>
+          </div>
+        )}
+
+        {step === 'map' && sheet && mapping && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">{sheet.records.length} rows found</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label>{field.label}{field.required && ' *'}</Label>
+                  <Select
+                    value={mapping[field.key] || UNMAPPED}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [field.key]: value === UNMAPPED ? '' : value })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>
+                        {field.key === 'transaction_date' ? 'Not mapped (use today)' : 'Not mapped'}
+                      </SelectItem>
+                      {sheet.headers.map((header) => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button
+                type="button"
+                disabled={missingRequired.length > 0}
+                onClick={() => setStep('preview')}
+              >
+                Preview
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && validation && (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Badge variant="default" className="gap-1">
+                <CheckCircle className="h-3 w-3" />
+                {validation.validRows.length} ready
+              </Badge>
+              {invalidCount > 0 && (
+                <Badge variant="destructive" className="gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  {invalidCount} with errors
+                </Badge>
+              )}
+            </div>
+
+            {validation.missingCustomers.length > 0 && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>{validation.missingCustomers.length} customers not found</AlertTitle>
+                <AlertDescription className="space-y-2">
+                  <p className="text-sm">{validation.missingCustomers.join(', ')}</p>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    disabled={creatingCustomers}
+                    onClick={handleCreateCustomers}
+                  >
+                    Create missing customers
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="max-h-[45vh] overflow-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Project</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {validation.rows.map((row) => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                      <TableCell className="text-sm">
+                        {row.transaction.transaction_date ? formatDate(row.transaction.transaction_date) : 'Today'}
+                      </TableCell>
+                      <TableCell>{row.customerName || '-'}</TableCell>
+                      <TableCell>{row.projectName || '-'}</TableCell>
+                      <TableCell>{row.transaction.transaction_type || '-'}</TableCell>
+                      <TableCell className="text-right">
+                        {row.transaction.amount !== undefined ? formatINR(row.transaction.amount) : '-'}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {row.errors.length === 0 ? (
+                          <span className="text-green-600">OK</span>
+                        ) : (
+                          <ul className="text-destructive">
+                            {row.errors.map((error) => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {importing && (
+              <div className="space-y-1">
+                <Progress value={(imported / validation.validRows.length) * 100} />
+                <p className="text-sm text-muted-foreground">
+                  Imported {imported} of {validation.validRows.length}
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" disabled={importing} onClick={() => setStep('map')}>
+                Back
+              </Button>
+              <Button
+                type="button"
+                disabled={importing || validation.validRows.length === 0}
+                onClick={handleImport}
+              >
+                Import {validation.validRows.length} Transactions
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
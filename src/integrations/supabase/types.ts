@@ -20,6 +20,8 @@ export type Database = {
           actor_id: string | null
           actor_type: string | null
           data: Json | null
+          entity_id: string | null
+          entity_type: string | null
           id: string
           timestamp: string | null
         }
@@ -28,6 +30,8 @@ export type Database = {
           actor_id?: string | null
           actor_type?: string | null
           data?: Json | null
+          entity_id?: string | null
+          entity_type?: string | null
           id?: string
           timestamp?: string | null
         }
@@ -36,44 +40,115 @@ export type Database = {
           actor_id?: string | null
           actor_type?: string | null
           data?: Json | null
+          entity_id?: string | null
+          entity_type?: string | null
           id?: string
           timestamp?: string | null
         }
         Relationships: []
       }
+      customer_notes: {
+        Row: {
+          body: string
+          created_at: string | null
+          created_by: string | null
+          customer_id: string
+          id: string
+          interaction: Database["public"]["Enums"]["customer_interaction"]
+          noted_on: string
+          updated_at: string | null
+        }
+        Insert: {
+          body: string
+          created_at?: string | null
+          created_by?: string | null
+          customer_id: string
+          id?: string
+          interaction?: Database["public"]["Enums"]["customer_interaction"]
+          noted_on?: string
+          updated_at?: string | null
+        }
+        Update: {
+          body?: string
+          created_at?: string | null
+          created_by?: string | null
+          customer_id?: string
+          id?: string
+          interaction?: Database["public"]["Enums"]["customer_interaction"]
+          noted_on?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_notes_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_notes_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       customers: {
         Row: {
           address: string | null
           created_at: string | null
           email: string | null
+          gstin: string | null
           id: string
           name: string
-          notes: string | null
           phone_number: string | null
+          state_code: string | null
           updated_at: string | null
         }
         Insert: {
           address?: string | null
           created_at?: string | null
           email?: string | null
+          gstin?: string | null
           id?: string
           name: string
-          notes?: string | null
           phone_number?: string | null
+          state_code?: string | null
           updated_at?: string | null
         }
         Update: {
           address?: string | null
           created_at?: string | null
           email?: string | null
+          gstin?: string | null
           id?: string
           name?: string
-          notes?: string | null
           phone_number?: string | null
+          state_code?: string | null
           updated_at?: string | null
         }
         Relationships: []
       }
+      document_sequences: {
+        Row: {
+          financial_year: string
+          last_number: number
+          prefix: string
+        }
+        Insert: {
+          financial_year: string
+          last_number?: number
+          prefix: string
+        }
+        Update: {
+          financial_year?: string
+          last_number?: number
+          prefix?: string
+        }
+        Relationships: []
+      }
       employees: {
         Row: {
           created_at: string | null
@@ -104,44 +179,262 @@ export type Database = {
         }
         Relationships: []
       }
+      invoice_items: {
+        Row: {
+          amount: number
+          cgst_amount: number
+          created_at: string | null
+          description: string
+          discount_percent: number
+          gst_rate: number
+          hsn_sac: string | null
+          id: string
+          igst_amount: number
+          invoice_id: string
+          position: number
+          quantity: number
+          rate: number
+          sgst_amount: number
+          taxable_value: number
+          unit: string | null
+        }
+        Insert: {
+          amount?: number
+          cgst_amount?: number
+          created_at?: string | null
+          description: string
+          discount_percent?: number
+          gst_rate?: number
+          hsn_sac?: string | null
+          id?: string
+          igst_amount?: number
+          invoice_id: string
+          position?: number
+          quantity?: number
+          rate: number
+          sgst_amount?: number
+          taxable_value?: number
+          unit?: string | null
+        }
+        Update: {
+          amount?: number
+          cgst_amount?: number
+          created_at?: string | null
+          description?: string
+          discount_percent?: number
+          gst_rate?: number
+          hsn_sac?: string | null
+          id?: string
+          igst_amount?: number
+          invoice_id?: string
+          position?: number
+          quantity?: number
+          rate?: number
+          sgst_amount?: number
+          taxable_value?: number
+          unit?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          amount_paid: number
+          cgst_amount: number
+          created_at: string | null
+          customer_id: string
+          due_date: string | null
+          id: string
+          igst_amount: number
+          invoice_date: string
+          invoice_number: string | null
+          notes: string | null
+          place_of_supply: string
+          project_id: string
+          sgst_amount: number
+          status: Database["public"]["Enums"]["invoice_status"]
+          taxable_value: number
+          total_amount: number
+          updated_at: string | null
+        }
+        Insert: {
+          amount_paid?: number
+          cgst_amount?: number
+          created_at?: string | null
+          customer_id: string
+          due_date?: string | null
+          id?: string
+          igst_amount?: number
+          invoice_date?: string
+          invoice_number?: string | null
+          notes?: string | null
+          place_of_supply: string
+          project_id: string
+          sgst_amount?: number
+          status?: Database["public"]["Enums"]["invoice_status"]
+          taxable_value?: number
+          total_amount?: number
+          updated_at?: string | null
+        }
+        Update: {
+          amount_paid?: number
+          cgst_amount?: number
+          created_at?: string | null
+          customer_id?: string
+          due_date?: string | null
+          id?: string
+          igst_amount?: number
+          invoice_date?: string
+          invoice_number?: string | null
+          notes?: string | null
+          place_of_supply?: string
+          project_id?: string
+          sgst_amount?: number
+          status?: Database["public"]["Enums"]["invoice_status"]
+          taxable_value?: number
+          total_amount?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_milestones: {
+        Row: {
+          amount: number
+          amount_received: number
+          created_at: string | null
+          due_date: string
+          id: string
+          name: string
+          position: number
+          project_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          amount_received?: number
+          created_at?: string | null
+          due_date: string
+          id?: string
+          name: string
+          position?: number
+          project_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          amount_received?: number
+          created_at?: string | null
+          due_date?: string
+          id?: string
+          name?: string
+          position?: number
+          project_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_milestones_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       petty_cash_advance: {
         Row: {
           advance_amount: number
+          advance_type: Database["public"]["Enums"]["advance_type"]
+          approval_status: Database["public"]["Enums"]["advance_approval_status"]
           created_at: string | null
+          decided_at: string | null
+          decided_by: string | null
+          decision_notes: string | null
+          disbursed_on: string | null
+          due_date: string
           employee_id: string
           expense_total: number
           id: string
           notes: string | null
           project_id: string | null
+          reimbursed_amount: number
+          requested_by: string | null
           returned_amount: number
           status: Database["public"]["Enums"]["advance_status"] | null
           updated_at: string | null
         }
         Insert: {
           advance_amount?: number
+          advance_type?: Database["public"]["Enums"]["advance_type"]
+          approval_status?: Database["public"]["Enums"]["advance_approval_status"]
           created_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_notes?: string | null
+          disbursed_on?: string | null
+          due_date?: string
           employee_id: string
           expense_total?: number
           id?: string
           notes?: string | null
           project_id?: string | null
+          reimbursed_amount?: number
+          requested_by?: string | null
           returned_amount?: number
           status?: Database["public"]["Enums"]["advance_status"] | null
           updated_at?: string | null
         }
         Update: {
           advance_amount?: number
+          advance_type?: Database["public"]["Enums"]["advance_type"]
+          approval_status?: Database["public"]["Enums"]["advance_approval_status"]
           created_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_notes?: string | null
+          disbursed_on?: string | null
+          due_date?: string
           employee_id?: string
           expense_total?: number
           id?: string
           notes?: string | null
           project_id?: string | null
+          reimbursed_amount?: number
+          requested_by?: string | null
           returned_amount?: number
           status?: Database["public"]["Enums"]["advance_status"] | null
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "petty_cash_advance_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "petty_cash_advance_employee_id_fkey"
             columns: ["employee_id"]
@@ -156,149 +449,850 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "petty_cash_advance_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      profiles: {
+      petty_cash_expenses: {
         Row: {
+          advance_id: string
+          amount: number
+          category: Database["public"]["Enums"]["cost_category"]
           created_at: string | null
-          email: string | null
-          full_name: string | null
+          description: string
+          expense_date: string
           id: string
-          phone: string | null
-          role: string | null
+          project_id: string | null
+          receipt_path: string | null
+          settlement_id: string | null
           updated_at: string | null
         }
         Insert: {
+          advance_id: string
+          amount: number
+          category?: Database["public"]["Enums"]["cost_category"]
           created_at?: string | null
-          email?: string | null
-          full_name?: string | null
-          id: string
-          phone?: string | null
-          role?: string | null
+          description: string
+          expense_date?: string
+          id?: string
+          project_id?: string | null
+          receipt_path?: string | null
+          settlement_id?: string | null
           updated_at?: string | null
         }
         Update: {
+          advance_id?: string
+          amount?: number
+          category?: Database["public"]["Enums"]["cost_category"]
           created_at?: string | null
-          email?: string | null
-          full_name?: string | null
+          description?: string
+          expense_date?: string
           id?: string
-          phone?: string | null
-          role?: string | null
+          project_id?: string | null
+          receipt_path?: string | null
+          settlement_id?: string | null
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "petty_cash_expenses_advance_id_fkey"
+            columns: ["advance_id"]
+            isOneToOne: false
+            referencedRelation: "petty_cash_advance"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "petty_cash_expenses_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "petty_cash_expenses_settlement_id_fkey"
+            columns: ["settlement_id"]
+            isOneToOne: false
+            referencedRelation: "petty_cash_settlements"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      projects: {
+      petty_cash_limits: {
         Row: {
+          approval_threshold: number | null
           created_at: string | null
-          customer_id: string
-          description: string | null
-          end_date: string | null
-          estimated_total: number
+          department: string | null
+          employee_id: string | null
           id: string
-          name: string
-          remaining_amount: number
-          start_date: string | null
-          status: Database["public"]["Enums"]["project_status"] | null
+          max_outstanding: number | null
           updated_at: string | null
         }
         Insert: {
+          approval_threshold?: number | null
           created_at?: string | null
-          customer_id: string
-          description?: string | null
-          end_date?: string | null
-          estimated_total?: number
+          department?: string | null
+          employee_id?: string | null
           id?: string
-          name: string
-          remaining_amount?: number
-          start_date?: string | null
-          status?: Database["public"]["Enums"]["project_status"] | null
+          max_outstanding?: number | null
           updated_at?: string | null
         }
         Update: {
+          approval_threshold?: number | null
           created_at?: string | null
-          customer_id?: string
-          description?: string | null
-          end_date?: string | null
-          estimated_total?: number
+          department?: string | null
+          employee_id?: string | null
           id?: string
-          name?: string
-          remaining_amount?: number
-          start_date?: string | null
-          status?: Database["public"]["Enums"]["project_status"] | null
+          max_outstanding?: number | null
           updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "projects_customer_id_fkey"
-            columns: ["customer_id"]
+            foreignKeyName: "petty_cash_limits_employee_id_fkey"
+            columns: ["employee_id"]
             isOneToOne: false
-            referencedRelation: "customers"
+            referencedRelation: "employees"
             referencedColumns: ["id"]
           },
         ]
       }
-      transactions: {
+      petty_cash_settlements: {
         Row: {
-          amount: number
+          advance_id: string
           created_at: string | null
-          customer_id: string
-          fund_source: Database["public"]["Enums"]["fund_source"]
           id: string
-          metadata: Json | null
-          payment_mode: string | null
-          project_id: string
-          reason: string
-          related_advance_id: string | null
-          related_employee_id: string | null
-          transaction_type: Database["public"]["Enums"]["transaction_type"]
+          notes: string | null
+          reimbursed_amount: number
+          returned_amount: number
+          settled_on: string
           updated_at: string | null
         }
         Insert: {
-          amount: number
+          advance_id: string
           created_at?: string | null
-          customer_id: string
-          fund_source: Database["public"]["Enums"]["fund_source"]
           id?: string
-          metadata?: Json | null
-          payment_mode?: string | null
-          project_id: string
-          reason: string
-          related_advance_id?: string | null
-          related_employee_id?: string | null
-          transaction_type: Database["public"]["Enums"]["transaction_type"]
+          notes?: string | null
+          reimbursed_amount?: number
+          returned_amount?: number
+          settled_on?: string
           updated_at?: string | null
         }
         Update: {
-          amount?: number
+          advance_id?: string
           created_at?: string | null
-          customer_id?: string
-          fund_source?: Database["public"]["Enums"]["fund_source"]
           id?: string
-          metadata?: Json | null
-          payment_mode?: string | null
-          project_id?: string
-          reason?: string
-          related_advance_id?: string | null
-          related_employee_id?: string | null
-          transaction_type?: Database["public"]["Enums"]["transaction_type"]
+          notes?: string | null
+          reimbursed_amount?: number
+          returned_amount?: number
+          settled_on?: string
           updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "transactions_customer_id_fkey"
-            columns: ["customer_id"]
+            foreignKeyName: "petty_cash_settlements_advance_id_fkey"
+            columns: ["advance_id"]
             isOneToOne: false
-            referencedRelation: "customers"
+            referencedRelation: "petty_cash_advance"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "transactions_project_id_fkey"
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string | null
+          email: string | null
+          full_name: string | null
+          id: string
+          phone: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          email?: string | null
+          full_name?: string | null
+          id: string
+          phone?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          phone?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      project_budgets: {
+        Row: {
+          amount: number
+          category: Database["public"]["Enums"]["cost_category"]
+          created_at: string | null
+          id: string
+          project_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          category: Database["public"]["Enums"]["cost_category"]
+          created_at?: string | null
+          id?: string
+          project_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          category?: Database["public"]["Enums"]["cost_category"]
+          created_at?: string | null
+          id?: string
+          project_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_budgets_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      projects: {
+        Row: {
+          created_at: string | null
+          customer_id: string
+          description: string | null
+          end_date: string | null
+          estimated_total: number
+          id: string
+          name: string
+          remaining_amount: number
+          start_date: string | null
+          status: Database["public"]["Enums"]["project_status"] | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          customer_id: string
+          description?: string | null
+          end_date?: string | null
+          estimated_total?: number
+          id?: string
+          name: string
+          remaining_amount?: number
+          start_date?: string | null
+          status?: Database["public"]["Enums"]["project_status"] | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          customer_id?: string
+          description?: string | null
+          end_date?: string | null
+          estimated_total?: number
+          id?: string
+          name?: string
+          remaining_amount?: number
+          start_date?: string | null
+          status?: Database["public"]["Enums"]["project_status"] | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projects_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_items: {
+        Row: {
+          amount: number
+          cgst_amount: number
+          created_at: string | null
+          description: string
+          discount_percent: number
+          gst_rate: number
+          hsn_sac: string | null
+          id: string
+          igst_amount: number
+          position: number
+          purchase_order_id: string
+          quantity: number
+          rate: number
+          received_quantity: number
+          sgst_amount: number
+          taxable_value: number
+          unit: string | null
+        }
+        Insert: {
+          amount?: number
+          cgst_amount?: number
+          created_at?: string | null
+          description: string
+          discount_percent?: number
+          gst_rate?: number
+          hsn_sac?: string | null
+          id?: string
+          igst_amount?: number
+          position?: number
+          purchase_order_id: string
+          quantity?: number
+          rate: number
+          received_quantity?: number
+          sgst_amount?: number
+          taxable_value?: number
+          unit?: string | null
+        }
+        Update: {
+          amount?: number
+          cgst_amount?: number
+          created_at?: string | null
+          description?: string
+          discount_percent?: number
+          gst_rate?: number
+          hsn_sac?: string | null
+          id?: string
+          igst_amount?: number
+          position?: number
+          purchase_order_id?: string
+          quantity?: number
+          rate?: number
+          received_quantity?: number
+          sgst_amount?: number
+          taxable_value?: number
+          unit?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          amount_paid: number
+          cgst_amount: number
+          created_at: string | null
+          expected_delivery_date: string | null
+          id: string
+          igst_amount: number
+          notes: string | null
+          order_date: string
+          place_of_supply: string
+          po_number: string | null
+          project_id: string
+          sgst_amount: number
+          status: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id: string
+          taxable_value: number
+          total_amount: number
+          updated_at: string | null
+        }
+        Insert: {
+          amount_paid?: number
+          cgst_amount?: number
+          created_at?: string | null
+          expected_delivery_date?: string | null
+          id?: string
+          igst_amount?: number
+          notes?: string | null
+          order_date?: string
+          place_of_supply: string
+          po_number?: string | null
+          project_id: string
+          sgst_amount?: number
+          status?: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id: string
+          taxable_value?: number
+          total_amount?: number
+          updated_at?: string | null
+        }
+        Update: {
+          amount_paid?: number
+          cgst_amount?: number
+          created_at?: string | null
+          expected_delivery_date?: string | null
+          id?: string
+          igst_amount?: number
+          notes?: string | null
+          order_date?: string
+          place_of_supply?: string
+          po_number?: string | null
+          project_id?: string
+          sgst_amount?: number
+          status?: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id?: string
+          taxable_value?: number
+          total_amount?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quotation_items: {
+        Row: {
+          amount: number
+          cgst_amount: number
+          created_at: string | null
+          description: string
+          discount_percent: number
+          gst_rate: number
+          hsn_sac: string | null
+          id: string
+          igst_amount: number
+          position: number
+          quantity: number
+          rate: number
+          sgst_amount: number
+          taxable_value: number
+          unit: string | null
+          version_id: string
+        }
+        Insert: {
+          amount?: number
+          cgst_amount?: number
+          created_at?: string | null
+          description: string
+          discount_percent?: number
+          gst_rate?: number
+          hsn_sac?: string | null
+          id?: string
+          igst_amount?: number
+          position?: number
+          quantity?: number
+          rate: number
+          sgst_amount?: number
+          taxable_value?: number
+          unit?: string | null
+          version_id: string
+        }
+        Update: {
+          amount?: number
+          cgst_amount?: number
+          created_at?: string | null
+          description?: string
+          discount_percent?: number
+          gst_rate?: number
+          hsn_sac?: string | null
+          id?: string
+          igst_amount?: number
+          position?: number
+          quantity?: number
+          rate?: number
+          sgst_amount?: number
+          taxable_value?: number
+          unit?: string | null
+          version_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quotation_items_version_id_fkey"
+            columns: ["version_id"]
+            isOneToOne: false
+            referencedRelation: "quotation_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quotation_versions: {
+        Row: {
+          cgst_amount: number
+          created_at: string | null
+          created_by: string | null
+          discount_amount: number
+          id: string
+          igst_amount: number
+          notes: string | null
+          place_of_supply: string
+          quotation_id: string
+          quote_date: string
+          sgst_amount: number
+          taxable_value: number
+          total_amount: number
+          valid_until: string | null
+          version_number: number
+        }
+        Insert: {
+          cgst_amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          discount_amount?: number
+          id?: string
+          igst_amount?: number
+          notes?: string | null
+          place_of_supply: string
+          quotation_id: string
+          quote_date?: string
+          sgst_amount?: number
+          taxable_value?: number
+          total_amount?: number
+          valid_until?: string | null
+          version_number?: number
+        }
+        Update: {
+          cgst_amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          discount_amount?: number
+          id?: string
+          igst_amount?: number
+          notes?: string | null
+          place_of_supply?: string
+          quotation_id?: string
+          quote_date?: string
+          sgst_amount?: number
+          taxable_value?: number
+          total_amount?: number
+          valid_until?: string | null
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quotation_versions_quotation_id_fkey"
+            columns: ["quotation_id"]
+            isOneToOne: false
+            referencedRelation: "quotations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quotations: {
+        Row: {
+          accepted_at: string | null
+          accepted_version_id: string | null
+          created_at: string | null
+          customer_id: string
+          id: string
+          project_id: string | null
+          quotation_number: string | null
+          status: Database["public"]["Enums"]["quotation_status"]
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_version_id?: string | null
+          created_at?: string | null
+          customer_id: string
+          id?: string
+          project_id?: string | null
+          quotation_number?: string | null
+          status?: Database["public"]["Enums"]["quotation_status"]
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_version_id?: string | null
+          created_at?: string | null
+          customer_id?: string
+          id?: string
+          project_id?: string | null
+          quotation_number?: string | null
+          status?: Database["public"]["Enums"]["quotation_status"]
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quotations_accepted_version_id_fkey"
+            columns: ["accepted_version_id"]
+            isOneToOne: false
+            referencedRelation: "quotation_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotations_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotations_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_bills: {
+        Row: {
+          amount: number
+          bill_date: string
+          bill_number: string
+          created_at: string | null
+          due_date: string | null
+          id: string
+          notes: string | null
+          project_id: string | null
+          supplier_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          bill_date?: string
+          bill_number: string
+          created_at?: string | null
+          due_date?: string | null
+          id?: string
+          notes?: string | null
+          project_id?: string | null
+          supplier_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          bill_date?: string
+          bill_number?: string
+          created_at?: string | null
+          due_date?: string | null
+          id?: string
+          notes?: string | null
+          project_id?: string | null
+          supplier_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_bills_project_id_fkey"
             columns: ["project_id"]
             isOneToOne: false
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "supplier_bills_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppliers: {
+        Row: {
+          address: string | null
+          bank_account_number: string | null
+          bank_ifsc: string | null
+          bank_name: string | null
+          contact_person: string | null
+          created_at: string | null
+          email: string | null
+          gstin: string | null
+          id: string
+          name: string
+          notes: string | null
+          phone_number: string | null
+          state_code: string | null
+          updated_at: string | null
+          upi_id: string | null
+        }
+        Insert: {
+          address?: string | null
+          bank_account_number?: string | null
+          bank_ifsc?: string | null
+          bank_name?: string | null
+          contact_person?: string | null
+          created_at?: string | null
+          email?: string | null
+          gstin?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          phone_number?: string | null
+          state_code?: string | null
+          updated_at?: string | null
+          upi_id?: string | null
+        }
+        Update: {
+          address?: string | null
+          bank_account_number?: string | null
+          bank_ifsc?: string | null
+          bank_name?: string | null
+          contact_person?: string | null
+          created_at?: string | null
+          email?: string | null
+          gstin?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          phone_number?: string | null
+          state_code?: string | null
+          updated_at?: string | null
+          upi_id?: string | null
+        }
+        Relationships: []
+      }
+      transactions: {
+        Row: {
+          amount: number
+          cgst_amount: number
+          cost_category: Database["public"]["Enums"]["cost_category"] | null
+          created_at: string | null
+          customer_id: string | null
+          fund_source: Database["public"]["Enums"]["fund_source"]
+          gst_rate: number | null
+          id: string
+          igst_amount: number
+          invoice_id: string | null
+          metadata: Json | null
+          milestone_id: string | null
+          payment_mode: string | null
+          petty_cash_expense_id: string | null
+          petty_cash_settlement_id: string | null
+          place_of_supply: string | null
+          project_id: string | null
+          purchase_order_id: string | null
+          reason: string
+          related_advance_id: string | null
+          related_employee_id: string | null
+          sgst_amount: number
+          supplier_id: string | null
+          taxable_value: number | null
+          transaction_date: string
+          transaction_type: Database["public"]["Enums"]["transaction_type"]
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          cgst_amount?: number
+          cost_category?: Database["public"]["Enums"]["cost_category"] | null
+          created_at?: string | null
+          customer_id?: string | null
+          fund_source: Database["public"]["Enums"]["fund_source"]
+          gst_rate?: number | null
+          id?: string
+          igst_amount?: number
+          invoice_id?: string | null
+          metadata?: Json | null
+          milestone_id?: string | null
+          payment_mode?: string | null
+          petty_cash_expense_id?: string | null
+          petty_cash_settlement_id?: string | null
+          place_of_supply?: string | null
+          project_id?: string | null
+          purchase_order_id?: string | null
+          reason: string
+          related_advance_id?: string | null
+          related_employee_id?: string | null
+          sgst_amount?: number
+          supplier_id?: string | null
+          taxable_value?: number | null
+          transaction_date?: string
+          transaction_type: Database["public"]["Enums"]["transaction_type"]
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          cgst_amount?: number
+          cost_category?: Database["public"]["Enums"]["cost_category"] | null
+          created_at?: string | null
+          customer_id?: string | null
+          fund_source?: Database["public"]["Enums"]["fund_source"]
+          gst_rate?: number | null
+          id?: string
+          igst_amount?: number
+          invoice_id?: string | null
+          metadata?: Json | null
+          milestone_id?: string | null
+          payment_mode?: string | null
+          petty_cash_expense_id?: string | null
+          petty_cash_settlement_id?: string | null
+          place_of_supply?: string | null
+          project_id?: string | null
+          purchase_order_id?: string | null
+          reason?: string
+          related_advance_id?: string | null
+          related_employee_id?: string | null
+          sgst_amount?: number
+          supplier_id?: string | null
+          taxable_value?: number | null
+          transaction_date?: string
+          transaction_type?: Database["public"]["Enums"]["transaction_type"]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_petty_cash_expense_id_fkey"
+            columns: ["petty_cash_expense_id"]
+            isOneToOne: true
+            referencedRelation: "petty_cash_expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_petty_cash_settlement_id_fkey"
+            columns: ["petty_cash_settlement_id"]
+            isOneToOne: false
+            referencedRelation: "petty_cash_settlements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "payment_milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "transactions_related_advance_id_fkey"
             columns: ["related_advance_id"]
@@ -313,19 +1307,214 @@ export type Database = {
             referencedRelation: "employees"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
     Views: {
-      [_ in never]: never
+      gst_monthly_summary: {
+        Row: {
+          cgst_amount: number | null
+          gst_rate: number | null
+          igst_amount: number | null
+          month: string | null
+          registered_customer: boolean | null
+          sgst_amount: number | null
+          taxable_value: number | null
+          total_amount: number | null
+          transaction_count: number | null
+          transaction_type:
+            | Database["public"]["Enums"]["transaction_type"]
+            | null
+        }
+        Relationships: []
+      }
+      project_category_costs: {
+        Row: {
+          actual: number | null
+          budget: number | null
+          category: Database["public"]["Enums"]["cost_category"] | null
+          project_id: string | null
+        }
+        Relationships: []
+      }
+      project_financials: {
+        Row: {
+          cash_received: number | null
+          contract_value: number | null
+          direct_costs: number | null
+          gross_margin: number | null
+          petty_cash_costs: number | null
+          project_id: string | null
+          receivable: number | null
+          revenue_billed: number | null
+          transaction_costs: number | null
+        }
+        Relationships: []
+      }
+      supplier_balances: {
+        Row: {
+          outstanding: number | null
+          supplier_id: string | null
+          total_payments: number | null
+          total_purchases: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      accept_quotation: {
+        Args: {
+          _version_id: string
+        }
+        Returns: string
+      }
+      activity_log_actors: {
+        Args: never
+        Returns: {
+          id: string
+          name: string
+        }[]
+      }
+      calculate_gst: {
+        Args: {
+          _gst_rate: number
+          _place_of_supply: string
+          _taxable_value: number
+        }
+        Returns: {
+          amount: number
+          cgst_amount: number
+          igst_amount: number
+          sgst_amount: number
+          taxable_value: number
+        }[]
+      }
+      current_user_role: {
+        Args: never
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
+      financial_year_label: {
+        Args: {
+          _date: string
+        }
+        Returns: string
+      }
+      gst_home_state: {
+        Args: never
+        Returns: string
+      }
+      has_any_role: {
+        Args: {
+          _roles: Database["public"]["Enums"]["app_role"][]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      next_document_number: {
+        Args: {
+          _date: string
+          _prefix: string
+        }
+        Returns: string
+      }
+      petty_cash_headroom: {
+        Args: {
+          _employee_id: string
+          _exclude_advance_id?: string
+        }
+        Returns: {
+          approval_threshold: number
+          max_outstanding: number
+          outstanding: number
+          overdue_count: number
+        }[]
+      }
+      record_petty_cash_settlement: {
+        Args: {
+          _advance_id: string
+          _notes: string
+          _reimbursed_amount: number
+          _returned_amount: number
+          _settled_on: string
+        }
+        Returns: string
+      }
+      refresh_invoice: {
+        Args: {
+          _invoice_id: string
+        }
+        Returns: undefined
+      }
+      refresh_petty_cash_advance: {
+        Args: {
+          _advance_id: string
+        }
+        Returns: undefined
+      }
+      refresh_purchase_order: {
+        Args: {
+          _purchase_order_id: string
+        }
+        Returns: undefined
+      }
+      refresh_quotation_version: {
+        Args: {
+          _version_id: string
+        }
+        Returns: undefined
+      }
+      save_invoice: {
+        Args: {
+          _invoice: Json
+          _invoice_id?: string
+          _items: Json
+        }
+        Returns: string
+      }
+      save_payment_milestones: {
+        Args: {
+          _milestones: Json
+          _project_id: string
+        }
+        Returns: undefined
+      }
+      save_purchase_order: {
+        Args: {
+          _items: Json
+          _purchase_order: Json
+          _purchase_order_id?: string
+        }
+        Returns: string
+      }
+      save_quotation_version: {
+        Args: {
+          _items: Json
+          _quotation: Json
+          _quotation_id?: string
+          _version: Json
+        }
+        Returns: string
+      }
     }
     Enums: {
+      advance_approval_status: "requested" | "approved" | "rejected" | "disbursed"
       advance_status: "open" | "partially_returned" | "closed"
-      fund_source: "cash" | "bank"
+      advance_type: "personal" | "office"
+      app_role: "admin" | "accountant" | "site_supervisor" | "viewer"
+      cost_category: "materials" | "labour" | "transport" | "installation" | "other"
+      customer_interaction: "note" | "call" | "meeting" | "site_visit" | "email"
+      fund_source: "cash" | "bank" | "petty_cash"
+      invoice_status: "draft" | "sent" | "partially_paid" | "paid"
       project_status: "prospect" | "active" | "completed" | "cancelled"
+      purchase_order_status: "raised" | "partially_received" | "received" | "closed"
+      quotation_status: "draft" | "sent" | "accepted" | "rejected"
       transaction_type: "credit" | "debit"
     }
     CompositeTypes: {
@@ -454,9 +1643,17 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      advance_approval_status: ["requested", "approved", "rejected", "disbursed"],
       advance_status: ["open", "partially_returned", "closed"],
-      fund_source: ["cash", "bank"],
+      advance_type: ["personal", "office"],
+      app_role: ["admin", "accountant", "site_supervisor", "viewer"],
+      cost_category: ["materials", "labour", "transport", "installation", "other"],
+      customer_interaction: ["note", "call", "meeting", "site_visit", "email"],
+      fund_source: ["cash", "bank", "petty_cash"],
+      invoice_status: ["draft", "sent", "partially_paid", "paid"],
       project_status: ["prospect", "active", "completed", "cancelled"],
+      purchase_order_status: ["raised", "partially_received", "received", "closed"],
+      quotation_status: ["draft", "sent", "accepted", "rejected"],
       transaction_type: ["credit", "debit"],
     },
   },
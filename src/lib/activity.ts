@@ -0,0 +1,156 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export const ACTIVITY_ACTIONS: Record<string, string> = {
+  project_balance_updated: 'Project balance updated',
+  customer_created: 'Customer created',
+  customer_updated: 'Customer updated',
+  customer_deleted: 'Customer deleted',
+  customer_note_created: 'Customer note added',
+  customer_note_updated: 'Customer note updated',
+  customer_note_deleted: 'Customer note removed',
+  project_created: 'Project created',
+  project_updated: 'Project updated',
+  project_deleted: 'Project deleted',
+  transaction_created: 'Transaction created',
+  transaction_updated: 'Transaction updated',
+  transaction_deleted: 'Transaction deleted',
+  employee_created: 'Employee created',
+  employee_updated: 'Employee updated',
+  employee_deleted: 'Employee deleted',
+  advance_created: 'Advance created',
+  advance_updated: 'Advance updated',
+  advance_deleted: 'Advance deleted',
+  petty_cash_expense_created: 'Expense added',
+  petty_cash_expense_updated: 'Expense updated',
+  petty_cash_expense_deleted: 'Expense removed',
+  petty_cash_settlement_created: 'Settlement recorded',
+  petty_cash_settlement_updated: 'Settlement updated',
+  petty_cash_settlement_deleted: 'Settlement removed',
+  petty_cash_limit_created: 'Advance limit set',
+  petty_cash_limit_updated: 'Advance limit updated',
+  petty_cash_limit_deleted: 'Advance limit removed',
+  invoice_created: 'Invoice created',
+  invoice_updated: 'Invoice updated',
+  invoice_deleted: 'Invoice deleted',
+  quotation_created: 'Quotation created',
+  quotation_updated: 'Quotation updated',
+  quotation_deleted: 'Quotation deleted',
+  supplier_created: 'Supplier created',
+  supplier_updated: 'Supplier updated',
+  supplier_deleted: 'Supplier deleted',
+  supplier_bill_created: 'Supplier bill created',
+  supplier_bill_updated: 'Supplier bill updated',
+  supplier_bill_deleted: 'Supplier bill deleted',
+  purchase_order_created: 'Purchase order created',
+  purchase_order_updated: 'Purchase order updated',
+  purchase_order_deleted: 'Purchase order deleted',
+  project_budget_created: 'Budget set',
+  project_budget_updated: 'Budget updated',
+  project_budget_deleted: 'Budget removed',
+  payment_milestone_created: 'Payment milestone added',
+  payment_milestone_updated: 'Payment milestone updated',
+  payment_milestone_deleted: 'Payment milestone removed',
+};
+
+// Values of activity_log.entity_type, for filtering by the kind of record changed
+export const ACTIVITY_ENTITIES: Record<string, string> = {
+  project: 'Project',
+  transaction: 'Transaction',
+  customer: 'Customer',
+  customer_note: 'Customer note',
+  employee: 'Employee',
+  advance: 'Advance',
+  petty_cash_expense: 'Petty cash expense',
+  petty_cash_settlement: 'Petty cash settlement',
+  petty_cash_limit: 'Advance limit',
+  invoice: 'Invoice',
+  quotation: 'Quotation',
+  supplier: 'Supplier',
+  supplier_bill: 'Supplier bill',
+  purchase_order: 'Purchase order',
+  project_budget: 'Budget',
+  payment_milestone: 'Payment milestone',
+};
+
+export const actionLabel = (action: string): string => {
+  return ACTIVITY_ACTIONS[action] ?? action.replace(/_/g, ' ');
+};
+
+export type ActivityData = Record<string, Json | undefined>;
+
+export const activityData = (data: Json | null): ActivityData => {
+  return data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+};
+
+export const asString = (value: Json | undefined): string | null => {
+  return typeof value === 'string' ? value : null;
+};
+
+export const asNumber = (value: Json | undefined): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return null;
+};
+
+// Keys rendered as money rather than raw numbers
+export const AMOUNT_KEYS = [
+  'amount',
+  'old_amount',
+  'new_amount',
+  'amount_change',
+  'estimated_total',
+  'remaining_amount',
+  'advance_amount',
+  'expense_total',
+  'returned_amount',
+  'reimbursed_amount',
+  'max_outstanding',
+  'approval_threshold',
+];
+
+// Keys that only carry IDs we render as links instead
+export const REFERENCE_KEYS = ['project_id', 'transaction_id', 'customer_id', 'employee_id', 'advance_id', 'petty_cash_expense_id', 'petty_cash_settlement_id', 'petty_cash_limit_id', 'invoice_id', 'quotation_id', 'supplier_id', 'supplier_bill_id', 'purchase_order_id', 'payment_milestone_id', 'customer_note_id'];
+
+export interface FieldChange {
+  field: string;
+  old: Json | null;
+  new: Json | null;
+}
+
+// Field-level diff written by the log_entity_change trigger
+export const activityChanges = (data: ActivityData): FieldChange[] => {
+  const changes = data.changes;
+  if (!changes || typeof changes !== 'object' || Array.isArray(changes)) return [];
+
+  return Object.entries(changes)
+    .map(([field, change]) => {
+      const diff = activityData(change ?? null);
+      return { field, old: diff.old ?? null, new: diff.new ?? null };
+    })
+    .sort((a, b) => a.field.localeCompare(b.field));
+};
+
+export const isDeletion = (action: string, data: ActivityData): boolean => {
+  return action.endsWith('_deleted') || data.operation === 'delete';
+};
+
+// profiles is private to admins, so names come from a lookup limited to users who appear in the log
+export const fetchActorNames = async (): Promise<Record<string, string>> => {
+  const { data } = await supabase.rpc('activity_log_actors');
+
+  return Object.fromEntries((data || []).map((a) => [a.id, a.name]));
+};
+
+export const actorLabel = (
+  entry: { actor_type: string | null; actor_id: string | null },
+  names: Record<string, string>
+): string => {
+  if (!entry.actor_id) return entry.actor_type === 'system' ? 'System' : entry.actor_type || '-';
+  return names[entry.actor_id] ?? `User ${entry.actor_id.slice(0, 8)}`;
+};
+
+export const humanizeKey = (key: string): string => {
+  const text = key.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
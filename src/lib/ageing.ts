@@ -0,0 +1,169 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import { roundPaise } from '@/lib/gst';
+import { invoiceBalance, invoiceLabel } from '@/lib/invoices';
+import { milestoneBalance } from '@/lib/milestones';
+
+export const AGEING_BUCKETS = [
+  { key: 'not_due', label: 'Not yet due' },
+  { key: 'days_0_30', label: '0–30 days' },
+  { key: 'days_31_60', label: '31–60 days' },
+  { key: 'days_61_90', label: '61–90 days' },
+  { key: 'days_over_90', label: '90+ days' },
+] as const;
+
+export type AgeingBucket = (typeof AGEING_BUCKETS)[number]['key'];
+
+export const ageingBucket = (daysOverdue: number): AgeingBucket => {
+  if (daysOverdue < 0) return 'not_due';
+  if (daysOverdue <= 30) return 'days_0_30';
+  if (daysOverdue <= 60) return 'days_31_60';
+  if (daysOverdue <= 90) return 'days_61_90';
+  return 'days_over_90';
+};
+
+type Party = {
+  project_id: string;
+  projects?: { name: string; customer_id: string; customers?: { name: string } | null } | null;
+};
+
+export type AgeingInvoice = Pick<
+  Tables<'invoices'>,
+  'id' | 'invoice_number' | 'invoice_date' | 'due_date' | 'total_amount' | 'amount_paid'
+> & Party;
+
+export type AgeingMilestone = Pick<
+  Tables<'payment_milestones'>,
+  'id' | 'name' | 'due_date' | 'position' | 'amount' | 'amount_received'
+> & Party;
+
+export interface ReceivableItem {
+  key: string;
+  kind: 'invoice' | 'milestone';
+  documentId: string;
+  label: string;
+  customerId: string;
+  customerName: string;
+  projectId: string;
+  projectName: string;
+  dueDate: string;
+  balance: number;
+  daysOverdue: number;
+  bucket: AgeingBucket;
+}
+
+// Invoices bill a project's stages in schedule order, so each milestone is covered by
+// whatever its project has invoiced beyond the milestones due before it
+const uninvoicedMilestoneAmounts = (
+  invoices: AgeingInvoice[],
+  milestones: AgeingMilestone[]
+): Map<string, number> => {
+  const invoiced = new Map<string, number>();
+  invoices.forEach((invoice) => {
+    invoiced.set(invoice.project_id, roundPaise((invoiced.get(invoice.project_id) ?? 0) + Number(invoice.total_amount)));
+  });
+
+  const uninvoiced = new Map<string, number>();
+  [...milestones]
+    .sort((a, b) => a.due_date.localeCompare(b.due_date) || a.position - b.position)
+    .forEach((milestone) => {
+      const available = invoiced.get(milestone.project_id) ?? 0;
+      const covered = Math.min(available, Number(milestone.amount));
+      invoiced.set(milestone.project_id, roundPaise(available - covered));
+      uninvoiced.set(milestone.id, roundPaise(Number(milestone.amount) - covered));
+    });
+  return uninvoiced;
+};
+
+/**
+ * Everything still owed, aged from its due date. Issued invoices are aged on
+ * their own balance; a milestone is only aged for the part of it that has not
+ * been invoiced yet (and not already received), so a stage is never counted twice.
+ * An invoice without a due date is due on its invoice date.
+ */
+export const openReceivables = (
+  invoices: AgeingInvoice[],
+  milestones: AgeingMilestone[],
+  asOf: string
+): ReceivableItem[] => {
+  const uninvoiced = uninvoicedMilestoneAmounts(invoices, milestones);
+
+  const item = (
+    source: Party,
+    fields: Pick<ReceivableItem, 'kind' | 'documentId' | 'label' | 'dueDate' | 'balance'>
+  ): ReceivableItem => {
+    const daysOverdue = differenceInCalendarDays(parseISO(asOf), parseISO(fields.dueDate));
+    return {
+      ...fields,
+      key: `${fields.kind}-${fields.documentId}`,
+      customerId: source.projects?.customer_id ?? '',
+      customerName: source.projects?.customers?.name ?? 'Unknown customer',
+      projectId: source.project_id,
+      projectName: source.projects?.name ?? 'Unknown project',
+      daysOverdue,
+      bucket: ageingBucket(daysOverdue),
+    };
+  };
+
+  return [
+    ...invoices.map((invoice) =>
+      item(invoice, {
+        kind: 'invoice',
+        documentId: invoice.id,
+        label: `Invoice ${invoiceLabel(invoice)}`,
+        dueDate: invoice.due_date ?? invoice.invoice_date,
+        balance: roundPaise(invoiceBalance(invoice)),
+      })
+    ),
+    ...milestones.map((milestone) =>
+      item(milestone, {
+        kind: 'milestone',
+        documentId: milestone.id,
+        label: milestone.name,
+        dueDate: milestone.due_date,
+        balance: Math.min(milestoneBalance(milestone), uninvoiced.get(milestone.id) ?? 0),
+      })
+    ),
+  ].filter((receivable) => receivable.balance > 0);
+};
+
+export type BucketTotals = Record<AgeingBucket, number> & { total: number };
+
+export const bucketTotals = (items: ReceivableItem[]): BucketTotals => {
+  const totals = Object.fromEntries(
+    [...AGEING_BUCKETS.map((b) => b.key), 'total'].map((key) => [key, 0])
+  ) as BucketTotals;
+  items.forEach((receivable) => {
+    totals[receivable.bucket] = roundPaise(totals[receivable.bucket] + receivable.balance);
+    totals.total = roundPaise(totals.total + receivable.balance);
+  });
+  return totals;
+};
+
+export interface AgeingGroup {
+  id: string;
+  name: string;
+  items: ReceivableItem[];
+  totals: BucketTotals;
+}
+
+// Groups keep the order of their first item; callers sort the items beforehand
+export const groupReceivables = (
+  items: ReceivableItem[],
+  by: 'customer' | 'project'
+): AgeingGroup[] => {
+  const groups = new Map<string, { name: string; items: ReceivableItem[] }>();
+  items.forEach((receivable) => {
+    const id = by === 'customer' ? receivable.customerId : receivable.projectId;
+    const name = by === 'customer' ? receivable.customerName : receivable.projectName;
+    const group = groups.get(id) ?? { name, items: [] };
+    group.items.push(receivable);
+    groups.set(id, group);
+  });
+  return [...groups.entries()].map(([id, group]) => ({
+    id,
+    name: group.name,
+    items: group.items,
+    totals: bucketTotals(group.items),
+  }));
+};
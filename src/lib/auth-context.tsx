@@ -1,17 +1,22 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { Permission, Role, hasPermission } from '@/lib/permissions';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  role: Role | null;
   loading: boolean;
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
   session: null,
+  role: null,
   loading: true,
+  can: () => false,
 });
 
 export const useAuth = () => useContext(AuthContext);
@@ -19,28 +24,49 @@ export const useAuth = () => useContext(AuthContext);
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [profileRole, setProfileRole] = useState<{ userId: string; role: Role } | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
 
   useEffect(() => {
     // Set up auth state listener FIRST
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
       setSession(session);
       setUser(session?.user ?? null);
-      setLoading(false);
+      setSessionLoading(false);
     });
 
     // THEN check for existing session
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
-      setLoading(false);
+      setSessionLoading(false);
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
+  // Fetched outside onAuthStateChange, which must not await other Supabase calls
+  useEffect(() => {
+    if (!user) return;
+
+    const userId = user.id;
+    supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle()
+      .then(({ data }) => {
+        setProfileRole({ userId, role: data?.role ?? 'viewer' });
+      });
+  }, [user]);
+
+  // Ignore a role that belongs to a previous session
+  const role = user && profileRole?.userId === user.id ? profileRole.role : null;
+  const loading = sessionLoading || (!!user && !role);
+  const can = (permission: Permission) => hasPermission(role, permission);
+
   return (
-    <AuthContext.Provider value={{ user, session, loading }}>
+    <AuthContext.Provider value={{ user, session, role, loading, can }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,60 @@
+import type { Database } from '@/integrations/supabase/types';
+import { roundPaise } from '@/lib/gst';
+
+export type CostCategory = Database['public']['Enums']['cost_category'];
+
+export const COST_CATEGORY_LABELS: Record<CostCategory, string> = {
+  materials: 'Materials',
+  labour: 'Labour',
+  transport: 'Transport',
+  installation: 'Installation',
+  other: 'Other',
+};
+
+export const COST_CATEGORIES = Object.keys(COST_CATEGORY_LABELS) as CostCategory[];
+
+export interface CategoryCost {
+  category: CostCategory | null;
+  budget: number;
+  actual: number;
+}
+
+export interface BudgetRow extends CategoryCost {
+  variance: number;
+  // Null when there is no budget to measure against
+  percentUsed: number | null;
+  overBudget: boolean;
+}
+
+export const budgetRow = ({ category, budget, actual }: CategoryCost): BudgetRow => {
+  const budgetAmount = Number(budget);
+  const actualAmount = Number(actual);
+  return {
+    category,
+    budget: budgetAmount,
+    actual: actualAmount,
+    variance: roundPaise(budgetAmount - actualAmount),
+    percentUsed: budgetAmount > 0 ? (actualAmount / budgetAmount) * 100 : null,
+    overBudget: budgetAmount > 0 && actualAmount > budgetAmount,
+  };
+};
+
+// One row per category in the fixed order, then untagged debits if there are any
+export const budgetRows = (costs: CategoryCost[]): BudgetRow[] => {
+  const rows = COST_CATEGORIES.map((category) => {
+    const cost = costs.find((c) => c.category === category);
+    return budgetRow({ category, budget: cost?.budget ?? 0, actual: cost?.actual ?? 0 });
+  }).filter((row) => row.budget > 0 || row.actual > 0);
+
+  const untagged = costs.find((c) => c.category === null);
+  if (untagged && Number(untagged.actual) > 0) {
+    rows.push(budgetRow({ category: null, budget: 0, actual: untagged.actual }));
+  }
+  return rows;
+};
+
+// How far a new debit would take a category past its budget; 0 when it stays within
+export const budgetOverrun = (cost: CategoryCost | undefined, amount: number): number => {
+  if (!cost || Number(cost.budget) <= 0) return 0;
+  return Math.max(roundPaise(Number(cost.actual) + amount - Number(cost.budget)), 0);
+};
@@ -0,0 +1,11 @@
+import { HOME_STATE_CODE, stateLabel } from '@/lib/gst';
+
+// Seller details printed on customer documents, configured per deployment in .env
+export const COMPANY = {
+  name: import.meta.env.VITE_COMPANY_NAME || 'Furnishing Tracker',
+  address: import.meta.env.VITE_COMPANY_ADDRESS || '',
+  gstin: import.meta.env.VITE_COMPANY_GSTIN || '',
+  phone: import.meta.env.VITE_COMPANY_PHONE || '',
+  email: import.meta.env.VITE_COMPANY_EMAIL || '',
+  state: stateLabel(HOME_STATE_CODE),
+};
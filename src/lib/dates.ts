@@ -0,0 +1,88 @@
+import {
+  format,
+  parseISO,
+  startOfMonth,
+  endOfMonth,
+  subMonths,
+  startOfQuarter,
+  endOfQuarter,
+  subQuarters,
+} from 'date-fns';
+
+// Value for <input type="date"> / DATE columns, in local time (not UTC)
+export const toDateValue = (date: Date = new Date()): string => {
+  return format(date, 'yyyy-MM-dd');
+};
+
+// Display a DATE or TIMESTAMPTZ string the way the rest of the app does
+export const formatDate = (value: string | null | undefined): string => {
+  if (!value) return '-';
+  return parseISO(value).toLocaleDateString('en-IN');
+};
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+// Indian financial year runs 1 April to 31 March
+export const financialYearStart = (date: Date = new Date()): Date => {
+  const year = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return new Date(year, 3, 1);
+};
+
+// e.g. "2026-27" for any date between 1 Apr 2026 and 31 Mar 2027
+export const financialYearLabel = (date: Date = new Date()): string => {
+  const start = financialYearStart(date).getFullYear();
+  return `${start}-${String(start + 1).slice(-2)}`;
+};
+
+const range = (from: Date, to: Date): DateRange => ({
+  from: toDateValue(from),
+  to: toDateValue(to),
+});
+
+export const DATE_RANGE_PRESETS = {
+  this_month: {
+    label: 'This month',
+    range: (today: Date) => range(startOfMonth(today), endOfMonth(today)),
+  },
+  last_month: {
+    label: 'Last month',
+    range: (today: Date) => {
+      const lastMonth = subMonths(today, 1);
+      return range(startOfMonth(lastMonth), endOfMonth(lastMonth));
+    },
+  },
+  this_quarter: {
+    label: 'This quarter',
+    range: (today: Date) => range(startOfQuarter(today), endOfQuarter(today)),
+  },
+  last_quarter: {
+    label: 'Last quarter',
+    range: (today: Date) => {
+      const lastQuarter = subQuarters(today, 1);
+      return range(startOfQuarter(lastQuarter), endOfQuarter(lastQuarter));
+    },
+  },
+  this_financial_year: {
+    label: 'This financial year (Apr–Mar)',
+    range: (today: Date) => {
+      const start = financialYearStart(today);
+      return range(start, new Date(start.getFullYear() + 1, 2, 31));
+    },
+  },
+  last_financial_year: {
+    label: 'Last financial year',
+    range: (today: Date) => {
+      const start = financialYearStart(today);
+      return range(new Date(start.getFullYear() - 1, 3, 1), new Date(start.getFullYear(), 2, 31));
+    },
+  },
+} satisfies Record<string, { label: string; range: (today: Date) => DateRange }>;
+
+export type DateRangePreset = keyof typeof DATE_RANGE_PRESETS;
+
+export const getPresetRange = (preset: DateRangePreset, today: Date = new Date()): DateRange => {
+  return DATE_RANGE_PRESETS[preset].range(today);
+};
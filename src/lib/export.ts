@@ -0,0 +1,49 @@
+import writeXlsxFile from 'write-excel-file/browser';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportRow = Record<string, string | number | null>;
+
+const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Quoted only when needed, with embedded quotes doubled. Text that a spreadsheet would run
+// as a formula is prefixed with an apostrophe; numbers are left alone so negatives stay numeric.
+const csvCell = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Downloads rows as a spreadsheet. Column order follows `columns`, so every
+ * row gets the same headers even when some values are missing.
+ */
+export const exportRows = async (
+  rows: ExportRow[],
+  columns: string[],
+  filename: string,
+  format: ExportFormat,
+  sheetName = 'Sheet1'
+): Promise<void> => {
+  if (format === 'csv') {
+    const csv = [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+      .map((cells) => cells.map(csvCell).join(','))
+      .join('\r\n');
+    // BOM so Excel reads the ₹ sign and Indic names as UTF-8
+    download(new Blob(['\ufeff', csv], { type: 'text/csv;charset=utf-8' }), `${filename}.csv`);
+    return;
+  }
+
+  await writeXlsxFile([columns, ...rows.map((row) => columns.map((column) => row[column] ?? null))], {
+    sheet: sheetName,
+  }).toFile(`${filename}.xlsx`);
+};
@@ -0,0 +1,97 @@
+// GST state codes as used in the first two digits of a GSTIN and for place of supply
+export const GST_STATES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory',
+};
+
+// The state we are registered in; supplies within it are intra-state (CGST + SGST)
+export const HOME_STATE_CODE = import.meta.env.VITE_GST_STATE_CODE || '33';
+
+// 12% and 28% were folded into 5%/18%/40% in September 2025 but still apply to older entries
+export const GST_RATES = [0, 5, 12, 18, 28, 40];
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const isValidGstin = (gstin: string): boolean => GSTIN_PATTERN.test(gstin);
+
+export const gstinStateCode = (gstin: string): string | null => {
+  const code = gstin.slice(0, 2);
+  return isValidGstin(gstin) && GST_STATES[code] ? code : null;
+};
+
+export const stateLabel = (code: string | null | undefined): string => {
+  if (!code) return '-';
+  return GST_STATES[code] ? `${code} - ${GST_STATES[code]}` : code;
+};
+
+export interface GstBreakdown {
+  taxable_value: number;
+  gst_rate: number;
+  place_of_supply: string;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  amount: number;
+}
+
+export const roundPaise = (value: number): number => Math.round(value * 100) / 100;
+
+export const isInterState = (placeOfSupply: string): boolean => placeOfSupply !== HOME_STATE_CODE;
+
+// Splits the tax on a taxable value. CGST takes the rounded half and SGST the rest,
+// so the parts always add back up to the total tax.
+export const calculateGst = (taxableValue: number, rate: number, placeOfSupply: string): GstBreakdown => {
+  const taxable = roundPaise(taxableValue);
+  const tax = roundPaise((taxable * rate) / 100);
+  const interState = isInterState(placeOfSupply);
+  const cgst = interState ? 0 : roundPaise(tax / 2);
+
+  return {
+    taxable_value: taxable,
+    gst_rate: rate,
+    place_of_supply: placeOfSupply,
+    cgst_amount: cgst,
+    sgst_amount: interState ? 0 : roundPaise(tax - cgst),
+    igst_amount: interState ? tax : 0,
+    amount: roundPaise(taxable + tax),
+  };
+};
+
+export const totalTax = (tx: { cgst_amount: number; sgst_amount: number; igst_amount: number }): number => {
+  return Number(tx.cgst_amount) + Number(tx.sgst_amount) + Number(tx.igst_amount);
+};
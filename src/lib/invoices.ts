@@ -0,0 +1,44 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, TablesInsert } from '@/integrations/supabase/types';
+import type { CalculatedLineItem } from '@/lib/line-items';
+
+export type InvoiceStatus = Database['public']['Enums']['invoice_status'];
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+};
+
+export const INVOICE_STATUS_VARIANTS: Record<InvoiceStatus, 'default' | 'secondary' | 'outline'> = {
+  draft: 'outline',
+  sent: 'secondary',
+  partially_paid: 'secondary',
+  paid: 'default',
+};
+
+// Drafts have no number until they are sent
+export const invoiceLabel = (invoice: { invoice_number: string | null }): string => {
+  return invoice.invoice_number ?? 'Draft';
+};
+
+export const invoiceBalance = (invoice: { total_amount: number; amount_paid: number }): number => {
+  return Number(invoice.total_amount) - Number(invoice.amount_paid);
+};
+
+// Items are replaced wholesale in one transaction; the database works out each line's tax and the invoice totals
+export const saveInvoice = async (
+  invoice: TablesInsert<'invoices'>,
+  items: CalculatedLineItem[],
+  invoiceId?: string
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('save_invoice', {
+    _invoice_id: invoiceId,
+    _invoice: invoice,
+    _items: items.map((item, position) => ({ ...item, position })),
+  });
+  if (error) throw error;
+
+  return data;
+};
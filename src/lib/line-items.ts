@@ -0,0 +1,99 @@
+import { calculateGst, roundPaise } from '@/lib/gst';
+
+// A line as edited in a form; numbers stay strings until the document is saved.
+// id is set for lines loaded from a saved document.
+export interface LineItemInput {
+  id?: string;
+  description: string;
+  hsn_sac: string;
+  quantity: string;
+  unit: string;
+  rate: string;
+  discount_percent: string;
+  gst_rate: string;
+}
+
+export const emptyLineItem = (): LineItemInput => ({
+  description: '',
+  hsn_sac: '',
+  quantity: '1',
+  unit: 'nos',
+  rate: '',
+  discount_percent: '0',
+  gst_rate: '18',
+});
+
+export const calculateLineItem = (line: LineItemInput, placeOfSupply: string) => {
+  const quantity = parseFloat(line.quantity) || 0;
+  const rate = parseFloat(line.rate) || 0;
+  const discountPercent = parseFloat(line.discount_percent) || 0;
+  // Discounts come off before tax, matching the discount_amount the database derives
+  const gross = roundPaise(quantity * rate);
+  const gst = calculateGst(gross - roundPaise((gross * discountPercent) / 100), Number(line.gst_rate) || 0, placeOfSupply);
+
+  return {
+    description: line.description.trim(),
+    hsn_sac: line.hsn_sac.trim() || null,
+    quantity,
+    unit: line.unit.trim() || null,
+    rate,
+    discount_percent: discountPercent,
+    gst_rate: gst.gst_rate,
+    taxable_value: gst.taxable_value,
+    cgst_amount: gst.cgst_amount,
+    sgst_amount: gst.sgst_amount,
+    igst_amount: gst.igst_amount,
+    amount: gst.amount,
+  };
+};
+
+export type CalculatedLineItem = ReturnType<typeof calculateLineItem>;
+
+// Saved rows keep only the net taxable value; the discount is what it falls short of quantity x rate
+export const lineDiscount = (line: { quantity: number; rate: number; taxable_value: number }): number => {
+  return roundPaise(roundPaise(Number(line.quantity) * Number(line.rate)) - Number(line.taxable_value));
+};
+
+export interface LineItemTotals {
+  discount_amount: number;
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total_amount: number;
+}
+
+// Same sums the database keeps on the document row; used for the live preview
+export const sumLineItems = (lines: CalculatedLineItem[]): LineItemTotals => {
+  return lines.reduce(
+    (totals, line) => ({
+      discount_amount: roundPaise(totals.discount_amount + lineDiscount(line)),
+      taxable_value: roundPaise(totals.taxable_value + line.taxable_value),
+      cgst_amount: roundPaise(totals.cgst_amount + line.cgst_amount),
+      sgst_amount: roundPaise(totals.sgst_amount + line.sgst_amount),
+      igst_amount: roundPaise(totals.igst_amount + line.igst_amount),
+      total_amount: roundPaise(totals.total_amount + line.amount),
+    }),
+    { discount_amount: 0, taxable_value: 0, cgst_amount: 0, sgst_amount: 0, igst_amount: 0, total_amount: 0 }
+  );
+};
+
+export const toLineItemInput = (line: {
+  id?: string;
+  description: string;
+  hsn_sac: string | null;
+  quantity: number;
+  unit: string | null;
+  rate: number;
+  discount_percent: number;
+  gst_rate: number;
+}): LineItemInput => ({
+  id: line.id,
+  description: line.description,
+  hsn_sac: line.hsn_sac || '',
+  quantity: String(Number(line.quantity)),
+  unit: line.unit || '',
+  rate: String(Number(line.rate)),
+  discount_percent: String(Number(line.discount_percent)),
+  gst_rate: String(Number(line.gst_rate)),
+});
@@ -0,0 +1,71 @@
+import { addDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { roundPaise } from '@/lib/gst';
+import { toDateValue } from '@/lib/dates';
+
+export type PaymentMilestone = Tables<'payment_milestones'>;
+
+export type MilestoneStatus = 'pending' | 'overdue' | 'partially_paid' | 'paid';
+
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  pending: 'Pending',
+  overdue: 'Overdue',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+};
+
+export const MILESTONE_STATUS_VARIANTS: Record<MilestoneStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  pending: 'outline',
+  overdue: 'destructive',
+  partially_paid: 'secondary',
+  paid: 'default',
+};
+
+type MilestoneAmounts = Pick<PaymentMilestone, 'amount' | 'amount_received'>;
+
+export const milestoneBalance = (milestone: MilestoneAmounts): number => {
+  return roundPaise(Number(milestone.amount) - Number(milestone.amount_received));
+};
+
+// Anything still owed past its due date is overdue, even if part of it has come in
+export const milestoneStatus = (
+  milestone: MilestoneAmounts & Pick<PaymentMilestone, 'due_date'>,
+  today: string = toDateValue()
+): MilestoneStatus => {
+  if (milestoneBalance(milestone) <= 0) return 'paid';
+  if (milestone.due_date < today) return 'overdue';
+  return Number(milestone.amount_received) > 0 ? 'partially_paid' : 'pending';
+};
+
+// Today and the six days after it
+export const dueThisWeekRange = (today: Date = new Date()) => ({
+  from: toDateValue(today),
+  to: toDateValue(addDays(today, 6)),
+});
+
+// Receipts are matched to the earliest milestone that still has something owing
+export const nextOpenMilestone = <T extends MilestoneAmounts & Pick<PaymentMilestone, 'id' | 'due_date' | 'position'>>(
+  milestones: T[]
+): T | undefined => {
+  return [...milestones]
+    .filter((m) => milestoneBalance(m) > 0)
+    .sort((a, b) => a.due_date.localeCompare(b.due_date) || a.position - b.position)[0];
+};
+
+export interface MilestoneDraft {
+  id?: string;
+  name: string;
+  amount: number;
+  due_date: string;
+}
+
+// Saved in one transaction: existing rows are updated in place so receipts stay linked; rows
+// left out are removed, which the database refuses for any milestone that already has receipts
+export const saveMilestones = async (projectId: string, milestones: MilestoneDraft[]): Promise<void> => {
+  const { error } = await supabase.rpc('save_payment_milestones', {
+    _project_id: projectId,
+    _milestones: milestones.map((milestone, position) => ({ ...milestone, position })),
+  });
+  if (error) throw error;
+};
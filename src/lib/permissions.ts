@@ -0,0 +1,47 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type Role = Database['public']['Enums']['app_role'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  accountant: 'Accountant',
+  site_supervisor: 'Site Supervisor',
+  viewer: 'Viewer',
+};
+
+// Mirrors the RLS policies in supabase/migrations; the database is the real gate,
+// this only decides what the UI offers.
+const PERMISSIONS = {
+  'customers.edit': ['admin', 'accountant'],
+  'customers.delete': ['admin'],
+  'customer_notes.create': ['admin', 'accountant', 'site_supervisor'],
+  'suppliers.edit': ['admin', 'accountant'],
+  'suppliers.delete': ['admin'],
+  'projects.edit': ['admin', 'accountant'],
+  'projects.delete': ['admin'],
+  'transactions.create': ['admin', 'accountant', 'site_supervisor'],
+  'transactions.import': ['admin', 'accountant'],
+  'transactions.edit': ['admin', 'accountant'],
+  'transactions.delete': ['admin', 'accountant'],
+  'invoices.edit': ['admin', 'accountant'],
+  'quotations.edit': ['admin', 'accountant'],
+  'purchase_orders.edit': ['admin', 'accountant'],
+  'employees.view': ['admin', 'accountant', 'site_supervisor'],
+  'employees.edit': ['admin', 'accountant'],
+  'employees.delete': ['admin'],
+  'petty_cash.view': ['admin', 'accountant', 'site_supervisor'],
+  'petty_cash.edit': ['admin', 'accountant', 'site_supervisor'],
+  'petty_cash.delete': ['admin', 'accountant'],
+  'petty_cash.approve': ['admin', 'accountant'],
+  'petty_cash_limits.edit': ['admin', 'accountant'],
+  'users.manage': ['admin'],
+  'audit_log.view': ['admin', 'accountant'],
+  'reports.view': ['admin', 'accountant'],
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const hasPermission = (role: Role | null, permission: Permission): boolean => {
+  if (!role) return false;
+  return (PERMISSIONS[permission] as Role[]).includes(role);
+};
@@ -0,0 +1,221 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Tables } from '@/integrations/supabase/types';
+import { roundPaise } from '@/lib/gst';
+
+export type PettyCashExpense = Tables<'petty_cash_expenses'>;
+
+export const RECEIPTS_BUCKET = 'petty-cash-receipts';
+
+// Receipts are filed under their advance so a settlement's photos sit together
+export const uploadExpenseReceipt = async (advanceId: string, file: File): Promise<string> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+  const path = `${advanceId}/${crypto.randomUUID()}.${extension}`;
+  const { error } = await supabase.storage.from(RECEIPTS_BUCKET).upload(path, file, { contentType: file.type });
+  if (error) throw error;
+  return path;
+};
+
+export const removeExpenseReceipt = async (path: string): Promise<void> => {
+  const { error } = await supabase.storage.from(RECEIPTS_BUCKET).remove([path]);
+  if (error) throw error;
+};
+
+// The bucket is private, so receipts are opened through a link that expires after a few minutes
+export const expenseReceiptUrl = async (path: string): Promise<string> => {
+  const { data, error } = await supabase.storage.from(RECEIPTS_BUCKET).createSignedUrl(path, 300);
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+export type PettyCashSettlement = Tables<'petty_cash_settlements'>;
+
+// Issuing, returning and reimbursing an advance only moves cash between the till and an
+// employee; the spending itself is posted separately against the petty_cash fund
+export const isPettyCashTransfer = (
+  transaction: Pick<Tables<'transactions'>, 'related_advance_id' | 'fund_source'>
+): boolean => {
+  return !!transaction.related_advance_id && transaction.fund_source !== 'petty_cash';
+};
+
+// Advance entries typed into the ledger before petty cash was posted automatically keep
+// their old link here. The generated postings replace them, so totals filter them out with
+// .is(LEGACY_ADVANCE_KEY, null) while the ledger still lists them.
+export const LEGACY_ADVANCE_KEY = 'metadata->>legacy_advance_id';
+
+export type AdvanceStatus = Database['public']['Enums']['advance_status'];
+
+export const ADVANCE_STATUS_LABELS: Record<AdvanceStatus, string> = {
+  open: 'Open',
+  partially_returned: 'Partially Settled',
+  closed: 'Closed',
+};
+
+export const ADVANCE_STATUS_VARIANTS: Record<AdvanceStatus, 'default' | 'secondary' | 'outline'> = {
+  open: 'default',
+  partially_returned: 'outline',
+  closed: 'secondary',
+};
+
+export type ApprovalStatus = Database['public']['Enums']['advance_approval_status'];
+
+// Disbursed advances are described by their settlement status instead
+export const APPROVAL_STATUS_LABELS: Record<Exclude<ApprovalStatus, 'disbursed'>, string> = {
+  requested: 'Awaiting Approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export const APPROVAL_STATUS_VARIANTS: Record<Exclude<ApprovalStatus, 'disbursed'>, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  requested: 'outline',
+  approved: 'default',
+  rejected: 'destructive',
+};
+
+export type AdvanceStage = Exclude<ApprovalStatus, 'disbursed'> | AdvanceStatus;
+
+export const ADVANCE_STAGE_LABELS: Record<AdvanceStage, string> = {
+  ...APPROVAL_STATUS_LABELS,
+  ...ADVANCE_STATUS_LABELS,
+};
+
+// One status per advance for lists and filters: where it is in approval until the cash goes
+// out, then how far it has been settled
+export const advanceStage = (
+  advance: Pick<Tables<'petty_cash_advance'>, 'approval_status'> & { status: AdvanceStatus }
+): AdvanceStage => {
+  return advance.approval_status === 'disbursed' ? advance.status : advance.approval_status;
+};
+
+export const isAdvanceOverdue = (
+  advance: Pick<Tables<'petty_cash_advance'>, 'approval_status' | 'status' | 'due_date'>,
+  today: string
+): boolean => {
+  return advance.approval_status === 'disbursed' && advance.status !== 'closed' && advance.due_date < today;
+};
+
+export type AdvanceHeadroom = Database['public']['Functions']['petty_cash_headroom']['Returns'][number];
+
+export type PettyCashLimit = Tables<'petty_cash_limits'>;
+
+export type AdvanceType = Database['public']['Enums']['advance_type'];
+
+export const ADVANCE_TYPE_LABELS: Record<AdvanceType, string> = {
+  personal: 'Personal',
+  office: 'Office',
+};
+
+type AdvanceAmounts = Pick<
+  Tables<'petty_cash_advance'>,
+  'advance_amount' | 'expense_total' | 'returned_amount' | 'reimbursed_amount'
+>;
+
+// What the employee still holds; negative when they spent more and are owed the difference
+export const advanceBalance = (advance: AdvanceAmounts): number => {
+  return roundPaise(
+    Number(advance.advance_amount)
+    - Number(advance.expense_total)
+    - Number(advance.returned_amount)
+    + Number(advance.reimbursed_amount)
+  );
+};
+
+export interface AdvanceSettlement {
+  advanced: number;
+  spent: number;
+  // Spent but not yet covered by a settlement
+  pending: number;
+  returned: number;
+  reimbursed: number;
+  balance: number;
+}
+
+export const advanceSettlement = (
+  advance: Pick<Tables<'petty_cash_advance'>, 'advance_amount'>,
+  expenses: Pick<PettyCashExpense, 'amount' | 'settlement_id'>[],
+  settlements: Pick<PettyCashSettlement, 'returned_amount' | 'reimbursed_amount'>[]
+): AdvanceSettlement => {
+  const sum = (values: number[]) => roundPaise(values.reduce((total, value) => total + value, 0));
+  const totals = {
+    advanced: Number(advance.advance_amount),
+    spent: sum(expenses.map((e) => Number(e.amount))),
+    pending: sum(expenses.filter((e) => !e.settlement_id).map((e) => Number(e.amount))),
+    returned: sum(settlements.map((s) => Number(s.returned_amount))),
+    reimbursed: sum(settlements.map((s) => Number(s.reimbursed_amount))),
+  };
+  return {
+    ...totals,
+    balance: advanceBalance({
+      advance_amount: totals.advanced,
+      expense_total: totals.spent,
+      returned_amount: totals.returned,
+      reimbursed_amount: totals.reimbursed,
+    }),
+  };
+};
+
+export type ReportAdvance = Pick<
+  Tables<'petty_cash_advance'>,
+  | 'id'
+  | 'employee_id'
+  | 'project_id'
+  | 'advance_type'
+  | 'advance_amount'
+  | 'expense_total'
+  | 'returned_amount'
+  | 'reimbursed_amount'
+> & {
+  employees?: { name: string } | null;
+  projects?: { name: string } | null;
+};
+
+export interface AdvanceSummaryRow {
+  id: string;
+  name: string;
+  count: number;
+  advanced: number;
+  spent: number;
+  returned: number;
+  reimbursed: number;
+  // Still with the employee; for personal advances this is what they owe back
+  balance: number;
+}
+
+const NO_PROJECT = 'none';
+
+// Personal advances are owed by the employee, so they group by employee; office advances
+// are project costs and group by the project they were issued for
+export const summariseAdvances = (advances: ReportAdvance[], type: AdvanceType): AdvanceSummaryRow[] => {
+  const rows = new Map<string, AdvanceSummaryRow>();
+  advances
+    .filter((advance) => advance.advance_type === type)
+    .forEach((advance) => {
+      const id = type === 'personal' ? advance.employee_id : advance.project_id ?? NO_PROJECT;
+      const name = type === 'personal'
+        ? advance.employees?.name ?? 'Unknown employee'
+        : advance.projects?.name ?? 'No project';
+      const row = rows.get(id) ?? {
+        id, name, count: 0, advanced: 0, spent: 0, returned: 0, reimbursed: 0, balance: 0,
+      };
+      row.count += 1;
+      row.advanced = roundPaise(row.advanced + Number(advance.advance_amount));
+      row.spent = roundPaise(row.spent + Number(advance.expense_total));
+      row.returned = roundPaise(row.returned + Number(advance.returned_amount));
+      row.reimbursed = roundPaise(row.reimbursed + Number(advance.reimbursed_amount));
+      row.balance = roundPaise(row.balance + advanceBalance(advance));
+      rows.set(id, row);
+    });
+  return [...rows.values()].sort((a, b) => b.balance - a.balance || a.name.localeCompare(b.name));
+};
+
+export const advanceSummaryTotals = (rows: AdvanceSummaryRow[]): Omit<AdvanceSummaryRow, 'id' | 'name'> => {
+  const sum = (key: 'count' | 'advanced' | 'spent' | 'returned' | 'reimbursed' | 'balance') =>
+    roundPaise(rows.reduce((total, row) => total + row[key], 0));
+  return {
+    count: sum('count'),
+    advanced: sum('advanced'),
+    spent: sum('spent'),
+    returned: sum('returned'),
+    reimbursed: sum('reimbursed'),
+    balance: sum('balance'),
+  };
+};
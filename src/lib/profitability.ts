@@ -0,0 +1,57 @@
+import { roundPaise } from '@/lib/gst';
+
+// One row of the project_financials view
+export interface ProjectFinancials {
+  contract_value: number;
+  revenue_billed: number;
+  cash_received: number;
+  receivable: number;
+  transaction_costs: number;
+  petty_cash_costs: number;
+  direct_costs: number;
+  gross_margin: number;
+}
+
+export interface ProjectPnl {
+  contractValue: number;
+  revenueBilled: number;
+  cashReceived: number;
+  receivable: number;
+  transactionCosts: number;
+  pettyCashCosts: number;
+  directCosts: number;
+  grossMargin: number;
+  // Null until something has been billed
+  marginPercent: number | null;
+}
+
+const toPnl = (totals: Omit<ProjectPnl, 'grossMargin' | 'marginPercent'>): ProjectPnl => {
+  const grossMargin = roundPaise(totals.revenueBilled - totals.directCosts);
+  return {
+    ...totals,
+    grossMargin,
+    marginPercent: totals.revenueBilled > 0 ? (grossMargin / totals.revenueBilled) * 100 : null,
+  };
+};
+
+// Totals across any number of projects, with the margin worked out on the combined figures
+export const summariseProjectFinancials = (rows: Partial<ProjectFinancials>[]): ProjectPnl => {
+  const sum = (key: keyof ProjectFinancials) =>
+    roundPaise(rows.reduce((total, row) => total + Number(row[key] ?? 0), 0));
+
+  return toPnl({
+    contractValue: sum('contract_value'),
+    revenueBilled: sum('revenue_billed'),
+    cashReceived: sum('cash_received'),
+    receivable: sum('receivable'),
+    transactionCosts: sum('transaction_costs'),
+    pettyCashCosts: sum('petty_cash_costs'),
+    directCosts: sum('direct_costs'),
+  });
+};
+
+export const projectPnl = (row: Partial<ProjectFinancials> | null | undefined): ProjectPnl =>
+  summariseProjectFinancials(row ? [row] : []);
+
+export const formatMarginPercent = (percent: number | null): string =>
+  percent === null ? '-' : `${percent.toFixed(1)}%`;
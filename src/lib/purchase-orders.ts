@@ -0,0 +1,47 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, TablesInsert } from '@/integrations/supabase/types';
+import type { CalculatedLineItem } from '@/lib/line-items';
+
+export type PurchaseOrderStatus = Database['public']['Enums']['purchase_order_status'];
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  raised: 'Raised',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  closed: 'Closed',
+};
+
+export const PURCHASE_ORDER_STATUS_VARIANTS: Record<PurchaseOrderStatus, 'default' | 'secondary' | 'outline'> = {
+  raised: 'outline',
+  partially_received: 'secondary',
+  received: 'default',
+  closed: 'secondary',
+};
+
+export const purchaseOrderBalance = (po: { total_amount: number; amount_paid: number }): number => {
+  return Number(po.total_amount) - Number(po.amount_paid);
+};
+
+// Committed is the value of every PO on the project; paid is what has gone out against them
+export const commitmentSummary = (pos: { total_amount: number; amount_paid: number }[]) => {
+  const committed = pos.reduce((sum, po) => sum + Number(po.total_amount), 0);
+  const paid = pos.reduce((sum, po) => sum + Number(po.amount_paid), 0);
+  return { committed, paid, outstanding: committed - paid };
+};
+
+// Saved in one transaction: lines with an id are updated in place so their receipts stay;
+// lines left out are removed, which the database refuses for any line with goods received
+export const savePurchaseOrder = async (
+  purchaseOrder: TablesInsert<'purchase_orders'>,
+  items: (CalculatedLineItem & { id?: string })[],
+  purchaseOrderId?: string
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('save_purchase_order', {
+    _purchase_order_id: purchaseOrderId,
+    _purchase_order: purchaseOrder,
+    _items: items.map((item, position) => ({ ...item, position })),
+  });
+  if (error) throw error;
+
+  return data;
+};
@@ -0,0 +1,50 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, TablesInsert } from '@/integrations/supabase/types';
+import type { CalculatedLineItem } from '@/lib/line-items';
+import { toDateValue } from '@/lib/dates';
+
+export type QuotationStatus = Database['public']['Enums']['quotation_status'];
+
+export const QUOTATION_STATUS_LABELS: Record<QuotationStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+};
+
+export const QUOTATION_STATUS_VARIANTS: Record<QuotationStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  draft: 'outline',
+  sent: 'secondary',
+  accepted: 'default',
+  rejected: 'destructive',
+};
+
+// Only open quotes can lapse; an accepted quote stays accepted after its validity date
+export const isExpired = (status: QuotationStatus, validUntil: string | null): boolean => {
+  return (status === 'draft' || status === 'sent') && !!validUntil && validUntil < toDateValue();
+};
+
+export const latestVersion = <T extends { version_number: number }>(versions: T[]): T | undefined => {
+  return versions.reduce<T | undefined>(
+    (latest, version) => (!latest || version.version_number > latest.version_number ? version : latest),
+    undefined
+  );
+};
+
+// Every save is a new version, written in one transaction; earlier versions and their items are never modified
+export const saveQuotationVersion = async (
+  quotation: TablesInsert<'quotations'>,
+  version: Omit<TablesInsert<'quotation_versions'>, 'quotation_id'>,
+  items: CalculatedLineItem[],
+  quotationId?: string
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('save_quotation_version', {
+    _quotation_id: quotationId,
+    _quotation: quotation,
+    _version: version,
+    _items: items.map((item, position) => ({ ...item, position })),
+  });
+  if (error) throw error;
+
+  return data;
+};
@@ -0,0 +1,90 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { formatINR } from '@/lib/currency';
+import { roundPaise } from '@/lib/gst';
+
+export type StatementInvoice = Pick<
+  Tables<'invoices'>,
+  'id' | 'invoice_number' | 'invoice_date' | 'total_amount' | 'created_at'
+> & { projects?: { name: string } | null };
+
+export type StatementReceipt = Pick<
+  Tables<'transactions'>,
+  'id' | 'transaction_date' | 'amount' | 'payment_mode' | 'reason' | 'created_at'
+> & { projects?: { name: string } | null; invoices?: { invoice_number: string | null } | null };
+
+export interface StatementEntry {
+  key: string;
+  date: string;
+  invoice?: StatementInvoice;
+  receipt?: StatementReceipt;
+  charged: number;
+  received: number;
+  // What the customer owes after this entry; negative when they have paid ahead
+  balance: number;
+}
+
+export interface CustomerStatement {
+  openingBalance: number;
+  entries: StatementEntry[];
+  totalCharged: number;
+  totalReceived: number;
+  closingBalance: number;
+}
+
+/**
+ * Invoices and receipts up to the end of the period, with everything before
+ * `from` rolled into the opening balance. On the same day an invoice comes
+ * before the receipt against it.
+ */
+export const buildCustomerStatement = (
+  invoices: StatementInvoice[],
+  receipts: StatementReceipt[],
+  from: string
+): CustomerStatement => {
+  const all = [
+    ...invoices.map((invoice) => ({
+      key: `invoice-${invoice.id}`,
+      date: invoice.invoice_date,
+      order: 0,
+      createdAt: invoice.created_at ?? '',
+      invoice,
+      charged: Number(invoice.total_amount),
+      received: 0,
+    })),
+    ...receipts.map((receipt) => ({
+      key: `receipt-${receipt.id}`,
+      date: receipt.transaction_date,
+      order: 1,
+      createdAt: receipt.created_at ?? '',
+      receipt,
+      charged: 0,
+      received: Number(receipt.amount),
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || a.order - b.order || a.createdAt.localeCompare(b.createdAt));
+
+  const openingBalance = all
+    .filter((entry) => from && entry.date < from)
+    .reduce((balance, entry) => roundPaise(balance + entry.charged - entry.received), 0);
+
+  let balance = openingBalance;
+  const entries = all
+    .filter((entry) => !from || entry.date >= from)
+    .map(({ order, createdAt, ...entry }) => {
+      balance = roundPaise(balance + entry.charged - entry.received);
+      return { ...entry, balance };
+    });
+
+  return {
+    openingBalance,
+    entries,
+    totalCharged: roundPaise(entries.reduce((sum, entry) => sum + entry.charged, 0)),
+    totalReceived: roundPaise(entries.reduce((sum, entry) => sum + entry.received, 0)),
+    closingBalance: balance,
+  };
+};
+
+// Statements mark which side a balance is on rather than printing a minus sign
+export const formatStatementBalance = (balance: number): string => {
+  if (balance === 0) return formatINR(0);
+  return `${formatINR(Math.abs(balance))} ${balance > 0 ? 'Dr' : 'Cr'}`;
+};
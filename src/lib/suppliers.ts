@@ -0,0 +1,54 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { roundPaise } from '@/lib/gst';
+
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+
+export const isValidIfsc = (ifsc: string): boolean => IFSC_PATTERN.test(ifsc);
+
+export type SupplierBill = Tables<'supplier_bills'> & { projects?: { name: string } | null };
+
+export type SupplierPayment = Pick<
+  Tables<'transactions'>,
+  'id' | 'project_id' | 'transaction_date' | 'amount' | 'payment_mode' | 'reason' | 'created_at'
+> & { projects?: { name: string } | null };
+
+export interface SupplierLedgerEntry {
+  key: string;
+  date: string;
+  bill?: SupplierBill;
+  payment?: SupplierPayment;
+  billed: number;
+  paid: number;
+  // What we owe the supplier after this entry
+  balance: number;
+}
+
+// Bills and payments in date order; on the same day a bill comes before the payment against it
+export const buildSupplierLedger = (bills: SupplierBill[], payments: SupplierPayment[]): SupplierLedgerEntry[] => {
+  const entries = [
+    ...bills.map((bill) => ({
+      key: `bill-${bill.id}`,
+      date: bill.bill_date,
+      order: 0,
+      createdAt: bill.created_at ?? '',
+      bill,
+      billed: Number(bill.amount),
+      paid: 0,
+    })),
+    ...payments.map((payment) => ({
+      key: `payment-${payment.id}`,
+      date: payment.transaction_date,
+      order: 1,
+      createdAt: payment.created_at ?? '',
+      payment,
+      billed: 0,
+      paid: Number(payment.amount),
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || a.order - b.order || a.createdAt.localeCompare(b.createdAt));
+
+  let balance = 0;
+  return entries.map(({ order, createdAt, ...entry }) => {
+    balance = roundPaise(balance + entry.billed - entry.paid);
+    return { ...entry, balance };
+  });
+};
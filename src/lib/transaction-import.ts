@@ -0,0 +1,267 @@
+import { Constants, TablesInsert } from '@/integrations/supabase/types';
+import { toDateValue } from '@/lib/dates';
+
+export type ImportCell = string | null;
+export type ImportRecord = Record<string, ImportCell>;
+
+// rowNumber is the record's row in the file, header included, so it matches what a spreadsheet shows
+export interface SheetRecord {
+  rowNumber: number;
+  values: ImportRecord;
+}
+
+export interface ParsedSheet {
+  headers: string[];
+  records: SheetRecord[];
+}
+
+export const IMPORT_FIELDS = [
+  { key: 'transaction_date', label: 'Date', required: false, aliases: ['date', 'txn date', 'transaction date', 'value date'] },
+  { key: 'customer', label: 'Customer', required: true, aliases: ['customer', 'customer name', 'client'] },
+  { key: 'project', label: 'Project', required: true, aliases: ['project', 'project name', 'job'] },
+  { key: 'transaction_type', label: 'Type', required: true, aliases: ['type', 'transaction type', 'cr/dr', 'dr/cr'] },
+  { key: 'fund_source', label: 'Fund Source', required: true, aliases: ['fund', 'fund source', 'source', 'account'] },
+  { key: 'amount', label: 'Amount', required: true, aliases: ['amount', 'amount (inr)', 'value'] },
+  { key: 'payment_mode', label: 'Payment Mode', required: false, aliases: ['mode', 'payment mode'] },
+  { key: 'reason', label: 'Reason', required: true, aliases: ['reason', 'description', 'narration', 'particulars'] },
+  { key: 'utr', label: 'UTR / Reference', required: false, aliases: ['utr', 'reference', 'ref no', 'metadata.utr'] },
+  { key: 'bank', label: 'Bank', required: false, aliases: ['bank', 'bank name', 'metadata.bank'] },
+  { key: 'supplier', label: 'Supplier', required: false, aliases: ['supplier', 'vendor', 'metadata.supplier'] },
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]['key'];
+
+// CSV header for each field, or '' when the field is not mapped
+export type ColumnMapping = Record<ImportField, string>;
+
+const METADATA_FIELDS = ['utr', 'bank', 'supplier'] as const;
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[\s_]+/g, ' ');
+
+// RFC 4180: fields may be quoted, with "" for a quote and line breaks kept inside quotes
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Read as plain text, so dates like 01/02/2025 aren't reinterpreted as US dates
+export const parseImportFile = async (file: File): Promise<ParsedSheet> => {
+  const [headerRow = [], ...dataRows] = parseCsv((await file.text()).replace(/^\ufeff/, ''));
+  const headers = headerRow.map((h) => h.trim());
+
+  const records = dataRows
+    .map((cells, idx) => ({
+      rowNumber: idx + 2,
+      values: Object.fromEntries(
+        headers.flatMap((header, col) => (header ? [[header, cells[col] || null]] : []))
+      ) as ImportRecord,
+    }))
+    .filter((record) => Object.values(record.values).some((value) => !!value?.trim()));
+
+  return { headers: headers.filter(Boolean), records };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach((field) => {
+    const aliases: readonly string[] = field.aliases;
+    mapping[field.key] = headers.find((h) => aliases.includes(normalize(h))) ?? '';
+  });
+  return mapping;
+};
+
+export interface ImportCustomer {
+  id: string;
+  name: string;
+}
+
+export interface ImportProject {
+  id: string;
+  name: string;
+  customer_id: string;
+}
+
+export interface ImportSupplier {
+  id: string;
+  name: string;
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  customerName: string;
+  projectName: string;
+  transaction: Partial<TablesInsert<'transactions'>>;
+  errors: string[];
+}
+
+export interface ImportValidation {
+  rows: ImportRow[];
+  validRows: ImportRow[];
+  missingCustomers: string[];
+}
+
+const cellText = (value: ImportCell | undefined): string => (value ?? '').trim();
+
+// Accepts ISO dates, dd/mm/yyyy, dd-mm-yyyy and dd.mm.yyyy (Indian day-first order)
+export const parseImportDate = (value: ImportCell | undefined): string | null => {
+  const text = cellText(value);
+  let year: number, month: number, day: number;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (dayFirst) {
+    const yearText = dayFirst[3].length === 2 ? `20${dayFirst[3]}` : dayFirst[3];
+    [year, month, day] = [Number(yearText), Number(dayFirst[2]), Number(dayFirst[1])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (isNaN(date.getTime()) || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return toDateValue(date);
+};
+
+const matchEnum = <T extends string>(value: string, options: readonly T[], aliases: Record<string, T> = {}): T | null => {
+  const key = normalize(value);
+  return options.find((option) => option === key) ?? aliases[key] ?? null;
+};
+
+/**
+ * Dry run of an import: resolves names to IDs and validates every row
+ * without writing anything.
+ */
+export const validateImport = (
+  records: SheetRecord[],
+  mapping: ColumnMapping,
+  customers: ImportCustomer[],
+  projects: ImportProject[],
+  suppliers: ImportSupplier[] = []
+): ImportValidation => {
+  const customersByName = new Map(customers.map((c) => [normalize(c.name), c]));
+  const suppliersByName = new Map(suppliers.map((s) => [normalize(s.name), s]));
+  const missingCustomers = new Map<string, string>();
+
+  const rows = records.map(({ rowNumber, values }) => {
+    const get = (field: ImportField) => (mapping[field] ? values[mapping[field]] : undefined);
+    const errors: string[] = [];
+
+    const customerName = cellText(get('customer'));
+    const projectName = cellText(get('project'));
+    const transaction: Partial<TablesInsert<'transactions'>> = {};
+
+    if (!customerName) {
+      errors.push('Customer is required');
+    } else {
+      const customer = customersByName.get(normalize(customerName));
+      if (!customer) {
+        missingCustomers.set(normalize(customerName), customerName);
+        errors.push(`Customer "${customerName}" not found`);
+      } else {
+        transaction.customer_id = customer.id;
+        const project = projects.find(
+          (p) => p.customer_id === customer.id && normalize(p.name) === normalize(projectName)
+        );
+        if (!projectName) {
+          errors.push('Project is required');
+        } else if (!project) {
+          errors.push(`Project "${projectName}" not found for ${customer.name}`);
+        } else {
+          transaction.project_id = project.id;
+        }
+      }
+    }
+
+    const typeText = cellText(get('transaction_type'));
+    const type = matchEnum(typeText, Constants.public.Enums.transaction_type, {
+      cr: 'credit',
+      dr: 'debit',
+      income: 'credit',
+      expense: 'debit',
+    });
+    if (type) transaction.transaction_type = type;
+    else errors.push(typeText ? `Invalid type "${typeText}"` : 'Type is required');
+
+    const fundText = cellText(get('fund_source'));
+    // Petty cash spending is only ever posted from an advance
+    const fund = matchEnum(fundText, Constants.public.Enums.fund_source.filter((f) => f !== 'petty_cash'));
+    if (fund) transaction.fund_source = fund;
+    else errors.push(fundText ? `Invalid fund source "${fundText}"` : 'Fund source is required');
+
+    const amountText = cellText(get('amount'));
+    const amount = Number(amountText.replace(/[₹,\s]/g, ''));
+    if (!amountText) errors.push('Amount is required');
+    else if (!Number.isFinite(amount) || amount <= 0) errors.push(`Invalid amount "${amountText}"`);
+    else transaction.amount = Math.round(amount * 100) / 100;
+
+    const reason = cellText(get('reason'));
+    if (reason) transaction.reason = reason;
+    else errors.push('Reason is required');
+
+    if (mapping.transaction_date && cellText(get('transaction_date'))) {
+      const date = parseImportDate(get('transaction_date'));
+      if (date) transaction.transaction_date = date;
+      else errors.push(`Invalid date "${cellText(get('transaction_date'))}"`);
+    }
+
+    transaction.payment_mode = cellText(get('payment_mode')) || null;
+
+    const metadata: Record<string, string> = {};
+    METADATA_FIELDS.forEach((field) => {
+      const value = cellText(get(field));
+      if (value) metadata[field] = value;
+    });
+
+    // Known suppliers are linked on debits; other names stay as free text
+    const supplier = metadata.supplier && suppliersByName.get(normalize(metadata.supplier));
+    if (supplier && transaction.transaction_type === 'debit') {
+      transaction.supplier_id = supplier.id;
+      delete metadata.supplier;
+    }
+    transaction.metadata = metadata;
+
+    return { rowNumber, customerName, projectName, transaction, errors };
+  });
+
+  return {
+    rows,
+    validRows: rows.filter((row) => row.errors.length === 0),
+    missingCustomers: Array.from(missingCustomers.values()),
+  };
+};
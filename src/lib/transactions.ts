@@ -0,0 +1,183 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { formatINR } from '@/lib/currency';
+import type { ExportRow } from '@/lib/export';
+import { COST_CATEGORY_LABELS } from '@/lib/budgets';
+
+export type FundSource = Database['public']['Enums']['fund_source'];
+
+export const FUND_SOURCE_LABELS: Record<FundSource, string> = {
+  cash: 'Cash',
+  bank: 'Bank',
+  petty_cash: 'Petty Cash',
+};
+
+export interface TransactionFilters {
+  customer: string;
+  project: string;
+  type: string;
+  fund: string;
+  mode: string;
+  dateFrom: string;
+  dateTo: string;
+}
+
+export const emptyTransactionFilters: TransactionFilters = {
+  customer: '',
+  project: '',
+  type: '',
+  fund: '',
+  mode: '',
+  dateFrom: '',
+  dateTo: '',
+};
+
+export type TransactionSortColumn = 'transaction_date' | 'amount' | 'customer' | 'project';
+
+export interface TransactionSort {
+  column: TransactionSortColumn;
+  ascending: boolean;
+}
+
+export const defaultTransactionSort: TransactionSort = {
+  column: 'transaction_date',
+  ascending: false,
+};
+
+// Customer/project sort on the embedded (many-to-one) resource
+const sortColumns: Record<TransactionSortColumn, string> = {
+  transaction_date: 'transaction_date',
+  amount: 'amount',
+  customer: 'customers(name)',
+  project: 'projects(name)',
+};
+
+// Select " " is used as the "All" option, so treat blank values as unset
+const isSet = (value: string) => value.trim() !== '';
+
+// Escape characters that have meaning inside a PostgREST ilike pattern
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+/**
+ * Builds the ledger query with filters and sorting translated into PostgREST
+ * parameters. Callers add `.range()` for a page or fetch in batches for exports.
+ */
+export const queryTransactions = (
+  filters: TransactionFilters,
+  sort: TransactionSort = defaultTransactionSort
+) => {
+  let query = supabase
+    .from('transactions')
+    .select('*, customers(name), projects(name), suppliers(name), payment_milestones(name)', { count: 'exact' });
+
+  if (isSet(filters.customer)) query = query.eq('customer_id', filters.customer);
+  if (isSet(filters.project)) query = query.eq('project_id', filters.project);
+  if (isSet(filters.type)) query = query.eq('transaction_type', filters.type as 'credit' | 'debit');
+  if (isSet(filters.fund)) query = query.eq('fund_source', filters.fund as FundSource);
+  if (isSet(filters.mode)) query = query.ilike('payment_mode', `%${escapeLike(filters.mode.trim())}%`);
+  if (filters.dateFrom) query = query.gte('transaction_date', filters.dateFrom);
+  if (filters.dateTo) query = query.lte('transaction_date', filters.dateTo);
+
+  return query
+    .order(sortColumns[sort.column], { ascending: sort.ascending })
+    .order('created_at', { ascending: sort.ascending })
+    .order('id');
+};
+
+export type LedgerTransaction = NonNullable<
+  Awaited<ReturnType<typeof queryTransactions>>['data']
+>[number];
+
+const EXPORT_BATCH_SIZE = 1000;
+
+// PostgREST caps rows per request, so page through the whole filtered ledger
+export const fetchAllTransactions = async (
+  filters: TransactionFilters,
+  sort: TransactionSort = defaultTransactionSort
+): Promise<LedgerTransaction[]> => {
+  const rows: LedgerTransaction[] = [];
+  for (let from = 0; ; from += EXPORT_BATCH_SIZE) {
+    const { data, error } = await queryTransactions(filters, sort)
+      .range(from, from + EXPORT_BATCH_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < EXPORT_BATCH_SIZE) break;
+  }
+  return rows;
+};
+
+// Common metadata keys come first; anything else found is appended alphabetically
+const PREFERRED_METADATA_KEYS = ['utr', 'bank', 'supplier'];
+
+const metadataOf = (tx: LedgerTransaction): Record<string, Json> => {
+  const metadata = tx.metadata;
+  return metadata && typeof metadata === 'object' && !Array.isArray(metadata)
+    ? (metadata as Record<string, Json>)
+    : {};
+};
+
+export const transactionExportRows = (transactions: LedgerTransaction[]) => {
+  const extraKeys = new Set<string>();
+  transactions.forEach((tx) => {
+    Object.keys(metadataOf(tx)).forEach((key) => {
+      if (!PREFERRED_METADATA_KEYS.includes(key)) extraKeys.add(key);
+    });
+  });
+  const metadataKeys = [...PREFERRED_METADATA_KEYS, ...Array.from(extraKeys).sort()];
+
+  const columns = [
+    'Date',
+    'Customer',
+    'Project',
+    'Type',
+    'Fund Source',
+    'Payment Mode',
+    'Reason',
+    'Cost Category',
+    'Amount (INR)',
+    'Amount',
+    'Taxable Value',
+    'GST Rate',
+    'Place of Supply',
+    'CGST',
+    'SGST',
+    'IGST',
+    ...metadataKeys.map((key) => `metadata.${key}`),
+  ];
+
+  const rows: ExportRow[] = transactions.map((tx) => {
+    // Linked suppliers export by name so the file imports back to the same supplier
+    const metadata = tx.suppliers ? { ...metadataOf(tx), supplier: tx.suppliers.name } : metadataOf(tx);
+    const row: ExportRow = {
+      'Date': tx.transaction_date,
+      'Customer': tx.customers?.name ?? '',
+      'Project': tx.projects?.name ?? '',
+      'Type': tx.transaction_type,
+      'Fund Source': tx.fund_source,
+      'Payment Mode': tx.payment_mode ?? '',
+      'Reason': tx.reason,
+      'Cost Category': tx.cost_category ? COST_CATEGORY_LABELS[tx.cost_category] : '',
+      'Amount (INR)': formatINR(Number(tx.amount)),
+      'Amount': Number(tx.amount),
+      'Taxable Value': tx.taxable_value ?? '',
+      'GST Rate': tx.gst_rate ?? '',
+      'Place of Supply': tx.place_of_supply ?? '',
+      'CGST': Number(tx.cgst_amount),
+      'SGST': Number(tx.sgst_amount),
+      'IGST': Number(tx.igst_amount),
+    };
+    metadataKeys.forEach((key) => {
+      const value = metadata[key];
+      row[`metadata.${key}`] =
+        value === undefined || value === null
+          ? ''
+          : typeof value === 'object'
+            ? JSON.stringify(value)
+            : String(value);
+    });
+    return row;
+  });
+
+  return { columns, rows };
+};
@@ -0,0 +1,366 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { addDays, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { SearchableSelect } from '@/components/SearchableSelect';
+import { DatePicker } from '@/components/DatePicker';
+import { TablePagination } from '@/components/TablePagination';
+import { ActivityDetails } from '@/components/ActivityDetails';
+import {
+  ACTIVITY_ACTIONS,
+  ACTIVITY_ENTITIES,
+  actionLabel,
+  actorLabel,
+  activityData,
+  asString,
+  fetchActorNames,
+  humanizeKey,
+  isDeletion,
+} from '@/lib/activity';
+
+interface ActivityEntry {
+  id: string;
+  action: string;
+  actor_type: string | null;
+  actor_id: string | null;
+  entity_type: string | null;
+  entity_id: string | null;
+  data: Json | null;
+  timestamp: string | null;
+}
+
+interface NamedRecord {
+  id: string;
+  name: string;
+}
+
+const PAGE_SIZE = 50;
+
+const SYSTEM_ACTOR = 'system';
+
+// Entities with a detail page of their own
+const DOCUMENT_PATHS: Record<string, string> = {
+  customer: '/customers',
+  invoice: '/invoices',
+  quotation: '/quotations',
+  supplier: '/suppliers',
+  purchase_order: '/purchase-orders',
+};
+
+const AuditLog = () => {
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [projects, setProjects] = useState<NamedRecord[]>([]);
+  const [actors, setActors] = useState<Record<string, string>>({});
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(0);
+  const [total, setTotal] = useState(0);
+
+  const [filters, setFilters] = useState({
+    action: '',
+    entity: '',
+    actor: '',
+    project: '',
+    dateFrom: '',
+    dateTo: '',
+  });
+
+  useEffect(() => {
+    fetchProjects();
+    fetchNames();
+    fetchActorNames().then(setActors);
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [filters, page]);
+
+  const fetchEntries = async () => {
+    try {
+      let query = supabase
+        .from('activity_log')
+        .select('*', { count: 'exact' });
+
+      if (filters.action.trim()) query = query.eq('action', filters.action);
+      if (filters.entity.trim()) query = query.eq('entity_type', filters.entity);
+      if (filters.actor === SYSTEM_ACTOR) query = query.eq('actor_type', SYSTEM_ACTOR);
+      else if (filters.actor.trim()) query = query.eq('actor_id', filters.actor);
+      if (filters.project) query = query.eq('data->>project_id', filters.project);
+      // timestamp is a TIMESTAMPTZ, so bound by local midnights
+      if (filters.dateFrom) query = query.gte('timestamp', parseISO(filters.dateFrom).toISOString());
+      if (filters.dateTo) query = query.lt('timestamp', addDays(parseISO(filters.dateTo), 1).toISOString());
+
+      const from = page * PAGE_SIZE;
+      const { data, error, count } = await query
+        .order('timestamp', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      setEntries(data || []);
+      setTotal(count || 0);
+    } catch (error) {
+      toast.error('Failed to fetch activity log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchProjects = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setProjects(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch projects');
+    }
+  };
+
+  // Customers and employees are only shown by name, so a failed lookup falls back to IDs
+  const fetchNames = async () => {
+    const [{ data: customers }, { data: employees }] = await Promise.all([
+      supabase.from('customers').select('id, name'),
+      supabase.from('employees').select('id, name'),
+    ]);
+
+    setNames(Object.fromEntries([...(customers || []), ...(employees || [])].map((r) => [r.id, r.name])));
+  };
+
+  const updateFilters = (changes: Partial<typeof filters>) => {
+    setFilters({ ...filters, ...changes });
+    setPage(0);
+  };
+
+  const projectName = (id: string) => projects.find((p) => p.id === id)?.name ?? 'Deleted project';
+
+  const renderEntity = (entry: ActivityEntry) => {
+    const data = activityData(entry.data);
+    const projectId = asString(data.project_id);
+    const transactionId = asString(data.transaction_id);
+    const deleted = isDeletion(entry.action, data);
+    // Entities without their own page are shown by name (or short ID) only
+    const documentPath = entry.entity_type ? DOCUMENT_PATHS[entry.entity_type] : undefined;
+    const documentId = documentPath ? entry.entity_id : null;
+    const otherEntity =
+      entry.entity_type && !documentPath && !['project', 'transaction'].includes(entry.entity_type)
+        ? entry.entity_id
+        : null;
+
+    return (
+      <div className="space-y-1 text-sm">
+        {projectId && (
+          <Link to={`/projects/${projectId}`} className="block text-primary hover:underline">
+            {projectName(projectId)}
+          </Link>
+        )}
+        {transactionId && (
+          deleted || !projectId ? (
+            <span className="block text-muted-foreground">
+              Transaction {transactionId.slice(0, 8)}{deleted && ' (deleted)'}
+            </span>
+          ) : (
+            <Link
+              to={`/projects/${projectId}#transaction-${transactionId}`}
+              className="block text-primary hover:underline"
+            >
+              Transaction {transactionId.slice(0, 8)}
+            </Link>
+          )
+        )}
+        {documentId && (
+          deleted ? (
+            <span className="block text-muted-foreground">
+              {humanizeKey(entry.entity_type)} {documentId.slice(0, 8)} (deleted)
+            </span>
+          ) : (
+            <Link to={`${documentPath}/${documentId}`} className="block text-primary hover:underline">
+              {humanizeKey(entry.entity_type)} {documentId.slice(0, 8)}
+            </Link>
+          )
+        )}
+        {otherEntity && (
+          <span className="block text-muted-foreground">
+            {humanizeKey(entry.entity_type)} {names[otherEntity] ?? otherEntity.slice(0, 8)}
+            {deleted && ' (deleted)'}
+          </span>
+        )}
+        {!projectId && !transactionId && !documentId && !otherEntity && '-'}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+        <p className="text-muted-foreground">
+          Review changes made to balances and records
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select
+                value={filters.action}
+                onValueChange={(value) => updateFilters({ action: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All actions" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=" ">All actions</SelectItem>
+                  {Object.entries(ACTIVITY_ACTIONS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Record</Label>
+              <Select
+                value={filters.entity}
+                onValueChange={(value) => updateFilters({ entity: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All records" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=" ">All records</SelectItem>
+                  {Object.entries(ACTIVITY_ENTITIES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Actor</Label>
+              <Select
+                value={filters.actor}
+                onValueChange={(value) => updateFilters({ actor: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Anyone" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=" ">Anyone</SelectItem>
+                  <SelectItem value={SYSTEM_ACTOR}>System</SelectItem>
+                  {Object.entries(actors)
+                    .sort(([, a], [, b]) => a.localeCompare(b))
+                    .map(([actorId, name]) => (
+                      <SelectItem key={actorId} value={actorId}>{name}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <SearchableSelect
+                options={projects.map((p) => ({ value: p.id, label: p.name }))}
+                value={filters.project}
+                onValueChange={(value) => updateFilters({ project: value })}
+                placeholder="All projects"
+                searchPlaceholder="Search projects..."
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>From</Label>
+              <DatePicker
+                value={filters.dateFrom}
+                onValueChange={(value) => updateFilters({ dateFrom: value })}
+                placeholder="Start date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <DatePicker
+                value={filters.dateTo}
+                onValueChange={(value) => updateFilters({ dateTo: value })}
+                placeholder="End date"
+              />
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-16 bg-muted animate-pulse rounded" />
+              ))}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Affected</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No activity found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map((entry) => (
+                    <TableRow key={entry.id} className="align-top">
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {entry.timestamp ? new Date(entry.timestamp).toLocaleString('en-IN') : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{actionLabel(entry.action)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{actorLabel(entry, actors)}</TableCell>
+                      <TableCell>{renderEntity(entry)}</TableCell>
+                      <TableCell>
+                        <ActivityDetails data={entry.data} />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+
+          <TablePagination
+            page={page}
+            pageSize={PAGE_SIZE}
+            total={total}
+            onPageChange={setPage}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuditLog;
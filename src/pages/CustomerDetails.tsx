@@ -0,0 +1,488 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, ArrowDown, ArrowUp, FileText, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatINR } from '@/lib/currency';
+import { formatDate, toDateValue } from '@/lib/dates';
+import { stateLabel } from '@/lib/gst';
+import { useAuth } from '@/lib/auth-context';
+import { DatePicker } from '@/components/DatePicker';
+import { EntityHistory } from '@/components/EntityHistory';
+import { ProjectFinancials, summariseProjectFinancials } from '@/lib/profitability';
+import { FUND_SOURCE_LABELS } from '@/lib/transactions';
+
+type Customer = Tables<'customers'>;
+
+type Project = Pick<Tables<'projects'>, 'id' | 'name' | 'status' | 'estimated_total' | 'remaining_amount' | 'start_date'>;
+
+type Transaction = Pick<
+  Tables<'transactions'>,
+  'id' | 'project_id' | 'transaction_type' | 'fund_source' | 'amount' | 'payment_mode' | 'reason' | 'transaction_date'
+> & { projects?: { name: string } | null };
+
+type Interaction = Tables<'customer_notes'>['interaction'];
+
+type CustomerNote = Tables<'customer_notes'> & { profiles?: { full_name: string | null } | null };
+
+const INTERACTION_LABELS: Record<Interaction, string> = {
+  note: 'Note',
+  call: 'Call',
+  meeting: 'Meeting',
+  site_visit: 'Site Visit',
+  email: 'Email',
+};
+
+const PROJECT_STATUS_VARIANTS: Record<Project['status'], 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  prospect: 'outline',
+  active: 'default',
+  completed: 'secondary',
+  cancelled: 'destructive',
+};
+
+// Enough to recognise what has happened lately; the statement has the full history
+const RECENT_TRANSACTIONS = 20;
+
+const CustomerDetails = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { user, role, can } = useAuth();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [financials, setFinancials] = useState<Partial<ProjectFinancials & { project_id: string }>[]>([]);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [notes, setNotes] = useState<CustomerNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [noteForm, setNoteForm] = useState({ noted_on: toDateValue(), interaction: 'note' as Interaction, body: '' });
+  const [savingNote, setSavingNote] = useState(false);
+
+  useEffect(() => {
+    if (id) {
+      fetchCustomer();
+      fetchProjects();
+      fetchTransactions();
+      fetchNotes();
+    }
+  }, [id]);
+
+  const fetchCustomer = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      setCustomer(data);
+    } catch (error) {
+      toast.error('Failed to fetch customer');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchProjects = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, status, estimated_total, remaining_amount, start_date')
+        .eq('customer_id', id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setProjects(data || []);
+
+      const { data: financialData, error: financialError } = await supabase
+        .from('project_financials')
+        .select('*')
+        .in('project_id', (data || []).map((p) => p.id));
+
+      if (financialError) throw financialError;
+      setFinancials(financialData || []);
+    } catch (error) {
+      toast.error('Failed to fetch projects');
+    }
+  };
+
+  const fetchTransactions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id, project_id, transaction_type, fund_source, amount, payment_mode, reason, transaction_date, projects(name)')
+        .eq('customer_id', id)
+        .order('transaction_date', { ascending: false })
+        .order('created_at', { ascending: false })
+        .limit(RECENT_TRANSACTIONS);
+
+      if (error) throw error;
+      setTransactions(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch transactions');
+    }
+  };
+
+  const fetchNotes = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('customer_notes')
+        .select('*, profiles(full_name)')
+        .eq('customer_id', id)
+        .order('noted_on', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setNotes(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch notes');
+    }
+  };
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!noteForm.body.trim()) return;
+
+    setSavingNote(true);
+    try {
+      const { error } = await supabase
+        .from('customer_notes')
+        .insert([{ ...noteForm, body: noteForm.body.trim(), customer_id: id }]);
+
+      if (error) throw error;
+      toast.success('Note added');
+      setNoteForm({ noted_on: toDateValue(), interaction: 'note', body: '' });
+      fetchNotes();
+    } catch (error) {
+      toast.error('Failed to add note');
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const handleDeleteNote = async (noteId: string) => {
+    if (!confirm('Delete this note?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('customer_notes')
+        .delete()
+        .eq('id', noteId);
+
+      if (error) throw error;
+      toast.success('Note deleted');
+      fetchNotes();
+    } catch (error) {
+      toast.error('Failed to delete note');
+    }
+  };
+
+  if (loading || !customer) {
+    return <div>Loading...</div>;
+  }
+
+  const lifetime = summariseProjectFinancials(financials);
+  const receivedFor = (projectId: string) =>
+    Number(financials.find((f) => f.project_id === projectId)?.cash_received ?? 0);
+  const canAddNotes = can('customer_notes.create');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/customers')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{customer.name}</h1>
+            <p className="text-muted-foreground">
+              Customer since {formatDate(customer.created_at)}
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" onClick={() => navigate(`/customers/${customer.id}/statement`)}>
+          <FileText className="mr-2 h-4 w-4" />
+          Statement
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Projects</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{projects.length}</div>
+            <p className="text-xs text-muted-foreground">
+              {projects.filter((p) => p.status === 'active').length} active
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Lifetime Billed</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatINR(lifetime.revenueBilled)}</div>
+            <p className="text-xs text-muted-foreground">
+              of {formatINR(lifetime.contractValue)} project value
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Lifetime Received</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{formatINR(lifetime.cashReceived)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Outstanding</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-orange-600">{formatINR(lifetime.receivable)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Contact</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 text-sm md:grid-cols-3">
+          <div>
+            <p className="text-muted-foreground">Phone</p>
+            <p>{customer.phone_number || '-'}</p>
+            <p className="text-muted-foreground mt-2">Email</p>
+            <p>{customer.email || '-'}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Address</p>
+            <p className="whitespace-pre-line">{customer.address || '-'}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">GSTIN</p>
+            <p>{customer.gstin || 'Unregistered'}</p>
+            <p className="text-muted-foreground mt-2">State</p>
+            <p>{customer.state_code ? `${stateLabel(customer.state_code)} (${customer.state_code})` : '-'}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Tabs defaultValue="projects">
+        <TabsList>
+          <TabsTrigger value="projects">Projects</TabsTrigger>
+          <TabsTrigger value="transactions">Recent Transactions</TabsTrigger>
+          <TabsTrigger value="notes">Notes</TabsTrigger>
+          {can('audit_log.view') && <TabsTrigger value="history">History</TabsTrigger>}
+        </TabsList>
+        <TabsContent value="projects">
+          <Card>
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Project</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    <TableHead className="text-right">Outstanding</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {projects.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No projects for this customer yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    projects.map((project) => (
+                      <TableRow key={project.id}>
+                        <TableCell>
+                          <Link to={`/projects/${project.id}`} className="font-medium hover:underline">
+                            {project.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={PROJECT_STATUS_VARIANTS[project.status]}>{project.status}</Badge>
+                        </TableCell>
+                        <TableCell>{formatDate(project.start_date)}</TableCell>
+                        <TableCell className="text-right">{formatINR(Number(project.estimated_total))}</TableCell>
+                        <TableCell className="text-right">{formatINR(receivedFor(project.id))}</TableCell>
+                        <TableCell className="text-right">{formatINR(Number(project.remaining_amount))}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="transactions">
+          <Card>
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Project</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Mode</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transactions.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        No transactions yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    transactions.map((tx) => (
+                      <TableRow key={tx.id}>
+                        <TableCell>{formatDate(tx.transaction_date)}</TableCell>
+                        <TableCell>
+                          <Badge variant={tx.transaction_type === 'credit' ? 'default' : 'destructive'}>
+                            {tx.transaction_type === 'credit' ? (
+                              <ArrowDown className="mr-1 h-3 w-3" />
+                            ) : (
+                              <ArrowUp className="mr-1 h-3 w-3" />
+                            )}
+                            {tx.transaction_type}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Link to={`/projects/${tx.project_id}#transaction-${tx.id}`} className="hover:underline">
+                            {tx.projects?.name || '-'}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{FUND_SOURCE_LABELS[tx.fund_source]}</TableCell>
+                        <TableCell>{tx.payment_mode || '-'}</TableCell>
+                        <TableCell className="text-right font-medium">{formatINR(Number(tx.amount))}</TableCell>
+                        <TableCell className="max-w-xs truncate">{tx.reason}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="notes">
+          <Card>
+            <CardContent className="pt-6 space-y-6">
+              {canAddNotes && (
+                <form onSubmit={handleAddNote} className="space-y-3 border-b pb-6">
+                  <div className="grid grid-cols-2 gap-4 md:max-w-md">
+                    <div className="space-y-2">
+                      <Label>Date</Label>
+                      <DatePicker
+                        value={noteForm.noted_on}
+                        onValueChange={(value) => setNoteForm({ ...noteForm, noted_on: value || toDateValue() })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Type</Label>
+                      <Select
+                        value={noteForm.interaction}
+                        onValueChange={(value) => setNoteForm({ ...noteForm, interaction: value as Interaction })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(INTERACTION_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <Textarea
+                    placeholder="What was discussed or agreed?"
+                    value={noteForm.body}
+                    onChange={(e) => setNoteForm({ ...noteForm, body: e.target.value })}
+                    rows={3}
+                    required
+                  />
+                  <div className="flex justify-end">
+                    <Button type="submit" disabled={savingNote || !noteForm.body.trim()}>
+                      Add Note
+                    </Button>
+                  </div>
+                </form>
+              )}
+              {notes.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No notes yet</p>
+              ) : (
+                <ol className="relative border-l ml-2 space-y-6">
+                  {notes.map((note) => (
+                    <li key={note.id} className="ml-6">
+                      <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="space-y-1">
+                          <div className="flex items-center gap-2 text-sm">
+                            <span className="font-medium">{formatDate(note.noted_on)}</span>
+                            <Badge variant="outline">{INTERACTION_LABELS[note.interaction]}</Badge>
+                            <span className="text-muted-foreground">
+                              {note.profiles?.full_name || (note.created_by ? 'Unknown user' : 'Imported')}
+                            </span>
+                          </div>
+                          <p className="text-sm whitespace-pre-line">{note.body}</p>
+                        </div>
+                        {(note.created_by === user?.id || role === 'admin') && (
+                          <Button variant="ghost" size="icon" onClick={() => handleDeleteNote(note.id)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+        {can('audit_log.view') && (
+          <TabsContent value="history">
+            <Card>
+              <CardContent className="pt-6">
+                <EntityHistory referenceKey="customer_id" id={customer.id} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+      </Tabs>
+    </div>
+  );
+};
+
+export default CustomerDetails;
@@ -0,0 +1,340 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Card, CardContent } from '@/components/ui/card';
+import { ArrowLeft, Download, Printer } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatINR } from '@/lib/currency';
+import {
+  DATE_RANGE_PRESETS,
+  DateRangePreset,
+  formatDate,
+  getPresetRange,
+  toDateValue,
+} from '@/lib/dates';
+import { DatePicker } from '@/components/DatePicker';
+import { CompanyDetails } from '@/components/CompanyDetails';
+import { ExportFormat, ExportRow, exportRows } from '@/lib/export';
+import { invoiceLabel } from '@/lib/invoices';
+import { LEGACY_ADVANCE_KEY } from '@/lib/petty-cash';
+import {
+  StatementEntry,
+  StatementInvoice,
+  StatementReceipt,
+  buildCustomerStatement,
+  formatStatementBalance,
+} from '@/lib/statements';
+
+type Customer = Pick<Tables<'customers'>, 'id' | 'name' | 'address' | 'gstin' | 'phone_number' | 'email'>;
+
+const entryParticulars = (entry: StatementEntry): string => {
+  if (entry.invoice) return `Invoice ${invoiceLabel(entry.invoice)}`;
+  const receipt = entry.receipt;
+  const against = receipt?.invoices ? ` against ${invoiceLabel(receipt.invoices)}` : '';
+  return `Payment received${receipt?.payment_mode ? ` (${receipt.payment_mode})` : ''}${against}`;
+};
+
+const entryProject = (entry: StatementEntry): string =>
+  (entry.invoice ?? entry.receipt)?.projects?.name ?? '';
+
+const CustomerStatement = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [invoices, setInvoices] = useState<StatementInvoice[]>([]);
+  const [receipts, setReceipts] = useState<StatementReceipt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [datePreset, setDatePreset] = useState<string>('this_financial_year');
+  const [range, setRange] = useState(getPresetRange('this_financial_year'));
+
+  useEffect(() => {
+    if (id) fetchCustomer();
+  }, [id]);
+
+  useEffect(() => {
+    if (id) fetchEntries();
+  }, [id, range]);
+
+  const fetchCustomer = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('id, name, address, gstin, phone_number, email')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      setCustomer(data);
+    } catch (error) {
+      toast.error('Failed to fetch customer');
+    }
+  };
+
+  // Everything up to the end of the period is fetched; earlier entries make up the opening balance
+  const fetchEntries = async () => {
+    try {
+      let invoiceQuery = supabase
+        .from('invoices')
+        .select('id, invoice_number, invoice_date, total_amount, created_at, projects(name)')
+        .eq('customer_id', id)
+        .neq('status', 'draft');
+      let receiptQuery = supabase
+        .from('transactions')
+        .select('id, transaction_date, amount, payment_mode, reason, created_at, projects(name), invoices(invoice_number)')
+        .eq('customer_id', id)
+        .eq('transaction_type', 'credit')
+        // Cash handed back from petty cash advances is not a payment by the customer
+        .is('related_advance_id', null)
+        .is(LEGACY_ADVANCE_KEY, null)
+        .neq('fund_source', 'petty_cash');
+
+      if (range.to) {
+        invoiceQuery = invoiceQuery.lte('invoice_date', range.to);
+        receiptQuery = receiptQuery.lte('transaction_date', range.to);
+      }
+
+      const [invoiceResult, receiptResult] = await Promise.all([invoiceQuery, receiptQuery]);
+      if (invoiceResult.error) throw invoiceResult.error;
+      if (receiptResult.error) throw receiptResult.error;
+
+      setInvoices(invoiceResult.data || []);
+      setReceipts(receiptResult.data || []);
+    } catch (error) {
+      toast.error('Failed to fetch statement');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDatePresetChange = (value: string) => {
+    setDatePreset(value);
+    setRange(value.trim() ? getPresetRange(value as DateRangePreset) : { from: '', to: '' });
+  };
+
+  const statement = buildCustomerStatement(invoices, receipts, range.from);
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    if (!customer) return;
+    const columns = ['Date', 'Particulars', 'Project', 'Invoiced', 'Received', 'Balance'];
+    const exportData: ExportRow[] = [
+      {
+        'Date': range.from,
+        'Particulars': 'Opening balance',
+        'Project': '',
+        'Invoiced': null,
+        'Received': null,
+        'Balance': statement.openingBalance,
+      },
+      ...statement.entries.map((entry) => ({
+        'Date': entry.date,
+        'Particulars': entryParticulars(entry),
+        'Project': entryProject(entry),
+        'Invoiced': entry.charged || null,
+        'Received': entry.received || null,
+        'Balance': entry.balance,
+      })),
+      {
+        'Date': range.to,
+        'Particulars': 'Closing balance',
+        'Project': '',
+        'Invoiced': statement.totalCharged,
+        'Received': statement.totalReceived,
+        'Balance': statement.closingBalance,
+      },
+    ];
+    const slug = customer.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    try {
+      await exportRows(exportData, columns, `statement-${slug}-${toDateValue()}`, exportFormat, 'Statement');
+    } catch (error) {
+      toast.error('Failed to export statement');
+    }
+  };
+
+  if (loading || !customer) {
+    return <div>Loading...</div>;
+  }
+
+  const period = range.from || range.to
+    ? `${range.from ? formatDate(range.from) : 'Beginning'} to ${range.to ? formatDate(range.to) : formatDate(toDateValue())}`
+    : 'All dates';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 print:hidden">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate(`/customers/${customer.id}`)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Statement of Account</h1>
+            <p className="text-muted-foreground">{customer.name}</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport('csv')}>CSV (.csv)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {/* The browser's print dialog also saves as PDF */}
+          <Button onClick={() => window.print()}>
+            <Printer className="mr-2 h-4 w-4" />
+            Print / PDF
+          </Button>
+        </div>
+      </div>
+
+      <Card className="print:hidden">
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={datePreset} onValueChange={handleDatePresetChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All dates" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=" ">All dates</SelectItem>
+                  {Object.entries(DATE_RANGE_PRESETS).map(([key, preset]) => (
+                    <SelectItem key={key} value={key}>{preset.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>From</Label>
+              <DatePicker
+                value={range.from}
+                onValueChange={(value) => {
+                  setDatePreset('');
+                  setRange({ ...range, from: value });
+                }}
+                placeholder="Start date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <DatePicker
+                value={range.to}
+                onValueChange={(value) => {
+                  setDatePreset('');
+                  setRange({ ...range, to: value });
+                }}
+                placeholder="End date"
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="print:border-0 print:shadow-none">
+        <CardContent className="pt-6 space-y-6 print:p-0">
+          <div className="flex justify-between gap-6">
+            <CompanyDetails />
+            <div className="text-right">
+              <h2 className="text-xl font-bold uppercase">Statement of Account</h2>
+              <p className="text-sm">{period}</p>
+              <p className="text-sm">Issued: {formatDate(toDateValue())}</p>
+            </div>
+          </div>
+
+          <div className="border-y py-4">
+            <p className="text-xs font-medium uppercase text-muted-foreground">Customer</p>
+            <p className="font-medium">{customer.name}</p>
+            {customer.address && <p className="text-sm whitespace-pre-line">{customer.address}</p>}
+            {customer.gstin && <p className="text-sm">GSTIN: {customer.gstin}</p>}
+            {(customer.phone_number || customer.email) && (
+              <p className="text-sm">{[customer.phone_number, customer.email].filter(Boolean).join(' • ')}</p>
+            )}
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Particulars</TableHead>
+                <TableHead>Project</TableHead>
+                <TableHead className="text-right">Invoiced</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell>{range.from ? formatDate(range.from) : '-'}</TableCell>
+                <TableCell className="font-medium" colSpan={4}>Opening balance</TableCell>
+                <TableCell className="text-right font-medium">
+                  {formatStatementBalance(statement.openingBalance)}
+                </TableCell>
+              </TableRow>
+              {statement.entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No invoices or payments in this period
+                  </TableCell>
+                </TableRow>
+              ) : (
+                statement.entries.map((entry) => (
+                  <TableRow key={entry.key}>
+                    <TableCell>{formatDate(entry.date)}</TableCell>
+                    <TableCell>{entryParticulars(entry)}</TableCell>
+                    <TableCell>{entryProject(entry) || '-'}</TableCell>
+                    <TableCell className="text-right">{entry.charged ? formatINR(entry.charged) : ''}</TableCell>
+                    <TableCell className="text-right">{entry.received ? formatINR(entry.received) : ''}</TableCell>
+                    <TableCell className="text-right">{formatStatementBalance(entry.balance)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={3}>Closing balance</TableCell>
+                <TableCell className="text-right">{formatINR(statement.totalCharged)}</TableCell>
+                <TableCell className="text-right">{formatINR(statement.totalReceived)}</TableCell>
+                <TableCell className="text-right">{formatStatementBalance(statement.closingBalance)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+
+          <p className="text-xs text-muted-foreground">
+            Dr is the amount due from you; Cr is an amount paid in advance.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CustomerStatement;
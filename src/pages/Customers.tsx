@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -21,9 +22,13 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Plus, Search, Pencil, Trash2 } from 'lucide-react';
+import { Plus, Search, Pencil, Trash2, History, FileText, Eye } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatINR } from '@/lib/currency';
+import { useAuth } from '@/lib/auth-context';
+import { EntityHistory } from '@/components/EntityHistory';
+import { GstinFields } from '@/components/GstinFields';
+import { isValidGstin } from '@/lib/gst';
 
 interface Customer {
   id: string;
@@ -31,24 +36,29 @@ interface Customer {
   address: string;
   phone_number: string;
   email: string;
-  notes: string;
+  gstin: string | null;
+  state_code: string | null;
   created_at: string;
 }
 
 const Customers = () => {
+  const { can } = useAuth();
+  const navigate = useNavigate();
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [filteredCustomers, setFilteredCustomers] = useState<Customer[]>([]);
   const [search, setSearch] = useState('');
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [historyCustomer, setHistoryCustomer] = useState<Customer | null>(null);
 
   const [formData, setFormData] = useState({
     name: '',
     address: '',
     phone_number: '',
     email: '',
-    notes: '',
+    gstin: '',
+    state_code: '',
   });
 
   useEffect(() => {
@@ -89,11 +99,22 @@ const Customers = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (formData.gstin && !isValidGstin(formData.gstin)) {
+      toast.error('GSTIN is not valid');
+      return;
+    }
+
     try {
+      const customerData = {
+        ...formData,
+        gstin: formData.gstin || null,
+        state_code: formData.state_code || null,
+      };
+
       if (editingCustomer) {
         const { error } = await supabase
           .from('customers')
-          .update(formData)
+          .update(customerData)
           .eq('id', editingCustomer.id);
 
         if (error) throw error;
@@ -101,7 +122,7 @@ const Customers = () => {
       } else {
         const { error } = await supabase
           .from('customers')
-          .insert([formData]);
+          .insert([customerData]);
 
         if (error) throw error;
         toast.success('Customer created successfully');
@@ -138,7 +159,8 @@ const Customers = () => {
       address: '',
       phone_number: '',
       email: '',
-      notes: '',
+        gstin: '',
+      state_code: '',
     });
     setEditingCustomer(null);
   };
@@ -150,7 +172,8 @@ const Customers = () => {
       address: customer.address || '',
       phone_number: customer.phone_number || '',
       email: customer.email || '',
-      notes: customer.notes || '',
+      gstin: customer.gstin || '',
+      state_code: customer.state_code || '',
     });
     setDialogOpen(true);
   };
@@ -168,12 +191,14 @@ const Customers = () => {
           setDialogOpen(open);
           if (!open) resetForm();
         }}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Customer
-            </Button>
-          </DialogTrigger>
+          {can('customers.edit') && (
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Customer
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent className="max-w-md">
             <DialogHeader>
               <DialogTitle>{editingCustomer ? 'Edit' : 'Add'} Customer</DialogTitle>
@@ -217,15 +242,11 @@ const Customers = () => {
                   rows={2}
                 />
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="notes">Notes</Label>
-                <Textarea
-                  id="notes"
-                  value={formData.notes}
-                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
-                  rows={3}
-                />
-              </div>
+              <GstinFields
+                gstin={formData.gstin}
+                stateCode={formData.state_code}
+                onChange={(value) => setFormData({ ...formData, ...value })}
+              />
               <div className="flex justify-end gap-2">
                 <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
                   Cancel
@@ -281,7 +302,12 @@ const Customers = () => {
                 ) : (
                   filteredCustomers.map((customer) => (
                     <TableRow key={customer.id}>
-                      <TableCell className="font-medium">{customer.name}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{customer.name}</div>
+                        {customer.gstin && (
+                          <div className="text-xs text-muted-foreground">GSTIN {customer.gstin}</div>
+                        )}
+                      </TableCell>
                       <TableCell>{customer.phone_number || '-'}</TableCell>
                       <TableCell>{customer.email || '-'}</TableCell>
                       <TableCell className="max-w-xs truncate">{customer.address || '-'}</TableCell>
@@ -290,17 +316,44 @@ const Customers = () => {
                           <Button
                             variant="ghost"
                             size="icon"
-                            onClick={() => openEditDialog(customer)}
+                            onClick={() => navigate(`/customers/${customer.id}`)}
                           >
-                            <Pencil className="h-4 w-4" />
+                            <Eye className="h-4 w-4" />
                           </Button>
                           <Button
                             variant="ghost"
                             size="icon"
-                            onClick={() => handleDelete(customer.id)}
+                            onClick={() => navigate(`/customers/${customer.id}/statement`)}
                           >
-                            <Trash2 className="h-4 w-4 text-destructive" />
+                            <FileText className="h-4 w-4" />
                           </Button>
+                          {can('audit_log.view') && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setHistoryCustomer(customer)}
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {can('customers.edit') && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openEditDialog(customer)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {can('customers.delete') && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDelete(customer.id)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -311,6 +364,18 @@ const Customers = () => {
           )}
         </CardContent>
       </Card>
+
+      <Dialog open={!!historyCustomer} onOpenChange={(open) => !open && setHistoryCustomer(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>History: {historyCustomer?.name}</DialogTitle>
+            <DialogDescription>
+              Changes to this customer and its projects and transactions
+            </DialogDescription>
+          </DialogHeader>
+          {historyCustomer && <EntityHistory referenceKey="customer_id" id={historyCustomer.id} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -1,9 +1,15 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { formatINR } from '@/lib/currency';
+import { formatDate, toDateValue } from '@/lib/dates';
+import { dueThisWeekRange, milestoneBalance } from '@/lib/milestones';
+import { formatMarginPercent, summariseProjectFinancials } from '@/lib/profitability';
+import { LEGACY_ADVANCE_KEY, isPettyCashTransfer } from '@/lib/petty-cash';
+import { FUND_SOURCE_LABELS } from '@/lib/transactions';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -14,25 +20,36 @@ import {
   UserPlus,
   FolderPlus,
   Receipt,
-  Coins
+  Coins,
+  PieChart
 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Link } from 'react-router-dom';
+import { useAuth } from '@/lib/auth-context';
 
 interface DashboardStats {
   activeProjects: number;
   totalOutstanding: number;
+  grossMargin: number;
+  marginPercent: number | null;
   cashOnHand: number;
   bankBalance: number;
   monthExpenses: number;
   openAdvances: number;
 }
 
+type OwingMilestone = Tables<'payment_milestones'> & {
+  projects: { name: string; customers: { name: string } | null } | null;
+};
+
 const Dashboard = () => {
   const navigate = useNavigate();
+  const { can } = useAuth();
   const [stats, setStats] = useState<DashboardStats>({
     activeProjects: 0,
     totalOutstanding: 0,
+    grossMargin: 0,
+    marginPercent: null,
     cashOnHand: 0,
     bankBalance: 0,
     monthExpenses: 0,
@@ -40,6 +57,8 @@ const Dashboard = () => {
   });
   const [topProjects, setTopProjects] = useState<any[]>([]);
   const [recentTransactions, setRecentTransactions] = useState<any[]>([]);
+  const [overdueMilestones, setOverdueMilestones] = useState<OwingMilestone[]>([]);
+  const [milestonesDueThisWeek, setMilestonesDueThisWeek] = useState<OwingMilestone[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -55,32 +74,41 @@ const Dashboard = () => {
         .eq('status', 'active');
 
       const activeProjects = projects?.length || 0;
-      const totalOutstanding = projects?.reduce((sum, p) => sum + parseFloat(String(p.remaining_amount || 0)), 0) || 0;
+
+      // Receivables and margin use the same definitions as the project P&L
+      const { data: financials } = await supabase
+        .from('project_financials')
+        .select('*')
+        .in('project_id', projects?.map((p) => p.id) || []);
+
+      const pnl = summariseProjectFinancials(financials || []);
 
       // Fetch cash and bank balances
       const { data: transactions } = await supabase
         .from('transactions')
-        .select('*');
+        .select('*')
+        .is(LEGACY_ADVANCE_KEY, null);
 
       let cashOnHand = 0;
       let bankBalance = 0;
       let monthExpenses = 0;
 
+      // transaction_date is a plain DATE, so compare as yyyy-MM-dd strings
       const startOfMonth = new Date();
       startOfMonth.setDate(1);
-      startOfMonth.setHours(0, 0, 0, 0);
+      const monthStart = toDateValue(startOfMonth);
 
       transactions?.forEach(t => {
         const amount = parseFloat(String(t.amount || 0));
-        const createdAt = new Date(t.created_at);
 
+        // Petty cash spending was already taken out of the till when the advance was issued
         if (t.fund_source === 'cash') {
           cashOnHand += t.transaction_type === 'credit' ? amount : -amount;
-        } else {
+        } else if (t.fund_source === 'bank') {
           bankBalance += t.transaction_type === 'credit' ? amount : -amount;
         }
 
-        if (t.transaction_type === 'debit' && createdAt >= startOfMonth) {
+        if (t.transaction_type === 'debit' && t.transaction_date >= monthStart && !isPettyCashTransfer(t)) {
           monthExpenses += amount;
         }
       });
@@ -89,6 +117,7 @@ const Dashboard = () => {
       const { data: advances } = await supabase
         .from('petty_cash_advance')
         .select('*')
+        .eq('approval_status', 'disbursed')
         .in('status', ['open', 'partially_returned']);
 
       // Fetch top 5 projects by remaining amount
@@ -103,12 +132,25 @@ const Dashboard = () => {
       const { data: recentTxData } = await supabase
         .from('transactions')
         .select('*, customers(name), projects(name)')
+        .order('transaction_date', { ascending: false })
         .order('created_at', { ascending: false })
         .limit(10);
 
+      // Milestones still owing that fell due already or fall due in the next seven days
+      const week = dueThisWeekRange();
+      const { data: milestoneData } = await supabase
+        .from('payment_milestones')
+        .select('*, projects(name, customers(name))')
+        .lte('due_date', week.to)
+        .order('due_date');
+
+      const owing = (milestoneData || []).filter((m) => milestoneBalance(m) > 0);
+
       setStats({
         activeProjects,
-        totalOutstanding,
+        totalOutstanding: pnl.receivable,
+        grossMargin: pnl.grossMargin,
+        marginPercent: pnl.marginPercent,
         cashOnHand: Math.max(0, cashOnHand),
         bankBalance: Math.max(0, bankBalance),
         monthExpenses,
@@ -117,6 +159,8 @@ const Dashboard = () => {
 
       setTopProjects(topProjectsData || []);
       setRecentTransactions(recentTxData || []);
+      setOverdueMilestones(owing.filter((m) => m.due_date < week.from));
+      setMilestonesDueThisWeek(owing.filter((m) => m.due_date >= week.from));
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
     } finally {
@@ -139,6 +183,13 @@ const Dashboard = () => {
       color: 'text-accent',
       bgColor: 'bg-accent/10',
     },
+    {
+      title: 'Gross Margin',
+      value: `${formatINR(stats.grossMargin)} (${formatMarginPercent(stats.marginPercent)})`,
+      icon: PieChart,
+      color: stats.grossMargin < 0 ? 'text-destructive' : 'text-success',
+      bgColor: stats.grossMargin < 0 ? 'bg-destructive/10' : 'bg-success/10',
+    },
     {
       title: 'Cash On Hand',
       value: formatINR(stats.cashOnHand),
@@ -173,7 +224,7 @@ const Dashboard = () => {
     return (
       <div className="space-y-6 animate-pulse">
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {[1, 2, 3, 4, 5, 6].map((i) => (
+          {[1, 2, 3, 4, 5, 6, 7].map((i) => (
             <div key={i} className="h-32 bg-muted rounded-lg" />
           ))}
         </div>
@@ -221,42 +272,100 @@ const Dashboard = () => {
         </CardHeader>
         <CardContent>
           <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
-            <Button
-              variant="outline"
-              className="h-auto flex-col items-start gap-2 p-4"
-              onClick={() => navigate('/customers')}
-            >
-              <UserPlus className="h-5 w-5" />
-              <span className="text-sm font-semibold">Add Customer</span>
-            </Button>
-            <Button
-              variant="outline"
-              className="h-auto flex-col items-start gap-2 p-4"
-              onClick={() => navigate('/projects')}
-            >
-              <FolderPlus className="h-5 w-5" />
-              <span className="text-sm font-semibold">Add Project</span>
-            </Button>
-            <Button
-              variant="outline"
-              className="h-auto flex-col items-start gap-2 p-4"
-              onClick={() => navigate('/transactions')}
-            >
-              <Receipt className="h-5 w-5" />
-              <span className="text-sm font-semibold">Add Transaction</span>
-            </Button>
-            <Button
-              variant="outline"
-              className="h-auto flex-col items-start gap-2 p-4"
-              onClick={() => navigate('/petty-cash')}
-            >
-              <Coins className="h-5 w-5" />
-              <span className="text-sm font-semibold">Add Petty Cash</span>
-            </Button>
+            {can('customers.edit') && (
+              <Button
+                variant="outline"
+                className="h-auto flex-col items-start gap-2 p-4"
+                onClick={() => navigate('/customers')}
+              >
+                <UserPlus className="h-5 w-5" />
+                <span className="text-sm font-semibold">Add Customer</span>
+              </Button>
+            )}
+            {can('projects.edit') && (
+              <Button
+                variant="outline"
+                className="h-auto flex-col items-start gap-2 p-4"
+                onClick={() => navigate('/projects')}
+              >
+                <FolderPlus className="h-5 w-5" />
+                <span className="text-sm font-semibold">Add Project</span>
+              </Button>
+            )}
+            {can('transactions.create') && (
+              <Button
+                variant="outline"
+                className="h-auto flex-col items-start gap-2 p-4"
+                onClick={() => navigate('/transactions')}
+              >
+                <Receipt className="h-5 w-5" />
+                <span className="text-sm font-semibold">Add Transaction</span>
+              </Button>
+            )}
+            {can('petty_cash.edit') && (
+              <Button
+                variant="outline"
+                className="h-auto flex-col items-start gap-2 p-4"
+                onClick={() => navigate('/petty-cash')}
+              >
+                <Coins className="h-5 w-5" />
+                <span className="text-sm font-semibold">Add Petty Cash</span>
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
 
+      <div className="grid gap-6 lg:grid-cols-2">
+        {[
+          { title: 'Overdue', milestones: overdueMilestones, empty: 'Nothing overdue', overdue: true },
+          { title: 'Due This Week', milestones: milestonesDueThisWeek, empty: 'Nothing due this week', overdue: false },
+        ].map(({ title, milestones, empty, overdue }) => (
+          <Card key={title}>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>{title}</span>
+                {milestones.length > 0 && (
+                  <span className="text-sm font-normal text-muted-foreground">
+                    {formatINR(milestones.reduce((sum, m) => sum + milestoneBalance(m), 0))}
+                  </span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {milestones.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">{empty}</p>
+                ) : (
+                  milestones.map((milestone) => (
+                    <Link
+                      key={milestone.id}
+                      to={`/projects/${milestone.project_id}`}
+                      className="flex items-center justify-between hover:opacity-80"
+                    >
+                      <div className="space-y-1">
+                        <p className="text-sm font-medium leading-none">
+                          {milestone.projects?.name} • {milestone.name}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {milestone.projects?.customers?.name}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-sm font-medium">{formatINR(milestoneBalance(milestone))}</p>
+                        <p className={`text-xs ${overdue ? 'text-destructive' : 'text-muted-foreground'}`}>
+                          Due {formatDate(milestone.due_date)}
+                        </p>
+                      </div>
+                    </Link>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
       <div className="grid gap-6 lg:grid-cols-2">
         {/* Top Projects */}
         <Card>
@@ -329,7 +438,7 @@ const Dashboard = () => {
                         {tx.projects?.name || 'N/A'}
                       </p>
                       <p className="text-sm text-muted-foreground">
-                        {tx.customers?.name} • {tx.fund_source}
+                        {tx.customers?.name} • {FUND_SOURCE_LABELS[tx.fund_source]}
                       </p>
                     </div>
                     <div className="text-right">
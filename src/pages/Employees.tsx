@@ -0,0 +1,455 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Plus, Search, Pencil, Trash2, Gauge } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatINR } from '@/lib/currency';
+import { useAuth } from '@/lib/auth-context';
+import { LEGACY_ADVANCE_KEY, advanceBalance } from '@/lib/petty-cash';
+import { AdvanceLimitsDialog } from '@/components/AdvanceLimitsDialog';
+
+interface Employee {
+  id: string;
+  name: string;
+  department: string;
+  email: string;
+  phone: string;
+  created_at: string;
+}
+
+interface EmployeeSummary {
+  openAdvances: number;
+  outstanding: number;
+  spent: number;
+  ledgerPaidOut: number;
+}
+
+const emptySummary: EmployeeSummary = {
+  openAdvances: 0,
+  outstanding: 0,
+  spent: 0,
+  ledgerPaidOut: 0,
+};
+
+const Employees = () => {
+  const { can } = useAuth();
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [summaries, setSummaries] = useState<Record<string, EmployeeSummary>>({});
+  const [search, setSearch] = useState('');
+  const [department, setDepartment] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null);
+  const [limitsOpen, setLimitsOpen] = useState(false);
+
+  const [formData, setFormData] = useState({
+    name: '',
+    department: '',
+    email: '',
+    phone: '',
+  });
+
+  useEffect(() => {
+    fetchEmployees();
+    fetchSummaries();
+  }, []);
+
+  const fetchEmployees = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('employees')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setEmployees(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch employees');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSummaries = async () => {
+    try {
+      const { data: advances, error: advancesError } = await supabase
+        .from('petty_cash_advance')
+        .select('employee_id, advance_amount, expense_total, returned_amount, reimbursed_amount, status')
+        .eq('approval_status', 'disbursed');
+
+      if (advancesError) throw advancesError;
+
+      const { data: transactions, error: transactionsError } = await supabase
+        .from('transactions')
+        .select('related_employee_id, transaction_type, amount')
+        .not('related_employee_id', 'is', null)
+        .neq('fund_source', 'petty_cash')
+        .is(LEGACY_ADVANCE_KEY, null);
+
+      if (transactionsError) throw transactionsError;
+
+      const result: Record<string, EmployeeSummary> = {};
+      const summaryFor = (employeeId: string) => {
+        if (!result[employeeId]) result[employeeId] = { ...emptySummary };
+        return result[employeeId];
+      };
+
+      advances?.forEach((adv) => {
+        const summary = summaryFor(adv.employee_id);
+        summary.spent += Number(adv.expense_total);
+        if (adv.status !== 'closed') {
+          summary.openAdvances += 1;
+          // Net of any over-spend still owed back to the employee
+          summary.outstanding += advanceBalance(adv);
+        }
+      });
+
+      // Cash handed to the employee (debits) less cash they gave back (credits); what they
+      // spent out of it is posted under the petty_cash fund and left out above
+      transactions?.forEach((tx) => {
+        const summary = summaryFor(tx.related_employee_id);
+        const amount = Number(tx.amount);
+        summary.ledgerPaidOut += tx.transaction_type === 'debit' ? amount : -amount;
+      });
+
+      setSummaries(result);
+    } catch (error) {
+      toast.error('Failed to fetch petty cash summary');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const employeeData = {
+        name: formData.name,
+        department: formData.department || null,
+        email: formData.email || null,
+        phone: formData.phone || null,
+      };
+
+      if (editingEmployee) {
+        const { error } = await supabase
+          .from('employees')
+          .update(employeeData)
+          .eq('id', editingEmployee.id);
+
+        if (error) throw error;
+        toast.success('Employee updated successfully');
+      } else {
+        const { error } = await supabase
+          .from('employees')
+          .insert([employeeData]);
+
+        if (error) throw error;
+        toast.success('Employee created successfully');
+      }
+
+      setDialogOpen(false);
+      resetForm();
+      fetchEmployees();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save employee');
+    }
+  };
+
+  const handleDelete = async (employee: Employee) => {
+    // Advances cascade on employee delete, so never silently drop petty cash history
+    const summary = summaries[employee.id];
+    if (summary && (summary.openAdvances > 0 || summary.spent > 0 || summary.ledgerPaidOut !== 0)) {
+      toast.error('Cannot delete an employee with petty cash history');
+      return;
+    }
+
+    if (!confirm('Are you sure you want to delete this employee?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('employees')
+        .delete()
+        .eq('id', employee.id);
+
+      if (error) throw error;
+      toast.success('Employee deleted');
+      fetchEmployees();
+      fetchSummaries();
+    } catch (error) {
+      toast.error('Failed to delete employee');
+    }
+  };
+
+  const resetForm = () => {
+    setFormData({
+      name: '',
+      department: '',
+      email: '',
+      phone: '',
+    });
+    setEditingEmployee(null);
+  };
+
+  const openEditDialog = (employee: Employee) => {
+    setEditingEmployee(employee);
+    setFormData({
+      name: employee.name,
+      department: employee.department || '',
+      email: employee.email || '',
+      phone: employee.phone || '',
+    });
+    setDialogOpen(true);
+  };
+
+  const departments = Array.from(
+    new Set(employees.map((e) => e.department).filter(Boolean))
+  ).sort();
+
+  const filteredEmployees = employees.filter((employee) => {
+    if (department.trim() && employee.department !== department) return false;
+    if (search) {
+      const term = search.toLowerCase();
+      return (
+        employee.name.toLowerCase().includes(term) ||
+        employee.email?.toLowerCase().includes(term) ||
+        employee.phone?.includes(search)
+      );
+    }
+    return true;
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Employees</h1>
+          <p className="text-muted-foreground">
+            Manage staff and their petty cash balances
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {can('petty_cash_limits.edit') && (
+            <Button variant="outline" onClick={() => setLimitsOpen(true)}>
+              <Gauge className="mr-2 h-4 w-4" />
+              Advance Limits
+            </Button>
+          )}
+          <Dialog open={dialogOpen} onOpenChange={(open) => {
+            setDialogOpen(open);
+            if (!open) resetForm();
+          }}>
+            {can('employees.edit') && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Employee
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>{editingEmployee ? 'Edit' : 'Add'} Employee</DialogTitle>
+                <DialogDescription>
+                  {editingEmployee ? 'Update' : 'Create a new'} employee record
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name *</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="department">Department</Label>
+                  <Input
+                    id="department"
+                    list="department-options"
+                    placeholder="e.g., Procurement, Installation"
+                    value={formData.department}
+                    onChange={(e) => setFormData({ ...formData, department: e.target.value })}
+                  />
+                  <datalist id="department-options">
+                    {departments.map((d) => (
+                      <option key={d} value={d} />
+                    ))}
+                  </datalist>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="phone">Phone</Label>
+                  <Input
+                    id="phone"
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit">
+                    {editingEmployee ? 'Update' : 'Create'}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      <AdvanceLimitsDialog
+        open={limitsOpen}
+        onOpenChange={setLimitsOpen}
+        employees={employees}
+        departments={departments}
+      />
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
+            <div className="relative flex-1 max-w-sm">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search employees..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+            <Select value={department} onValueChange={setDepartment}>
+              <SelectTrigger className="w-full sm:w-56">
+                <SelectValue placeholder="All departments" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value=" ">All departments</SelectItem>
+                {departments.map((d) => (
+                  <SelectItem key={d} value={d}>{d}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-16 bg-muted animate-pulse rounded" />
+              ))}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead className="text-right">Open Advances</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  <TableHead className="text-right">Total Spent</TableHead>
+                  <TableHead className="text-right">Net Paid Out</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredEmployees.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground">
+                      No employees found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredEmployees.map((employee) => {
+                    const summary = summaries[employee.id] || emptySummary;
+                    return (
+                      <TableRow key={employee.id}>
+                        <TableCell className="font-medium">{employee.name}</TableCell>
+                        <TableCell>{employee.department || '-'}</TableCell>
+                        <TableCell className="text-sm">
+                          <div>{employee.phone || '-'}</div>
+                          {employee.email && (
+                            <div className="text-muted-foreground">{employee.email}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{summary.openAdvances}</TableCell>
+                        <TableCell className="text-right">
+                          {formatINR(summary.outstanding)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatINR(summary.spent)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatINR(summary.ledgerPaidOut)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            {can('employees.edit') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => openEditDialog(employee)}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can('employees.delete') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDelete(employee)}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Employees;
@@ -0,0 +1,390 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO, startOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatINR } from '@/lib/currency';
+import { DatePicker } from '@/components/DatePicker';
+import {
+  DATE_RANGE_PRESETS,
+  DateRangePreset,
+  getPresetRange,
+  toDateValue,
+} from '@/lib/dates';
+import { ExportFormat, ExportRow, exportRows } from '@/lib/export';
+
+type SummaryRow = Tables<'gst_monthly_summary'>;
+
+interface TaxTotals {
+  count: number;
+  taxable: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+const emptyTotals = (): TaxTotals => ({ count: 0, taxable: 0, cgst: 0, sgst: 0, igst: 0 });
+
+const addRow = (totals: TaxTotals, row: SummaryRow) => {
+  totals.count += Number(row.transaction_count);
+  totals.taxable += Number(row.taxable_value);
+  totals.cgst += Number(row.cgst_amount);
+  totals.sgst += Number(row.sgst_amount);
+  totals.igst += Number(row.igst_amount);
+};
+
+const addTotals = (totals: TaxTotals, other: TaxTotals) => {
+  totals.count += other.count;
+  totals.taxable += other.taxable;
+  totals.cgst += other.cgst;
+  totals.sgst += other.sgst;
+  totals.igst += other.igst;
+};
+
+const taxOf = (totals: TaxTotals) => totals.cgst + totals.sgst + totals.igst;
+
+interface MonthSummary {
+  month: string;
+  b2b: TaxTotals;
+  b2c: TaxTotals;
+  outward: TaxTotals;
+  inward: TaxTotals;
+}
+
+const summariseByMonth = (rows: SummaryRow[]): MonthSummary[] => {
+  const months: Record<string, MonthSummary> = {};
+  rows.forEach((row) => {
+    if (!row.month) return;
+    if (!months[row.month]) {
+      months[row.month] = {
+        month: row.month,
+        b2b: emptyTotals(),
+        b2c: emptyTotals(),
+        outward: emptyTotals(),
+        inward: emptyTotals(),
+      };
+    }
+    const summary = months[row.month];
+    // Credits are our sales (output tax); debits are purchases (input tax credit)
+    if (row.transaction_type === 'credit') {
+      addRow(summary.outward, row);
+      addRow(row.registered_customer ? summary.b2b : summary.b2c, row);
+    } else {
+      addRow(summary.inward, row);
+    }
+  });
+  return Object.values(months).sort((a, b) => a.month.localeCompare(b.month));
+};
+
+const summariseByRate = (rows: SummaryRow[]): [number, TaxTotals][] => {
+  const rates: Record<string, TaxTotals> = {};
+  rows
+    .filter((row) => row.transaction_type === 'credit')
+    .forEach((row) => {
+      const rate = String(Number(row.gst_rate));
+      if (!rates[rate]) rates[rate] = emptyTotals();
+      addRow(rates[rate], row);
+    });
+  return Object.entries(rates)
+    .map(([rate, totals]): [number, TaxTotals] => [Number(rate), totals])
+    .sort(([a], [b]) => a - b);
+};
+
+const monthLabel = (month: string) => format(parseISO(month), 'MMM yyyy');
+
+const GstReport = () => {
+  const [rows, setRows] = useState<SummaryRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [datePreset, setDatePreset] = useState<string>('this_financial_year');
+  const [range, setRange] = useState(getPresetRange('this_financial_year'));
+
+  useEffect(() => {
+    fetchSummary();
+  }, [range]);
+
+  const fetchSummary = async () => {
+    try {
+      let query = supabase.from('gst_monthly_summary').select('*');
+      if (range.from) query = query.gte('month', toDateValue(startOfMonth(parseISO(range.from))));
+      if (range.to) query = query.lte('month', range.to);
+
+      const { data, error } = await query.order('month');
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch GST summary');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDatePresetChange = (value: string) => {
+    setDatePreset(value);
+    setRange(value.trim() ? getPresetRange(value as DateRangePreset) : { from: '', to: '' });
+  };
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    if (rows.length === 0) {
+      toast.error('Nothing to export');
+      return;
+    }
+    const columns = [
+      'Month',
+      'Type',
+      'GST Rate',
+      'Registered Customer',
+      'Transactions',
+      'Taxable Value',
+      'CGST',
+      'SGST',
+      'IGST',
+      'Total',
+    ];
+    const exportData: ExportRow[] = rows.map((row) => ({
+      'Month': row.month ? format(parseISO(row.month), 'yyyy-MM') : '',
+      'Type': row.transaction_type === 'credit' ? 'Outward' : 'Inward',
+      'GST Rate': Number(row.gst_rate),
+      'Registered Customer': row.registered_customer === null ? '' : row.registered_customer ? 'Yes' : 'No',
+      'Transactions': Number(row.transaction_count),
+      'Taxable Value': Number(row.taxable_value),
+      'CGST': Number(row.cgst_amount),
+      'SGST': Number(row.sgst_amount),
+      'IGST': Number(row.igst_amount),
+      'Total': Number(row.total_amount),
+    }));
+    try {
+      await exportRows(exportData, columns, `gst-summary-${toDateValue()}`, exportFormat, 'GST Summary');
+    } catch (error) {
+      toast.error('Failed to export GST summary');
+    }
+  };
+
+  const months = summariseByMonth(rows);
+  const rates = summariseByRate(rows);
+  const totals = months.reduce(
+    (sum, m) => {
+      addTotals(sum.outward, m.outward);
+      addTotals(sum.inward, m.inward);
+      return sum;
+    },
+    { outward: emptyTotals(), inward: emptyTotals() }
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">GST Summary</h1>
+          <p className="text-muted-foreground">
+            Monthly output tax and input credit for GSTR-1 and GSTR-3B
+          </p>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline">
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => handleExport('csv')}>CSV (.csv)</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={datePreset} onValueChange={handleDatePresetChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All dates" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=" ">All dates</SelectItem>
+                  {Object.entries(DATE_RANGE_PRESETS).map(([key, preset]) => (
+                    <SelectItem key={key} value={key}>{preset.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>From</Label>
+              <DatePicker
+                value={range.from}
+                onValueChange={(value) => {
+                  setDatePreset('');
+                  setRange({ ...range, from: value });
+                }}
+                placeholder="Start date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <DatePicker
+                value={range.to}
+                onValueChange={(value) => {
+                  setDatePreset('');
+                  setRange({ ...range, to: value });
+                }}
+                placeholder="End date"
+              />
+            </div>
+          </div>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Whole months are reported; a period starting mid-month includes that entire month.
+          </p>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-16 bg-muted animate-pulse rounded" />
+          ))}
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Monthly Summary</CardTitle>
+              <CardDescription>Only transactions recorded with a GST rate are included</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">B2B Taxable</TableHead>
+                    <TableHead className="text-right">B2C Taxable</TableHead>
+                    <TableHead className="text-right">CGST</TableHead>
+                    <TableHead className="text-right">SGST</TableHead>
+                    <TableHead className="text-right">IGST</TableHead>
+                    <TableHead className="text-right">Output Tax</TableHead>
+                    <TableHead className="text-right">Input Tax Credit</TableHead>
+                    <TableHead className="text-right">Net Payable</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {months.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={9} className="text-center text-muted-foreground">
+                        No GST transactions in this period
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    months.map((m) => (
+                      <TableRow key={m.month}>
+                        <TableCell className="font-medium">{monthLabel(m.month)}</TableCell>
+                        <TableCell className="text-right">{formatINR(m.b2b.taxable)}</TableCell>
+                        <TableCell className="text-right">{formatINR(m.b2c.taxable)}</TableCell>
+                        <TableCell className="text-right">{formatINR(m.outward.cgst)}</TableCell>
+                        <TableCell className="text-right">{formatINR(m.outward.sgst)}</TableCell>
+                        <TableCell className="text-right">{formatINR(m.outward.igst)}</TableCell>
+                        <TableCell className="text-right">{formatINR(taxOf(m.outward))}</TableCell>
+                        <TableCell className="text-right">{formatINR(taxOf(m.inward))}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatINR(taxOf(m.outward) - taxOf(m.inward))}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+                {months.length > 0 && (
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell>Total</TableCell>
+                      <TableCell className="text-right" colSpan={2}>
+                        {formatINR(totals.outward.taxable)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatINR(totals.outward.cgst)}</TableCell>
+                      <TableCell className="text-right">{formatINR(totals.outward.sgst)}</TableCell>
+                      <TableCell className="text-right">{formatINR(totals.outward.igst)}</TableCell>
+                      <TableCell className="text-right">{formatINR(taxOf(totals.outward))}</TableCell>
+                      <TableCell className="text-right">{formatINR(taxOf(totals.inward))}</TableCell>
+                      <TableCell className="text-right">
+                        {formatINR(taxOf(totals.outward) - taxOf(totals.inward))}
+                      </TableCell>
+                    </TableRow>
+                  </TableFooter>
+                )}
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Outward Supplies by Rate</CardTitle>
+              <CardDescription>Rate-wise totals for the period</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rate</TableHead>
+                    <TableHead className="text-right">Transactions</TableHead>
+                    <TableHead className="text-right">Taxable Value</TableHead>
+                    <TableHead className="text-right">CGST</TableHead>
+                    <TableHead className="text-right">SGST</TableHead>
+                    <TableHead className="text-right">IGST</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rates.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No outward supplies in this period
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    rates.map(([rate, t]) => (
+                      <TableRow key={rate}>
+                        <TableCell className="font-medium">{rate}%</TableCell>
+                        <TableCell className="text-right">{t.count}</TableCell>
+                        <TableCell className="text-right">{formatINR(t.taxable)}</TableCell>
+                        <TableCell className="text-right">{formatINR(t.cgst)}</TableCell>
+                        <TableCell className="text-right">{formatINR(t.sgst)}</TableCell>
+                        <TableCell className="text-right">{formatINR(t.igst)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GstReport;
@@ -0,0 +1,277 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Pencil, Printer, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { amountInWords, formatINR } from '@/lib/currency';
+import { formatDate } from '@/lib/dates';
+import { useAuth } from '@/lib/auth-context';
+import { roundPaise, stateLabel } from '@/lib/gst';
+import {
+  INVOICE_STATUS_LABELS,
+  INVOICE_STATUS_VARIANTS,
+  invoiceBalance,
+  invoiceLabel,
+} from '@/lib/invoices';
+import { lineDiscount } from '@/lib/line-items';
+import { InvoiceDialog } from '@/components/InvoiceDialog';
+import { CompanyDetails } from '@/components/CompanyDetails';
+import { DocumentTotals } from '@/components/DocumentTotals';
+import { LineItemsTable } from '@/components/LineItemsTable';
+
+type Invoice = Tables<'invoices'> & {
+  invoice_items: Tables<'invoice_items'>[];
+  customers?: Pick<Tables<'customers'>, 'name' | 'address' | 'gstin' | 'state_code' | 'phone_number' | 'email'>;
+  projects?: { name: string };
+};
+
+interface Payment {
+  id: string;
+  amount: number;
+  payment_mode: string;
+  transaction_date: string;
+}
+
+const InvoiceView = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  useEffect(() => {
+    if (id) {
+      fetchInvoice();
+      fetchPayments();
+    }
+  }, [id]);
+
+  const fetchInvoice = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*, invoice_items(*), customers(name, address, gstin, state_code, phone_number, email), projects(name)')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      setInvoice(data);
+    } catch (error) {
+      toast.error('Failed to fetch invoice');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchPayments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id, amount, payment_mode, transaction_date')
+        .eq('invoice_id', id)
+        .order('transaction_date');
+
+      if (error) throw error;
+      setPayments(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch payments');
+    }
+  };
+
+  const handleMarkSent = async () => {
+    if (!confirm('Mark this invoice as sent? It will be numbered and can no longer be edited.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('invoices')
+        .update({ status: 'sent' })
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success('Invoice marked as sent');
+      fetchInvoice();
+    } catch (error) {
+      toast.error('Failed to update invoice');
+    }
+  };
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!invoice) {
+    return <div className="text-muted-foreground">Invoice not found</div>;
+  }
+
+  const items = [...invoice.invoice_items].sort((a, b) => a.position - b.position);
+  const totals = {
+    ...invoice,
+    discount_amount: items.reduce((sum, item) => roundPaise(sum + lineDiscount(item)), 0),
+  };
+  const isDraft = invoice.status === 'draft';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 print:hidden">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/invoices')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{invoiceLabel(invoice)}</h1>
+            <p className="text-muted-foreground">
+              {invoice.customers?.name} •{' '}
+              <Link to={`/projects/${invoice.project_id}`} className="hover:underline">
+                {invoice.projects?.name}
+              </Link>
+            </p>
+          </div>
+          <Badge variant={INVOICE_STATUS_VARIANTS[invoice.status]}>
+            {INVOICE_STATUS_LABELS[invoice.status]}
+          </Badge>
+        </div>
+        <div className="flex gap-2">
+          {can('invoices.edit') && isDraft && (
+            <>
+              <Button variant="outline" onClick={() => setDialogOpen(true)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+              <Button variant="outline" onClick={handleMarkSent}>
+                <Send className="mr-2 h-4 w-4" />
+                Mark as Sent
+              </Button>
+            </>
+          )}
+          <Button onClick={() => window.print()}>
+            <Printer className="mr-2 h-4 w-4" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      <InvoiceDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        invoiceId={invoice.id}
+        onSaved={() => fetchInvoice()}
+      />
+
+      <Card className="print:border-0 print:shadow-none">
+        <CardContent className="pt-6 space-y-6 print:p-0">
+          <div className="flex justify-between gap-6">
+            <CompanyDetails />
+            <div className="text-right">
+              <h2 className="text-xl font-bold uppercase">{isDraft ? 'Draft Invoice' : 'Tax Invoice'}</h2>
+              <p className="text-sm">Invoice No: {invoiceLabel(invoice)}</p>
+              <p className="text-sm">Date: {formatDate(invoice.invoice_date)}</p>
+              {invoice.due_date && <p className="text-sm">Due: {formatDate(invoice.due_date)}</p>}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-6 border-y py-4">
+            <div>
+              <p className="text-xs font-medium uppercase text-muted-foreground">Bill To</p>
+              <p className="font-medium">{invoice.customers?.name}</p>
+              {invoice.customers?.address && (
+                <p className="text-sm whitespace-pre-line">{invoice.customers.address}</p>
+              )}
+              {invoice.customers?.gstin && <p className="text-sm">GSTIN: {invoice.customers.gstin}</p>}
+              {invoice.customers?.phone_number && <p className="text-sm">{invoice.customers.phone_number}</p>}
+            </div>
+            <div>
+              <p className="text-xs font-medium uppercase text-muted-foreground">Place of Supply</p>
+              <p className="text-sm">{stateLabel(invoice.place_of_supply)} ({invoice.place_of_supply})</p>
+              <p className="text-xs font-medium uppercase text-muted-foreground mt-2">Project</p>
+              <p className="text-sm">{invoice.projects?.name}</p>
+            </div>
+          </div>
+
+          <LineItemsTable items={items} />
+
+          <div className="flex justify-between gap-6">
+            <div className="text-sm space-y-2 max-w-md">
+              <p>
+                <span className="font-medium">Amount in words: </span>
+                {amountInWords(Number(invoice.total_amount))}
+              </p>
+              {invoice.notes && <p className="whitespace-pre-line text-muted-foreground">{invoice.notes}</p>}
+            </div>
+            <div className="w-72 text-sm space-y-1">
+              <DocumentTotals totals={totals} placeOfSupply={invoice.place_of_supply} />
+              {!isDraft && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Received</span>
+                    <span>{formatINR(Number(invoice.amount_paid))}</span>
+                  </div>
+                  <div className="flex justify-between font-medium">
+                    <span>Balance Due</span>
+                    <span>{formatINR(invoiceBalance(invoice))}</span>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {!isDraft && (
+        <Card className="print:hidden">
+          <CardContent className="pt-6">
+            <h3 className="font-semibold mb-4">Payments Received</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">
+                      No payments recorded against this invoice
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  payments.map((payment) => (
+                    <TableRow key={payment.id}>
+                      <TableCell className="text-sm">
+                        <Link
+                          to={`/projects/${invoice.project_id}#transaction-${payment.id}`}
+                          className="hover:underline"
+                        >
+                          {formatDate(payment.transaction_date)}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-sm">{payment.payment_mode}</TableCell>
+                      <TableCell className="text-right font-medium">{formatINR(Number(payment.amount))}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default InvoiceView;
@@ -0,0 +1,273 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Eye, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatINR } from '@/lib/currency';
+import { formatDate } from '@/lib/dates';
+import { useAuth } from '@/lib/auth-context';
+import { SearchableSelect } from '@/components/SearchableSelect';
+import { InvoiceDialog } from '@/components/InvoiceDialog';
+import {
+  INVOICE_STATUS_LABELS,
+  INVOICE_STATUS_VARIANTS,
+  InvoiceStatus,
+  invoiceBalance,
+  invoiceLabel,
+} from '@/lib/invoices';
+
+interface Invoice {
+  id: string;
+  invoice_number: string | null;
+  invoice_date: string;
+  due_date: string | null;
+  status: InvoiceStatus;
+  total_amount: number;
+  amount_paid: number;
+  customer_id: string;
+  project_id: string;
+  customers?: { name: string };
+  projects?: { name: string };
+}
+
+const Invoices = () => {
+  const { can } = useAuth();
+  const navigate = useNavigate();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [customers, setCustomers] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [filters, setFilters] = useState({ status: '', customer: '' });
+
+  useEffect(() => {
+    fetchCustomers();
+  }, []);
+
+  useEffect(() => {
+    fetchInvoices();
+  }, [filters]);
+
+  const fetchInvoices = async () => {
+    try {
+      let query = supabase
+        .from('invoices')
+        .select('*, customers(name), projects(name)');
+
+      if (filters.status.trim()) query = query.eq('status', filters.status as InvoiceStatus);
+      if (filters.customer) query = query.eq('customer_id', filters.customer);
+
+      const { data, error } = await query
+        .order('invoice_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setInvoices(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch invoices');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCustomers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setCustomers(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch customers');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this draft invoice?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('invoices')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success('Invoice deleted');
+      fetchInvoices();
+    } catch (error) {
+      toast.error('Failed to delete invoice');
+    }
+  };
+
+  const openDialog = (invoiceId: string | null) => {
+    setEditingId(invoiceId);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Invoices</h1>
+          <p className="text-muted-foreground">
+            Bill customers and track what has been paid
+          </p>
+        </div>
+        {can('invoices.edit') && (
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Invoice
+          </Button>
+        )}
+      </div>
+
+      <InvoiceDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        invoiceId={editingId}
+        onSaved={(id) => (editingId ? fetchInvoices() : navigate(`/invoices/${id}`))}
+      />
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select
+                value={filters.status}
+                onValueChange={(value) => setFilters({ ...filters, status: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All statuses" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=" ">All statuses</SelectItem>
+                  {Object.entries(INVOICE_STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Customer</Label>
+              <SearchableSelect
+                options={customers.map((c) => ({ value: c.id, label: c.name }))}
+                value={filters.customer}
+                onValueChange={(value) => setFilters({ ...filters, customer: value })}
+                placeholder="All customers"
+                searchPlaceholder="Search customers..."
+              />
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-16 bg-muted animate-pulse rounded" />
+              ))}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Project</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoices.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground">
+                      No invoices found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  invoices.map((invoice) => (
+                    <TableRow key={invoice.id}>
+                      <TableCell className="font-medium">{invoiceLabel(invoice)}</TableCell>
+                      <TableCell className="text-sm">
+                        {formatDate(invoice.invoice_date)}
+                        {invoice.due_date && (
+                          <div className="text-xs text-muted-foreground">Due {formatDate(invoice.due_date)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{invoice.customers?.name || '-'}</TableCell>
+                      <TableCell>{invoice.projects?.name || '-'}</TableCell>
+                      <TableCell className="text-right">{formatINR(Number(invoice.total_amount))}</TableCell>
+                      <TableCell className="text-right">
+                        {invoice.status === 'draft' ? '-' : formatINR(invoiceBalance(invoice))}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={INVOICE_STATUS_VARIANTS[invoice.status]}>
+                          {INVOICE_STATUS_LABELS[invoice.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => navigate(`/invoices/${invoice.id}`)}
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          {can('invoices.edit') && invoice.status === 'draft' && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => openDialog(invoice.id)}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDelete(invoice.id)}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Invoices;
@@ -0,0 +1,316 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatINR } from '@/lib/currency';
+import { toDateValue } from '@/lib/dates';
+import { ExportFormat, ExportRow, exportRows } from '@/lib/export';
+import {
+  ADVANCE_TYPE_LABELS,
+  AdvanceSummaryRow,
+  ReportAdvance,
+  advanceSummaryTotals,
+  summariseAdvances,
+} from '@/lib/petty-cash';
+
+const PettyCashReport = () => {
+  const [advances, setAdvances] = useState<ReportAdvance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [scope, setScope] = useState<'unsettled' | 'all'>('unsettled');
+
+  useEffect(() => {
+    fetchAdvances();
+  }, [scope]);
+
+  const fetchAdvances = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('petty_cash_advance')
+        .select('id, employee_id, project_id, advance_type, advance_amount, expense_total, returned_amount, reimbursed_amount, employees(name), projects(name)')
+        .eq('approval_status', 'disbursed');
+
+      if (scope === 'unsettled') query = query.neq('status', 'closed');
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setAdvances(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch advances');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const personal = summariseAdvances(advances, 'personal');
+  const office = summariseAdvances(advances, 'office');
+  const personalTotals = advanceSummaryTotals(personal);
+  const officeTotals = advanceSummaryTotals(office);
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    if (personal.length === 0 && office.length === 0) {
+      toast.error('Nothing to export');
+      return;
+    }
+    const columns = ['Type', 'Employee / Project', 'Advances', 'Advanced', 'Spent', 'Returned', 'Reimbursed', 'Balance'];
+    const toRow = (type: 'personal' | 'office') => (row: AdvanceSummaryRow): ExportRow => ({
+      'Type': ADVANCE_TYPE_LABELS[type],
+      'Employee / Project': row.name,
+      'Advances': row.count,
+      'Advanced': row.advanced,
+      'Spent': row.spent,
+      'Returned': row.returned,
+      'Reimbursed': row.reimbursed,
+      'Balance': row.balance,
+    });
+    try {
+      await exportRows(
+        [...personal.map(toRow('personal')), ...office.map(toRow('office'))],
+        columns,
+        `petty-cash-by-type-${toDateValue()}`,
+        exportFormat,
+        'Petty Cash'
+      );
+    } catch (error) {
+      toast.error('Failed to export petty cash report');
+    }
+  };
+
+  const placeholder = (
+    <div className="space-y-2">
+      {[1, 2].map((i) => (
+        <div key={i} className="h-12 bg-muted animate-pulse rounded" />
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Petty Cash by Type</h1>
+          <p className="text-muted-foreground">
+            Personal advances to recover from employees, and office advances spent on projects
+          </p>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline">
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => handleExport('csv')}>CSV (.csv)</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Advances</Label>
+              <Select value={scope} onValueChange={(value) => setScope(value as 'unsettled' | 'all')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unsettled">Not yet closed</SelectItem>
+                  <SelectItem value="all">All, including closed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Recoverable from Employees</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatINR(personalTotals.balance)}</div>
+            <p className="text-xs text-muted-foreground">
+              {personalTotals.count} personal {personalTotals.count === 1 ? 'advance' : 'advances'}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Charged to Projects</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatINR(officeTotals.spent)}</div>
+            <p className="text-xs text-muted-foreground">
+              {officeTotals.count} office {officeTotals.count === 1 ? 'advance' : 'advances'}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Office Cash Still Held</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${officeTotals.balance < 0 ? 'text-destructive' : ''}`}>
+              {formatINR(officeTotals.balance)}
+            </div>
+            <p className="text-xs text-muted-foreground">Net of over-spend owed to staff</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Personal Advances</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? placeholder : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead className="text-right">Advances</TableHead>
+                  <TableHead className="text-right">Advanced</TableHead>
+                  <TableHead className="text-right">Repaid</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {personal.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No personal advances
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  personal.map((row) => (
+                    <TableRow key={row.id}>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell className="text-right">{row.count}</TableCell>
+                      <TableCell className="text-right">{formatINR(row.advanced)}</TableCell>
+                      <TableCell className="text-right">{formatINR(row.returned)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatINR(row.balance)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+              {personal.length > 0 && (
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right">{personalTotals.count}</TableCell>
+                    <TableCell className="text-right">{formatINR(personalTotals.advanced)}</TableCell>
+                    <TableCell className="text-right">{formatINR(personalTotals.returned)}</TableCell>
+                    <TableCell className="text-right">{formatINR(personalTotals.balance)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Office Advances</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? placeholder : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Project</TableHead>
+                  <TableHead className="text-right">Advances</TableHead>
+                  <TableHead className="text-right">Advanced</TableHead>
+                  <TableHead className="text-right">Spent</TableHead>
+                  <TableHead className="text-right">Returned</TableHead>
+                  <TableHead className="text-right">Reimbursed</TableHead>
+                  <TableHead className="text-right">Still Held</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {office.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No office advances
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  office.map((row) => (
+                    <TableRow key={row.id}>
+                      <TableCell className="font-medium">
+                        {row.id === 'none' ? (
+                          row.name
+                        ) : (
+                          <Link to={`/projects/${row.id}`} className="hover:underline">
+                            {row.name}
+                          </Link>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{row.count}</TableCell>
+                      <TableCell className="text-right">{formatINR(row.advanced)}</TableCell>
+                      <TableCell className="text-right">{formatINR(row.spent)}</TableCell>
+                      <TableCell className="text-right">{formatINR(row.returned)}</TableCell>
+                      <TableCell className="text-right">{formatINR(row.reimbursed)}</TableCell>
+                      <TableCell className={`text-right font-medium ${row.balance < 0 ? 'text-destructive' : ''}`}>
+                        {formatINR(row.balance)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+              {office.length > 0 && (
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right">{officeTotals.count}</TableCell>
+                    <TableCell className="text-right">{formatINR(officeTotals.advanced)}</TableCell>
+                    <TableCell className="text-right">{formatINR(officeTotals.spent)}</TableCell>
+                    <TableCell className="text-right">{formatINR(officeTotals.returned)}</TableCell>
+                    <TableCell className="text-right">{formatINR(officeTotals.reimbursed)}</TableCell>
+                    <TableCell className="text-right">{formatINR(officeTotals.balance)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          )}
+          <p className="mt-2 text-xs text-muted-foreground">
+            Grouped by the project each advance was issued for. Individual expense lines can be charged
+            to other projects; the project pages show where every line was charged.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PettyCashReport;
@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { addDays } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -28,46 +29,83 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Card, CardContent } from '@/components/ui/card';
-import { Plus, CheckCircle } from 'lucide-react';
+import { Plus, CheckCircle, Eye, ThumbsUp, ThumbsDown, Banknote } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatINR } from '@/lib/currency';
+import { formatDate, toDateValue } from '@/lib/dates';
 import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/lib/auth-context';
+import { AdvanceSettlementDialog } from '@/components/AdvanceSettlementDialog';
+import {
+  ADVANCE_STAGE_LABELS,
+  ADVANCE_STATUS_LABELS,
+  ADVANCE_STATUS_VARIANTS,
+  ADVANCE_TYPE_LABELS,
+  APPROVAL_STATUS_LABELS,
+  APPROVAL_STATUS_VARIANTS,
+  AdvanceHeadroom,
+  AdvanceStatus,
+  AdvanceType,
+  ApprovalStatus,
+  advanceBalance,
+  advanceStage,
+  isAdvanceOverdue,
+} from '@/lib/petty-cash';
 
 interface Advance {
   id: string;
   employee_id: string;
   project_id: string | null;
+  advance_type: AdvanceType;
   advance_amount: number;
   expense_total: number;
   returned_amount: number;
-  status: string;
+  reimbursed_amount: number;
+  status: AdvanceStatus;
+  approval_status: ApprovalStatus;
+  due_date: string;
+  disbursed_on: string | null;
+  decision_notes: string | null;
+  requested_by: string | null;
   notes: string;
   employees?: { name: string };
   projects?: { name: string };
 }
 
+type DecisionAction = 'approve' | 'reject' | 'disburse';
+
+const DECISION_TITLES: Record<DecisionAction, string> = {
+  approve: 'Approve Advance',
+  reject: 'Reject Advance',
+  disburse: 'Disburse Advance',
+};
+
+const defaultDueDate = () => toDateValue(addDays(new Date(), 30));
+
 const PettyCash = () => {
+  const { can, user } = useAuth();
   const [advances, setAdvances] = useState<Advance[]>([]);
   const [employees, setEmployees] = useState<any[]>([]);
   const [projects, setProjects] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [completeDialogOpen, setCompleteDialogOpen] = useState(false);
+  const [settlementOpen, setSettlementOpen] = useState(false);
   const [selectedAdvance, setSelectedAdvance] = useState<Advance | null>(null);
+  const [filters, setFilters] = useState({ employee: ' ', type: ' ', status: ' ' });
+  const [headroom, setHeadroom] = useState<AdvanceHeadroom | null>(null);
+  const [decision, setDecision] = useState<{ advance: Advance; action: DecisionAction } | null>(null);
+  const [decisionNotes, setDecisionNotes] = useState('');
+  const [disbursedOn, setDisbursedOn] = useState(toDateValue());
 
   const [formData, setFormData] = useState({
     employee_id: '',
     project_id: '',
     advance_amount: '',
-    type: 'personal' as 'personal' | 'office',
+    type: 'personal' as AdvanceType,
+    due_date: defaultDueDate(),
     notes: '',
   });
 
-  const [completeData, setCompleteData] = useState({
-    expense_total: '',
-    returned_amount: '',
-  });
-
   useEffect(() => {
     fetchAdvances();
     fetchEmployees();
@@ -118,6 +156,23 @@ const PettyCash = () => {
     }
   };
 
+  // The database enforces the same checks; fetching them up front lets the form explain why
+  const fetchHeadroom = async (employeeId: string) => {
+    setHeadroom(null);
+    try {
+      const { data, error } = await supabase.rpc('petty_cash_headroom', { _employee_id: employeeId });
+      if (error) throw error;
+      setHeadroom(data?.[0] ?? null);
+    } catch (error) {
+      toast.error('Failed to fetch advance limits');
+    }
+  };
+
+  const amount = parseFloat(formData.advance_amount) || 0;
+  const overLimit = headroom?.max_outstanding != null
+    && Number(headroom.outstanding) + amount > Number(headroom.max_outstanding);
+  const needsApproval = headroom?.approval_threshold != null && amount > Number(headroom.approval_threshold);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -126,83 +181,132 @@ const PettyCash = () => {
       return;
     }
 
+    if (headroom?.overdue_count) {
+      toast.error('This employee has overdue advances; settle them before issuing another');
+      return;
+    }
+
+    if (overLimit) {
+      toast.error(`This advance would take the employee over their limit of ${formatINR(Number(headroom.max_outstanding))}`);
+      return;
+    }
+
     try {
       const advanceData = {
         employee_id: formData.employee_id,
         project_id: formData.type === 'office' ? formData.project_id : null,
+        advance_type: formData.type,
         advance_amount: parseFloat(formData.advance_amount),
         expense_total: 0,
         returned_amount: 0,
-        status: 'open' as 'open' | 'partially_returned' | 'closed',
+        status: 'open' as AdvanceStatus,
+        due_date: formData.due_date,
         notes: formData.notes,
       };
 
-      const { error } = await supabase
+      // The database decides whether the advance needs approval first
+      const { data, error } = await supabase
         .from('petty_cash_advance')
-        .insert([advanceData]);
+        .insert([advanceData])
+        .select('approval_status')
+        .single();
 
       if (error) throw error;
-      toast.success('Petty cash advance created successfully');
+      toast.success(
+        data.approval_status === 'requested'
+          ? 'Advance requested; it will be paid out once approved'
+          : 'Petty cash advance created successfully'
+      );
       setDialogOpen(false);
       resetForm();
       fetchAdvances();
-    } catch (error: any) {
-      toast.error(error.message || 'Failed to create advance');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create advance');
     }
   };
 
-  const handleComplete = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const resetForm = () => {
+    setFormData({
+      employee_id: '',
+      project_id: '',
+      advance_amount: '',
+      type: 'personal',
+      due_date: defaultDueDate(),
+      notes: '',
+    });
+    setHeadroom(null);
+  };
 
-    if (!selectedAdvance) return;
+  const openDecision = (advance: Advance, action: DecisionAction) => {
+    setDecision({ advance, action });
+    setDecisionNotes('');
+    setDisbursedOn(toDateValue());
+  };
 
-    try {
-      const expenseTotal = parseFloat(completeData.expense_total);
-      const returnedAmount = parseFloat(completeData.returned_amount);
-      const advanceAmount = Number(selectedAdvance.advance_amount);
+  const handleDecision = async () => {
+    if (!decision) return;
+    if (decision.action === 'reject' && !decisionNotes.trim()) {
+      toast.error('Give a reason for rejecting the advance');
+      return;
+    }
 
-      if (expenseTotal + returnedAmount !== advanceAmount) {
-        toast.error('Expense + Returned amount must equal Advance amount');
-        return;
+    try {
+      // Limits are checked again at payout, since other advances may have gone out since approval
+      if (decision.action === 'disburse') {
+        const { data, error } = await supabase.rpc('petty_cash_headroom', {
+          _employee_id: decision.advance.employee_id,
+          _exclude_advance_id: decision.advance.id,
+        });
+        if (error) throw error;
+        const current = data?.[0];
+        if (current?.overdue_count) {
+          toast.error('This employee has overdue advances; settle them before paying this one out');
+          return;
+        }
+        if (current?.max_outstanding != null
+          && Number(current.outstanding) + Number(decision.advance.advance_amount) > Number(current.max_outstanding)) {
+          toast.error(`Paying this out would take the employee over their limit of ${formatINR(Number(current.max_outstanding))}`);
+          return;
+        }
       }
 
+      const update = decision.action === 'disburse'
+        ? { approval_status: 'disbursed' as ApprovalStatus, disbursed_on: disbursedOn }
+        : {
+          approval_status: (decision.action === 'approve' ? 'approved' : 'rejected') as ApprovalStatus,
+          decision_notes: decisionNotes.trim() || null,
+        };
+
       const { error } = await supabase
         .from('petty_cash_advance')
-        .update({
-          expense_total: expenseTotal,
-          returned_amount: returnedAmount,
-          status: 'closed',
-        })
-        .eq('id', selectedAdvance.id);
+        .update(update)
+        .eq('id', decision.advance.id);
 
       if (error) throw error;
-      toast.success('Petty cash transaction completed');
-      setCompleteDialogOpen(false);
-      setSelectedAdvance(null);
-      setCompleteData({ expense_total: '', returned_amount: '' });
+      toast.success(
+        decision.action === 'disburse'
+          ? 'Advance disbursed'
+          : decision.action === 'approve' ? 'Advance approved' : 'Advance rejected'
+      );
+      setDecision(null);
       fetchAdvances();
-    } catch (error: any) {
-      toast.error(error.message || 'Failed to complete transaction');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update advance');
     }
   };
 
-  const resetForm = () => {
-    setFormData({
-      employee_id: '',
-      project_id: '',
-      advance_amount: '',
-      type: 'personal',
-      notes: '',
-    });
-  };
+  const today = toDateValue();
 
-  const openCompleteDialog = (advance: Advance) => {
+  // " " is the Select's "All" option
+  const filteredAdvances = advances.filter((adv) =>
+    (filters.employee === ' ' || adv.employee_id === filters.employee)
+    && (filters.type === ' ' || adv.advance_type === filters.type)
+    && (filters.status === ' ' || advanceStage(adv) === filters.status)
+  );
+
+  const openSettlement = (advance: Advance) => {
     setSelectedAdvance(advance);
-    setCompleteData({
-      expense_total: '',
-      returned_amount: '',
-    });
-    setCompleteDialogOpen(true);
+    setSettlementOpen(true);
   };
 
   return (
@@ -215,12 +319,14 @@ const PettyCash = () => {
           </p>
         </div>
         <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="mr-2 h-4 w-4" />
-              New Transaction
-            </Button>
-          </DialogTrigger>
+          {can('petty_cash.edit') && (
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                New Transaction
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent className="max-w-md">
             <DialogHeader>
               <DialogTitle>New Petty Cash Transaction</DialogTitle>
@@ -233,7 +339,10 @@ const PettyCash = () => {
                 <Label htmlFor="employee">Employee *</Label>
                 <Select
                   value={formData.employee_id}
-                  onValueChange={(value) => setFormData({ ...formData, employee_id: value })}
+                  onValueChange={(value) => {
+                    setFormData({ ...formData, employee_id: value });
+                    fetchHeadroom(value);
+                  }}
                   required
                 >
                   <SelectTrigger>
@@ -245,6 +354,20 @@ const PettyCash = () => {
                     ))}
                   </SelectContent>
                 </Select>
+                {headroom && (
+                  <div className="text-xs text-muted-foreground space-y-1">
+                    <p>
+                      {formatINR(Number(headroom.outstanding))} outstanding
+                      {headroom.max_outstanding != null && ` of a ${formatINR(Number(headroom.max_outstanding))} limit`}
+                    </p>
+                    {headroom.overdue_count > 0 && (
+                      <p className="text-destructive">
+                        {headroom.overdue_count} overdue {headroom.overdue_count === 1 ? 'advance' : 'advances'} must be
+                        settled before another can be issued
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
               <div className="space-y-2">
                 <Label htmlFor="type">Type *</Label>
@@ -260,6 +383,11 @@ const PettyCash = () => {
                     <SelectItem value="office">Office</SelectItem>
                   </SelectContent>
                 </Select>
+                <p className="text-xs text-muted-foreground">
+                  {formData.type === 'personal'
+                    ? 'Lent to the employee and recovered from them in full'
+                    : 'Spent on company work and charged to the project'}
+                </p>
               </div>
               {formData.type === 'office' && (
                 <div className="space-y-2">
@@ -290,6 +418,24 @@ const PettyCash = () => {
                   onChange={(e) => setFormData({ ...formData, advance_amount: e.target.value })}
                   required
                 />
+                {overLimit && (
+                  <p className="text-xs text-destructive">Over the employee's advance limit</p>
+                )}
+                {!overLimit && needsApproval && (
+                  <p className="text-xs text-muted-foreground">
+                    Above {formatINR(Number(headroom.approval_threshold))}, so it will be paid out once approved
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="due_date">Settle By *</Label>
+                <Input
+                  id="due_date"
+                  type="date"
+                  value={formData.due_date}
+                  onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+                  required
+                />
               </div>
               <div className="space-y-2">
                 <Label htmlFor="notes">Notes</Label>
@@ -304,62 +450,125 @@ const PettyCash = () => {
                 <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
                   Cancel
                 </Button>
-                <Button type="submit">Create Advance</Button>
+                <Button type="submit" disabled={overLimit || !!headroom?.overdue_count}>
+                  {needsApproval ? 'Request Advance' : 'Create Advance'}
+                </Button>
               </div>
             </form>
           </DialogContent>
         </Dialog>
       </div>
 
-      <Dialog open={completeDialogOpen} onOpenChange={setCompleteDialogOpen}>
+      <AdvanceSettlementDialog
+        open={settlementOpen}
+        onOpenChange={setSettlementOpen}
+        advance={selectedAdvance}
+        projects={projects}
+        canEdit={can('petty_cash.edit')}
+        canDelete={can('petty_cash.delete')}
+        onChanged={fetchAdvances}
+      />
+
+      <Dialog open={!!decision} onOpenChange={(open) => !open && setDecision(null)}>
         <DialogContent className="max-w-md">
-          <DialogHeader>
-            <DialogTitle>Complete Transaction</DialogTitle>
-            <DialogDescription>
-              Enter the final amounts for this advance
-            </DialogDescription>
-          </DialogHeader>
-          {selectedAdvance && (
-            <form onSubmit={handleComplete} className="space-y-4">
-              <div className="p-3 bg-muted rounded-lg space-y-1">
-                <p className="text-sm text-muted-foreground">Employee</p>
-                <p className="font-medium">{selectedAdvance.employees?.name}</p>
-                <p className="text-sm text-muted-foreground mt-2">Advance Amount</p>
-                <p className="font-medium">{formatINR(Number(selectedAdvance.advance_amount))}</p>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="expense_total">Amount Spent (₹) *</Label>
-                <Input
-                  id="expense_total"
-                  type="number"
-                  step="0.01"
-                  value={completeData.expense_total}
-                  onChange={(e) => setCompleteData({ ...completeData, expense_total: e.target.value })}
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="returned_amount">Amount Returned (₹) *</Label>
-                <Input
-                  id="returned_amount"
-                  type="number"
-                  step="0.01"
-                  value={completeData.returned_amount}
-                  onChange={(e) => setCompleteData({ ...completeData, returned_amount: e.target.value })}
-                  required
-                />
-              </div>
+          {decision && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{DECISION_TITLES[decision.action]}</DialogTitle>
+                <DialogDescription>
+                  {formatINR(Number(decision.advance.advance_amount))} to {decision.advance.employees?.name}
+                </DialogDescription>
+              </DialogHeader>
+              {decision.action === 'disburse' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="disbursed_on">Paid Out On *</Label>
+                  <Input
+                    id="disbursed_on"
+                    type="date"
+                    value={disbursedOn}
+                    onChange={(e) => setDisbursedOn(e.target.value)}
+                    required
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    The advance is posted to the cash ledger on this date, and its settle-by date moves with it.
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="decision_notes">{decision.action === 'reject' ? 'Reason *' : 'Notes'}</Label>
+                  <Textarea
+                    id="decision_notes"
+                    value={decisionNotes}
+                    onChange={(e) => setDecisionNotes(e.target.value)}
+                    rows={2}
+                  />
+                </div>
+              )}
               <div className="flex justify-end gap-2">
-                <Button type="button" variant="outline" onClick={() => setCompleteDialogOpen(false)}>
+                <Button type="button" variant="outline" onClick={() => setDecision(null)}>
                   Cancel
                 </Button>
-                <Button type="submit">Complete</Button>
+                <Button
+                  variant={decision.action === 'reject' ? 'destructive' : 'default'}
+                  onClick={handleDecision}
+                >
+                  {decision.action === 'approve' ? 'Approve' : decision.action === 'reject' ? 'Reject' : 'Disburse'}
+                </Button>
               </div>
-            </form>
+            </>
           )}
         </DialogContent>
       </Dialog>
 
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Employee</Label>
+              <Select value={filters.employee} onValueChange={(value) => setFilters({ ...filters, employee: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All employees" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=" ">All employees</SelectItem>
+                  {employees.map((e) => (
+                    <SelectItem key={e.id} value={e.id}>{e.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={filters.type} onValueChange={(value) => setFilters({ ...filters, type: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All types" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=" ">All types</SelectItem>
+                  {Object.entries(ADVANCE_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={filters.status} onValueChange={(value) => setFilters({ ...filters, status: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All statuses" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=" ">All statuses</SelectItem>
+                  {Object.entries(ADVANCE_STAGE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardContent className="pt-6">
           {loading ? (
@@ -373,25 +582,31 @@ const PettyCash = () => {
               <TableHeader>
                 <TableRow>
                   <TableHead>Employee</TableHead>
+                  <TableHead>Type</TableHead>
                   <TableHead>Project</TableHead>
                   <TableHead className="text-right">Advance</TableHead>
                   <TableHead className="text-right">Spent</TableHead>
                   <TableHead className="text-right">Returned</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>Settle By</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {advances.length === 0 ? (
+                {filteredAdvances.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    <TableCell colSpan={10} className="text-center text-muted-foreground">
                       No advances found
                     </TableCell>
                   </TableRow>
                 ) : (
-                  advances.map((adv) => (
+                  filteredAdvances.map((adv) => (
                     <TableRow key={adv.id}>
                       <TableCell className="font-medium">{adv.employees?.name}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{ADVANCE_TYPE_LABELS[adv.advance_type]}</Badge>
+                      </TableCell>
                       <TableCell>{adv.projects?.name || '-'}</TableCell>
                       <TableCell className="text-right">
                         {formatINR(Number(adv.advance_amount))}
@@ -402,19 +617,63 @@ const PettyCash = () => {
                       <TableCell className="text-right">
                         {formatINR(Number(adv.returned_amount))}
                       </TableCell>
+                      <TableCell className="text-right">
+                        {advanceBalance(adv) < 0 ? (
+                          <span className="text-destructive">
+                            {formatINR(-advanceBalance(adv))} owed
+                          </span>
+                        ) : (
+                          formatINR(advanceBalance(adv))
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {formatDate(adv.due_date)}
+                        {isAdvanceOverdue(adv, today) && (
+                          <div className="text-xs text-destructive">Overdue</div>
+                        )}
+                      </TableCell>
                       <TableCell>
-                        <Badge variant={adv.status === 'closed' ? 'secondary' : 'default'}>
-                          {adv.status}
-                        </Badge>
+                        {adv.approval_status === 'disbursed' ? (
+                          <Badge variant={ADVANCE_STATUS_VARIANTS[adv.status]}>
+                            {ADVANCE_STATUS_LABELS[adv.status]}
+                          </Badge>
+                        ) : (
+                          <Badge variant={APPROVAL_STATUS_VARIANTS[adv.approval_status]}>
+                            {APPROVAL_STATUS_LABELS[adv.approval_status]}
+                          </Badge>
+                        )}
+                        {adv.decision_notes && (
+                          <div className="text-xs text-muted-foreground">{adv.decision_notes}</div>
+                        )}
                       </TableCell>
-                      <TableCell className="text-right">
-                        {adv.status !== 'closed' && (
+                      <TableCell className="text-right whitespace-nowrap">
+                        {adv.approval_status === 'requested' && can('petty_cash.approve') && adv.requested_by !== user?.id && (
+                          <>
+                            <Button variant="ghost" size="icon" title="Approve" onClick={() => openDecision(adv, 'approve')}>
+                              <ThumbsUp className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" title="Reject" onClick={() => openDecision(adv, 'reject')}>
+                              <ThumbsDown className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </>
+                        )}
+                        {adv.approval_status === 'approved' && can('petty_cash.edit') && (
+                          <Button variant="ghost" size="icon" title="Disburse" onClick={() => openDecision(adv, 'disburse')}>
+                            <Banknote className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {adv.approval_status === 'disbursed' && (
                           <Button
                             variant="ghost"
                             size="icon"
-                            onClick={() => openCompleteDialog(adv)}
+                            title={adv.status !== 'closed' && can('petty_cash.edit') ? 'Settle' : 'View expenses'}
+                            onClick={() => openSettlement(adv)}
                           >
-                            <CheckCircle className="h-4 w-4" />
+                            {adv.status !== 'closed' && can('petty_cash.edit') ? (
+                              <CheckCircle className="h-4 w-4" />
+                            ) : (
+                              <Eye className="h-4 w-4" />
+                            )}
                           </Button>
                         )}
                       </TableCell>
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation, Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -12,20 +12,75 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, ArrowDown, ArrowUp } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowLeft, ArrowDown, ArrowUp, Pencil, Plus } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
 import { toast } from 'sonner';
 import { formatINR } from '@/lib/currency';
+import { formatDate } from '@/lib/dates';
+import { useAuth } from '@/lib/auth-context';
+import { EntityHistory } from '@/components/EntityHistory';
+import { InvoiceDialog } from '@/components/InvoiceDialog';
+import { PurchaseOrderDialog } from '@/components/PurchaseOrderDialog';
+import { ProjectBudgetDialog } from '@/components/ProjectBudgetDialog';
+import { PaymentScheduleDialog } from '@/components/PaymentScheduleDialog';
+import { COST_CATEGORY_LABELS, CategoryCost, budgetRow, budgetRows } from '@/lib/budgets';
+import {
+  MILESTONE_STATUS_LABELS,
+  MILESTONE_STATUS_VARIANTS,
+  PaymentMilestone,
+  milestoneBalance,
+  milestoneStatus,
+} from '@/lib/milestones';
+import { ProjectFinancials, formatMarginPercent, projectPnl } from '@/lib/profitability';
+import { FUND_SOURCE_LABELS, FundSource } from '@/lib/transactions';
+import {
+  INVOICE_STATUS_LABELS,
+  INVOICE_STATUS_VARIANTS,
+  InvoiceStatus,
+  invoiceBalance,
+  invoiceLabel,
+} from '@/lib/invoices';
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  PURCHASE_ORDER_STATUS_VARIANTS,
+  PurchaseOrderStatus,
+  commitmentSummary,
+  purchaseOrderBalance,
+} from '@/lib/purchase-orders';
 
 interface Transaction {
   id: string;
   transaction_type: string;
-  fund_source: string;
+  fund_source: FundSource;
   amount: number;
   payment_mode: string;
   reason: string;
+  transaction_date: string;
   created_at: string;
 }
 
+interface Invoice {
+  id: string;
+  invoice_number: string | null;
+  invoice_date: string;
+  due_date: string | null;
+  status: InvoiceStatus;
+  total_amount: number;
+  amount_paid: number;
+}
+
+interface PurchaseOrder {
+  id: string;
+  po_number: string | null;
+  order_date: string;
+  expected_delivery_date: string | null;
+  status: PurchaseOrderStatus;
+  total_amount: number;
+  amount_paid: number;
+  suppliers?: { name: string };
+}
+
 interface Project {
   id: string;
   name: string;
@@ -33,23 +88,49 @@ interface Project {
   estimated_total: number;
   remaining_amount: number;
   status: string;
+  customer_id: string;
   customers?: { name: string };
 }
 
 const ProjectDetails = () => {
   const { id } = useParams();
   const navigate = useNavigate();
+  const { hash } = useLocation();
+  const { can } = useAuth();
   const [project, setProject] = useState<Project | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [invoiceDialogOpen, setInvoiceDialogOpen] = useState(false);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [purchaseOrderDialogOpen, setPurchaseOrderDialogOpen] = useState(false);
+  const [categoryCosts, setCategoryCosts] = useState<CategoryCost[]>([]);
+  const [budgetDialogOpen, setBudgetDialogOpen] = useState(false);
+  const [milestones, setMilestones] = useState<PaymentMilestone[]>([]);
+  const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false);
+  const [financials, setFinancials] = useState<ProjectFinancials | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     if (id) {
       fetchProjectDetails();
       fetchTransactions();
+      fetchInvoices();
+      fetchPurchaseOrders();
+      fetchCategoryCosts();
+      fetchMilestones();
+      fetchFinancials();
     }
   }, [id]);
 
+  // Audit log links point at a single transaction via #transaction-<id>
+  const highlightedId = hash.startsWith('#transaction-') ? hash.slice('#transaction-'.length) : null;
+
+  useEffect(() => {
+    if (highlightedId && transactions.length > 0) {
+      document.getElementById(`transaction-${highlightedId}`)?.scrollIntoView({ block: 'center' });
+    }
+  }, [highlightedId, transactions]);
+
   const fetchProjectDetails = async () => {
     try {
       const { data, error } = await supabase
@@ -71,6 +152,7 @@ const ProjectDetails = () => {
         .from('transactions')
         .select('*')
         .eq('project_id', id)
+        .order('transaction_date', { ascending: false })
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -82,16 +164,92 @@ const ProjectDetails = () => {
     }
   };
 
+  const fetchInvoices = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('id, invoice_number, invoice_date, due_date, status, total_amount, amount_paid')
+        .eq('project_id', id)
+        .order('invoice_date', { ascending: false });
+
+      if (error) throw error;
+      setInvoices(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch invoices');
+    }
+  };
+
+  const fetchPurchaseOrders = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select('id, po_number, order_date, expected_delivery_date, status, total_amount, amount_paid, suppliers(name)')
+        .eq('project_id', id)
+        .order('order_date', { ascending: false });
+
+      if (error) throw error;
+      setPurchaseOrders(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch purchase orders');
+    }
+  };
+
+  const fetchCategoryCosts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('project_category_costs')
+        .select('category, budget, actual')
+        .eq('project_id', id);
+
+      if (error) throw error;
+      setCategoryCosts(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch budget');
+    }
+  };
+
+  const fetchMilestones = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('payment_milestones')
+        .select('*')
+        .eq('project_id', id)
+        .order('position');
+
+      if (error) throw error;
+      setMilestones(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch payment schedule');
+    }
+  };
+
+  const fetchFinancials = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('project_financials')
+        .select('*')
+        .eq('project_id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setFinancials(data);
+    } catch (error) {
+      toast.error('Failed to fetch project P&L');
+    }
+  };
+
   if (loading || !project) {
     return <div>Loading...</div>;
   }
 
-  const totalValue = Number(project.estimated_total);
-  const paid = transactions
-    .filter((t) => t.transaction_type === 'credit')
-    .reduce((sum, t) => sum + Number(t.amount), 0);
-  const pending = Number(project.remaining_amount);
-  const profit = paid - (totalValue - pending);
+  const pnl = projectPnl(financials);
+  const commitments = commitmentSummary(purchaseOrders);
+  const budget = budgetRows(categoryCosts);
+  const budgetTotal = budgetRow({
+    category: null,
+    budget: budget.reduce((sum, row) => sum + row.budget, 0),
+    actual: budget.reduce((sum, row) => sum + row.actual, 0),
+  });
 
   return (
     <div className="space-y-6">
@@ -102,7 +260,10 @@ const ProjectDetails = () => {
         <div>
           <h1 className="text-3xl font-bold tracking-tight">{project.name}</h1>
           <p className="text-muted-foreground">
-            {project.customers?.name} • {project.status}
+            <Link to={`/customers/${project.customer_id}`} className="hover:underline">
+              {project.customers?.name}
+            </Link>{' '}
+            • {project.status}
           </p>
         </div>
       </div>
@@ -110,95 +271,402 @@ const ProjectDetails = () => {
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Total Value</CardTitle>
+            <CardTitle className="text-sm font-medium">Revenue Billed</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatINR(totalValue)}</div>
+            <div className="text-2xl font-bold">{formatINR(pnl.revenueBilled)}</div>
+            <p className="text-xs text-muted-foreground">
+              before GST, of {formatINR(Number(project.estimated_total))} project value
+            </p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Paid</CardTitle>
+            <CardTitle className="text-sm font-medium">Cash Received</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-green-600">{formatINR(paid)}</div>
+            <div className="text-2xl font-bold text-green-600">{formatINR(pnl.cashReceived)}</div>
+            <p className="text-xs text-orange-600">
+              {formatINR(Number(project.remaining_amount))} still receivable
+            </p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Pending</CardTitle>
+            <CardTitle className="text-sm font-medium">Direct Costs</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-orange-600">{formatINR(pending)}</div>
+            <div className="text-2xl font-bold text-destructive">{formatINR(pnl.directCosts)}</div>
+            <p className="text-xs text-muted-foreground">
+              {formatINR(pnl.transactionCosts)} paid out, {formatINR(pnl.pettyCashCosts)} petty cash
+            </p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Profit</CardTitle>
+            <CardTitle className="text-sm font-medium">Gross Margin</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-blue-600">{formatINR(profit)}</div>
+            <div className={`text-2xl font-bold ${pnl.grossMargin < 0 ? 'text-destructive' : 'text-blue-600'}`}>
+              {formatINR(pnl.grossMargin)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {formatMarginPercent(pnl.marginPercent)} of revenue billed
+            </p>
           </CardContent>
         </Card>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Transactions</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Date</TableHead>
-                <TableHead>Type</TableHead>
-                <TableHead>Fund</TableHead>
-                <TableHead className="text-right">Amount</TableHead>
-                <TableHead>Mode</TableHead>
-                <TableHead>Reason</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {transactions.length === 0 ? (
-                <TableRow>
-                  <TableCell colSpan={6} className="text-center text-muted-foreground">
-                    No transactions found
-                  </TableCell>
-                </TableRow>
-              ) : (
-                transactions.map((tx) => (
-                  <TableRow key={tx.id}>
-                    <TableCell className="text-sm">
-                      {new Date(tx.created_at).toLocaleDateString('en-IN')}
-                    </TableCell>
-                    <TableCell>
-                      <Badge
-                        variant={tx.transaction_type === 'credit' ? 'default' : 'destructive'}
-                        className="gap-1"
+      <Tabs defaultValue="transactions">
+        <TabsList>
+          <TabsTrigger value="transactions">Transactions</TabsTrigger>
+          <TabsTrigger value="invoices">Invoices</TabsTrigger>
+          <TabsTrigger value="payment-schedule">Payment Schedule</TabsTrigger>
+          <TabsTrigger value="purchase-orders">Purchase Orders</TabsTrigger>
+          <TabsTrigger value="budget">Budget</TabsTrigger>
+          {can('audit_log.view') && <TabsTrigger value="history">History</TabsTrigger>}
+        </TabsList>
+        <TabsContent value="transactions">
+          <Card>
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Fund</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Mode</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transactions.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No transactions found
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    transactions.map((tx) => (
+                      <TableRow
+                        key={tx.id}
+                        id={`transaction-${tx.id}`}
+                        className={tx.id === highlightedId ? 'bg-muted' : undefined}
                       >
-                        {tx.transaction_type === 'credit' ? (
-                          <ArrowDown className="h-3 w-3" />
-                        ) : (
-                          <ArrowUp className="h-3 w-3" />
-                        )}
-                        {tx.transaction_type}
-                      </Badge>
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant="outline">{tx.fund_source}</Badge>
-                    </TableCell>
-                    <TableCell className="text-right font-medium">
-                      {formatINR(Number(tx.amount))}
-                    </TableCell>
-                    <TableCell className="text-sm">{tx.payment_mode}</TableCell>
-                    <TableCell className="text-sm">{tx.reason}</TableCell>
+                        <TableCell className="text-sm">
+                          {formatDate(tx.transaction_date)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={tx.transaction_type === 'credit' ? 'default' : 'destructive'}
+                            className="gap-1"
+                          >
+                            {tx.transaction_type === 'credit' ? (
+                              <ArrowDown className="h-3 w-3" />
+                            ) : (
+                              <ArrowUp className="h-3 w-3" />
+                            )}
+                            {tx.transaction_type}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{FUND_SOURCE_LABELS[tx.fund_source]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatINR(Number(tx.amount))}
+                        </TableCell>
+                        <TableCell className="text-sm">{tx.payment_mode}</TableCell>
+                        <TableCell className="text-sm">{tx.reason}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="invoices">
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              {can('invoices.edit') && (
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={() => setInvoiceDialogOpen(true)}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    New Invoice
+                  </Button>
+                </div>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Number</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                    <TableHead>Status</TableHead>
                   </TableRow>
-                ))
+                </TableHeader>
+                <TableBody>
+                  {invoices.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No invoices found
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    invoices.map((invoice) => (
+                      <TableRow key={invoice.id}>
+                        <TableCell className="font-medium">
+                          <Link to={`/invoices/${invoice.id}`} className="text-primary hover:underline">
+                            {invoiceLabel(invoice)}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-sm">{formatDate(invoice.invoice_date)}</TableCell>
+                        <TableCell className="text-sm">{formatDate(invoice.due_date)}</TableCell>
+                        <TableCell className="text-right">{formatINR(Number(invoice.total_amount))}</TableCell>
+                        <TableCell className="text-right">
+                          {invoice.status === 'draft' ? '-' : formatINR(invoiceBalance(invoice))}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={INVOICE_STATUS_VARIANTS[invoice.status]}>
+                            {INVOICE_STATUS_LABELS[invoice.status]}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+          <InvoiceDialog
+            open={invoiceDialogOpen}
+            onOpenChange={setInvoiceDialogOpen}
+            defaultProjectId={project.id}
+            onSaved={(invoiceId) => navigate(`/invoices/${invoiceId}`)}
+          />
+        </TabsContent>
+        <TabsContent value="payment-schedule">
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              {can('projects.edit') && (
+                <div className="flex justify-end">
+                  <Button size="sm" variant="outline" onClick={() => setScheduleDialogOpen(true)}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit Schedule
+                  </Button>
+                </div>
               )}
-            </TableBody>
-          </Table>
-        </CardContent>
-      </Card>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Milestone</TableHead>
+                    <TableHead>Due Date</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {milestones.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No payment schedule set up
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    milestones.map((milestone) => {
+                      const status = milestoneStatus(milestone);
+                      return (
+                        <TableRow key={milestone.id}>
+                          <TableCell className="font-medium">{milestone.name}</TableCell>
+                          <TableCell>{formatDate(milestone.due_date)}</TableCell>
+                          <TableCell className="text-right">{formatINR(Number(milestone.amount))}</TableCell>
+                          <TableCell className="text-right">{formatINR(Number(milestone.amount_received))}</TableCell>
+                          <TableCell className="text-right">{formatINR(milestoneBalance(milestone))}</TableCell>
+                          <TableCell>
+                            <Badge variant={MILESTONE_STATUS_VARIANTS[status]}>
+                              {MILESTONE_STATUS_LABELS[status]}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+          <PaymentScheduleDialog
+            open={scheduleDialogOpen}
+            onOpenChange={setScheduleDialogOpen}
+            projectId={project.id}
+            projectValue={Number(project.estimated_total)}
+            onSaved={fetchMilestones}
+          />
+        </TabsContent>
+        <TabsContent value="purchase-orders">
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex gap-8 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Committed</p>
+                    <p className="text-lg font-semibold">{formatINR(commitments.committed)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Paid</p>
+                    <p className="text-lg font-semibold text-green-600">{formatINR(commitments.paid)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Still to Pay</p>
+                    <p className="text-lg font-semibold text-orange-600">{formatINR(commitments.outstanding)}</p>
+                  </div>
+                </div>
+                {can('purchase_orders.edit') && (
+                  <Button size="sm" onClick={() => setPurchaseOrderDialogOpen(true)}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    New Purchase Order
+                  </Button>
+                )}
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Number</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Delivery</TableHead>
+                    <TableHead className="text-right">Committed</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="text-right">Unpaid</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {purchaseOrders.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center text-muted-foreground">
+                        No purchase orders found
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    purchaseOrders.map((po) => (
+                      <TableRow key={po.id}>
+                        <TableCell className="font-medium">
+                          <Link to={`/purchase-orders/${po.id}`} className="text-primary hover:underline">
+                            {po.po_number}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{po.suppliers?.name || '-'}</TableCell>
+                        <TableCell className="text-sm">{formatDate(po.order_date)}</TableCell>
+                        <TableCell className="text-sm">{formatDate(po.expected_delivery_date)}</TableCell>
+                        <TableCell className="text-right">{formatINR(Number(po.total_amount))}</TableCell>
+                        <TableCell className="text-right">{formatINR(Number(po.amount_paid))}</TableCell>
+                        <TableCell className="text-right">{formatINR(purchaseOrderBalance(po))}</TableCell>
+                        <TableCell>
+                          <Badge variant={PURCHASE_ORDER_STATUS_VARIANTS[po.status]}>
+                            {PURCHASE_ORDER_STATUS_LABELS[po.status]}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+          <PurchaseOrderDialog
+            open={purchaseOrderDialogOpen}
+            onOpenChange={setPurchaseOrderDialogOpen}
+            defaultProjectId={project.id}
+            onSaved={(purchaseOrderId) => navigate(`/purchase-orders/${purchaseOrderId}`)}
+          />
+        </TabsContent>
+        <TabsContent value="budget">
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              {can('projects.edit') && (
+                <div className="flex justify-end">
+                  <Button size="sm" variant="outline" onClick={() => setBudgetDialogOpen(true)}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit Budget
+                  </Button>
+                </div>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Budget</TableHead>
+                    <TableHead className="text-right">Actual</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                    <TableHead className="w-48">Used</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {budget.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        No budget or costs recorded
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    [...budget, budgetTotal].map((row, index) => {
+                      const isTotal = index === budget.length;
+                      return (
+                        <TableRow key={isTotal ? 'total' : row.category ?? 'untagged'} className={isTotal ? 'font-medium' : undefined}>
+                          <TableCell>
+                            {isTotal ? 'Total' : row.category ? COST_CATEGORY_LABELS[row.category] : 'Uncategorised'}
+                          </TableCell>
+                          <TableCell className="text-right">{row.budget > 0 ? formatINR(row.budget) : '-'}</TableCell>
+                          <TableCell className="text-right">{formatINR(row.actual)}</TableCell>
+                          <TableCell className={`text-right ${row.variance < 0 ? 'text-destructive' : ''}`}>
+                            {row.budget > 0 ? formatINR(row.variance) : '-'}
+                          </TableCell>
+                          <TableCell>
+                            {row.percentUsed === null ? (
+                              <span className="text-sm text-muted-foreground">No budget</span>
+                            ) : (
+                              <div className="flex items-center gap-2">
+                                <Progress
+                                  value={Math.min(row.percentUsed, 100)}
+                                  className={row.overBudget ? '[&>div]:bg-destructive' : undefined}
+                                />
+                                <span className={`text-sm w-12 text-right ${row.overBudget ? 'text-destructive' : ''}`}>
+                                  {Math.round(row.percentUsed)}%
+                                </span>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+          <ProjectBudgetDialog
+            open={budgetDialogOpen}
+            onOpenChange={setBudgetDialogOpen}
+            projectId={project.id}
+            onSaved={fetchCategoryCosts}
+          />
+        </TabsContent>
+        {can('audit_log.view') && (
+          <TabsContent value="history">
+            <Card>
+              <CardContent className="pt-6">
+                <EntityHistory referenceKey="project_id" id={project.id} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+      </Tabs>
     </div>
   );
 };
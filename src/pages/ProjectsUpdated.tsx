@@ -35,6 +35,7 @@ import { formatINR } from '@/lib/currency';
 import { Badge } from '@/components/ui/badge';
 import { CustomerDialog } from '@/components/CustomerDialog';
 import { SearchableSelect } from '@/components/SearchableSelect';
+import { useAuth } from '@/lib/auth-context';
 
 interface Project {
   id: string;
@@ -55,6 +56,7 @@ interface Customer {
 
 const Projects = () => {
   const navigate = useNavigate();
+  const { can } = useAuth();
   const [projects, setProjects] = useState<Project[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [loading, setLoading] = useState(true);
@@ -231,12 +233,14 @@ const Projects = () => {
           setDialogOpen(open);
           if (!open) resetForm();
         }}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Project
-            </Button>
-          </DialogTrigger>
+          {can('projects.edit') && (
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Project
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>{editingProject ? 'Edit' : 'Add'} Project</DialogTitle>
@@ -262,14 +266,16 @@ const Projects = () => {
                       ))}
                     </SelectContent>
                   </Select>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="icon"
-                    onClick={() => setCustomerDialogOpen(true)}
-                  >
-                    <UserPlus className="h-4 w-4" />
-                  </Button>
+                  {can('customers.edit') && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setCustomerDialogOpen(true)}
+                    >
+                      <UserPlus className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </div>
               <div className="space-y-2">
@@ -443,20 +449,24 @@ const Projects = () => {
                           >
                             <Eye className="h-4 w-4" />
                           </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => openEditDialog(project)}
-                          >
-                            <Pencil className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => handleDelete(project.id)}
-                          >
-                            <Trash2 className="h-4 w-4 text-destructive" />
-                          </Button>
+                          {can('projects.edit') && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openEditDialog(project)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {can('projects.delete') && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDelete(project.id)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
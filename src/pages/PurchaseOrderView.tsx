@@ -0,0 +1,418 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Lock, PackageCheck, Pencil, Printer } from 'lucide-react';
+import { toast } from 'sonner';
+import { amountInWords, formatINR } from '@/lib/currency';
+import { formatDate } from '@/lib/dates';
+import { useAuth } from '@/lib/auth-context';
+import { roundPaise, stateLabel } from '@/lib/gst';
+import { lineDiscount } from '@/lib/line-items';
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  PURCHASE_ORDER_STATUS_VARIANTS,
+  purchaseOrderBalance,
+} from '@/lib/purchase-orders';
+import { PurchaseOrderDialog } from '@/components/PurchaseOrderDialog';
+import { CompanyDetails } from '@/components/CompanyDetails';
+import { DocumentTotals } from '@/components/DocumentTotals';
+import { LineItemsTable } from '@/components/LineItemsTable';
+
+type PurchaseOrder = Tables<'purchase_orders'> & {
+  purchase_order_items: Tables<'purchase_order_items'>[];
+  suppliers?: Pick<Tables<'suppliers'>, 'name' | 'address' | 'gstin' | 'phone_number' | 'contact_person'>;
+  projects?: { name: string };
+};
+
+interface Payment {
+  id: string;
+  amount: number;
+  payment_mode: string;
+  transaction_date: string;
+}
+
+const PurchaseOrderView = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const [purchaseOrder, setPurchaseOrder] = useState<PurchaseOrder | null>(null);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [receiptOpen, setReceiptOpen] = useState(false);
+  // Received quantity per item id, as typed
+  const [received, setReceived] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (id) {
+      fetchPurchaseOrder();
+      fetchPayments();
+    }
+  }, [id]);
+
+  const fetchPurchaseOrder = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select('*, purchase_order_items(*), suppliers(name, address, gstin, phone_number, contact_person), projects(name)')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      setPurchaseOrder(data);
+    } catch (error) {
+      toast.error('Failed to fetch purchase order');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchPayments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id, amount, payment_mode, transaction_date')
+        .eq('purchase_order_id', id)
+        .order('transaction_date');
+
+      if (error) throw error;
+      setPayments(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch payments');
+    }
+  };
+
+  const openReceipt = () => {
+    setReceived(
+      Object.fromEntries(
+        (purchaseOrder?.purchase_order_items || []).map((item) => [item.id, String(Number(item.received_quantity))])
+      )
+    );
+    setReceiptOpen(true);
+  };
+
+  // Each changed line is saved on its own; the database derives the PO status from them
+  const handleReceipt = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!purchaseOrder) return;
+
+    const changed = purchaseOrder.purchase_order_items.filter(
+      (item) => (parseFloat(received[item.id]) || 0) !== Number(item.received_quantity)
+    );
+    if (changed.length === 0) {
+      setReceiptOpen(false);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      for (const item of changed) {
+        const { error } = await supabase
+          .from('purchase_order_items')
+          .update({ received_quantity: parseFloat(received[item.id]) || 0 })
+          .eq('id', item.id);
+
+        if (error) throw error;
+      }
+      toast.success('Receipt recorded');
+      setReceiptOpen(false);
+      fetchPurchaseOrder();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record receipt');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!confirm('Close this purchase order? No further deliveries will be expected against it.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('purchase_orders')
+        .update({ status: 'closed' })
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success('Purchase order closed');
+      fetchPurchaseOrder();
+    } catch (error) {
+      toast.error('Failed to close purchase order');
+    }
+  };
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!purchaseOrder) {
+    return <div className="text-muted-foreground">Purchase order not found</div>;
+  }
+
+  const items = [...purchaseOrder.purchase_order_items].sort((a, b) => a.position - b.position);
+  const totals = {
+    ...purchaseOrder,
+    discount_amount: items.reduce((sum, item) => roundPaise(sum + lineDiscount(item)), 0),
+  };
+  const canEdit = can('purchase_orders.edit');
+  const isClosed = purchaseOrder.status === 'closed';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 print:hidden">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/purchase-orders')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{purchaseOrder.po_number}</h1>
+            <p className="text-muted-foreground">
+              <Link to={`/suppliers/${purchaseOrder.supplier_id}`} className="hover:underline">
+                {purchaseOrder.suppliers?.name}
+              </Link>{' '}
+              •{' '}
+              <Link to={`/projects/${purchaseOrder.project_id}`} className="hover:underline">
+                {purchaseOrder.projects?.name}
+              </Link>
+            </p>
+          </div>
+          <Badge variant={PURCHASE_ORDER_STATUS_VARIANTS[purchaseOrder.status]}>
+            {PURCHASE_ORDER_STATUS_LABELS[purchaseOrder.status]}
+          </Badge>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {canEdit && purchaseOrder.status === 'raised' && (
+            <Button variant="outline" onClick={() => setDialogOpen(true)}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Edit
+            </Button>
+          )}
+          {canEdit && !isClosed && (
+            <>
+              <Button variant="outline" onClick={openReceipt}>
+                <PackageCheck className="mr-2 h-4 w-4" />
+                Record Receipt
+              </Button>
+              <Button variant="outline" onClick={handleClose}>
+                <Lock className="mr-2 h-4 w-4" />
+                Close
+              </Button>
+            </>
+          )}
+          <Button onClick={() => window.print()}>
+            <Printer className="mr-2 h-4 w-4" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      <PurchaseOrderDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        purchaseOrderId={purchaseOrder.id}
+        onSaved={() => fetchPurchaseOrder()}
+      />
+
+      <Card className="print:border-0 print:shadow-none">
+        <CardContent className="pt-6 space-y-6 print:p-0">
+          <div className="flex justify-between gap-6">
+            <CompanyDetails />
+            <div className="text-right">
+              <h2 className="text-xl font-bold uppercase">Purchase Order</h2>
+              <p className="text-sm">PO No: {purchaseOrder.po_number}</p>
+              <p className="text-sm">Date: {formatDate(purchaseOrder.order_date)}</p>
+              {purchaseOrder.expected_delivery_date && (
+                <p className="text-sm">Delivery by: {formatDate(purchaseOrder.expected_delivery_date)}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-6 border-y py-4">
+            <div>
+              <p className="text-xs font-medium uppercase text-muted-foreground">Supplier</p>
+              <p className="font-medium">{purchaseOrder.suppliers?.name}</p>
+              {purchaseOrder.suppliers?.contact_person && (
+                <p className="text-sm">Attn: {purchaseOrder.suppliers.contact_person}</p>
+              )}
+              {purchaseOrder.suppliers?.address && (
+                <p className="text-sm whitespace-pre-line">{purchaseOrder.suppliers.address}</p>
+              )}
+              {purchaseOrder.suppliers?.gstin && <p className="text-sm">GSTIN: {purchaseOrder.suppliers.gstin}</p>}
+              {purchaseOrder.suppliers?.phone_number && <p className="text-sm">{purchaseOrder.suppliers.phone_number}</p>}
+            </div>
+            <div>
+              <p className="text-xs font-medium uppercase text-muted-foreground">Supplier State</p>
+              <p className="text-sm">{stateLabel(purchaseOrder.place_of_supply)} ({purchaseOrder.place_of_supply})</p>
+              <p className="text-xs font-medium uppercase text-muted-foreground mt-2">Project</p>
+              <p className="text-sm">{purchaseOrder.projects?.name}</p>
+            </div>
+          </div>
+
+          <LineItemsTable items={items} />
+
+          <div className="flex justify-between gap-6">
+            <div className="text-sm space-y-2 max-w-md">
+              <p>
+                <span className="font-medium">Amount in words: </span>
+                {amountInWords(Number(purchaseOrder.total_amount))}
+              </p>
+              {purchaseOrder.notes && <p className="whitespace-pre-line text-muted-foreground">{purchaseOrder.notes}</p>}
+            </div>
+            <div className="w-72 text-sm space-y-1">
+              <DocumentTotals totals={totals} placeOfSupply={purchaseOrder.place_of_supply} />
+              <div className="flex justify-between print:hidden">
+                <span className="text-muted-foreground">Paid</span>
+                <span>{formatINR(Number(purchaseOrder.amount_paid))}</span>
+              </div>
+              <div className="flex justify-between font-medium print:hidden">
+                <span>Unpaid</span>
+                <span>{formatINR(purchaseOrderBalance(purchaseOrder))}</span>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardContent className="pt-6">
+          <h3 className="font-semibold mb-4">Deliveries</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Ordered</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                <TableHead className="text-right">Pending</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => {
+                const pending = Math.max(Number(item.quantity) - Number(item.received_quantity), 0);
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell>{item.description}</TableCell>
+                    <TableCell className="text-right">{Number(item.quantity)} {item.unit}</TableCell>
+                    <TableCell className="text-right">{Number(item.received_quantity)} {item.unit}</TableCell>
+                    <TableCell className={`text-right ${pending > 0 ? 'text-orange-600' : ''}`}>
+                      {pending} {item.unit}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className="print:hidden">
+        <CardContent className="pt-6">
+          <h3 className="font-semibold mb-4">Payments Made</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Mode</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payments.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-muted-foreground">
+                    No payments recorded against this purchase order
+                  </TableCell>
+                </TableRow>
+              ) : (
+                payments.map((payment) => (
+                  <TableRow key={payment.id}>
+                    <TableCell className="text-sm">
+                      <Link
+                        to={`/projects/${purchaseOrder.project_id}#transaction-${payment.id}`}
+                        className="hover:underline"
+                      >
+                        {formatDate(payment.transaction_date)}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-sm">{payment.payment_mode}</TableCell>
+                    <TableCell className="text-right font-medium">{formatINR(Number(payment.amount))}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={receiptOpen} onOpenChange={setReceiptOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Record Receipt</DialogTitle>
+            <DialogDescription>
+              Enter the total quantity received so far for each item
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleReceipt} className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Ordered</TableHead>
+                  <TableHead className="w-32">Received</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>{item.description}</TableCell>
+                    <TableCell className="text-right">{Number(item.quantity)} {item.unit}</TableCell>
+                    <TableCell className="p-2">
+                      <Input
+                        type="number"
+                        step="0.001"
+                        min="0"
+                        max={Number(item.quantity)}
+                        value={received[item.id] ?? ''}
+                        onChange={(e) => setReceived({ ...received, [item.id]: e.target.value })}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setReceiptOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                Save Receipt
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PurchaseOrderView;
@@ -0,0 +1,280 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Eye, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatINR } from '@/lib/currency';
+import { formatDate, toDateValue } from '@/lib/dates';
+import { useAuth } from '@/lib/auth-context';
+import { SearchableSelect } from '@/components/SearchableSelect';
+import { PurchaseOrderDialog } from '@/components/PurchaseOrderDialog';
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  PURCHASE_ORDER_STATUS_VARIANTS,
+  PurchaseOrderStatus,
+  purchaseOrderBalance,
+} from '@/lib/purchase-orders';
+
+interface PurchaseOrder {
+  id: string;
+  po_number: string | null;
+  order_date: string;
+  expected_delivery_date: string | null;
+  status: PurchaseOrderStatus;
+  total_amount: number;
+  amount_paid: number;
+  project_id: string;
+  supplier_id: string;
+  projects?: { name: string };
+  suppliers?: { name: string };
+}
+
+const PurchaseOrders = () => {
+  const { can } = useAuth();
+  const navigate = useNavigate();
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [filters, setFilters] = useState({ status: '', supplier: '' });
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, []);
+
+  useEffect(() => {
+    fetchPurchaseOrders();
+  }, [filters]);
+
+  const fetchPurchaseOrders = async () => {
+    try {
+      let query = supabase
+        .from('purchase_orders')
+        .select('*, projects(name), suppliers(name)');
+
+      if (filters.status.trim()) query = query.eq('status', filters.status as PurchaseOrderStatus);
+      if (filters.supplier) query = query.eq('supplier_id', filters.supplier);
+
+      const { data, error } = await query
+        .order('order_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setPurchaseOrders(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch purchase orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSuppliers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setSuppliers(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch suppliers');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this purchase order?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('purchase_orders')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success('Purchase order deleted');
+      fetchPurchaseOrders();
+    } catch (error) {
+      toast.error('Purchase orders with payments cannot be deleted');
+    }
+  };
+
+  const openDialog = (purchaseOrderId: string | null) => {
+    setEditingId(purchaseOrderId);
+    setDialogOpen(true);
+  };
+
+  const today = toDateValue();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Purchase Orders</h1>
+          <p className="text-muted-foreground">
+            Commitments to suppliers, their deliveries and payments
+          </p>
+        </div>
+        {can('purchase_orders.edit') && (
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Purchase Order
+          </Button>
+        )}
+      </div>
+
+      <PurchaseOrderDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        purchaseOrderId={editingId}
+        onSaved={(id) => (editingId ? fetchPurchaseOrders() : navigate(`/purchase-orders/${id}`))}
+      />
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select
+                value={filters.status}
+                onValueChange={(value) => setFilters({ ...filters, status: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All statuses" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=" ">All statuses</SelectItem>
+                  {Object.entries(PURCHASE_ORDER_STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Supplier</Label>
+              <SearchableSelect
+                options={suppliers.map((s) => ({ value: s.id, label: s.name }))}
+                value={filters.supplier}
+                onValueChange={(value) => setFilters({ ...filters, supplier: value })}
+                placeholder="All suppliers"
+                searchPlaceholder="Search suppliers..."
+              />
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-16 bg-muted animate-pulse rounded" />
+              ))}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Project</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Unpaid</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {purchaseOrders.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground">
+                      No purchase orders found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  purchaseOrders.map((po) => {
+                    const late =
+                      !!po.expected_delivery_date &&
+                      po.expected_delivery_date < today &&
+                      (po.status === 'raised' || po.status === 'partially_received');
+                    return (
+                      <TableRow key={po.id}>
+                        <TableCell className="font-medium">{po.po_number}</TableCell>
+                        <TableCell className="text-sm">
+                          {formatDate(po.order_date)}
+                          {po.expected_delivery_date && (
+                            <div className={`text-xs ${late ? 'text-destructive' : 'text-muted-foreground'}`}>
+                              Delivery {formatDate(po.expected_delivery_date)}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>{po.suppliers?.name || '-'}</TableCell>
+                        <TableCell>{po.projects?.name || '-'}</TableCell>
+                        <TableCell className="text-right">{formatINR(Number(po.total_amount))}</TableCell>
+                        <TableCell className="text-right">{formatINR(purchaseOrderBalance(po))}</TableCell>
+                        <TableCell>
+                          <Badge variant={PURCHASE_ORDER_STATUS_VARIANTS[po.status]}>
+                            {PURCHASE_ORDER_STATUS_LABELS[po.status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => navigate(`/purchase-orders/${po.id}`)}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            {can('purchase_orders.edit') && po.status === 'raised' && (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => openDialog(po.id)}
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleDelete(po.id)}
+                                >
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PurchaseOrders;
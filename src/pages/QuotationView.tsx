@@ -0,0 +1,271 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, Check, Pencil, Printer, Send, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { amountInWords } from '@/lib/currency';
+import { formatDate } from '@/lib/dates';
+import { useAuth } from '@/lib/auth-context';
+import { stateLabel } from '@/lib/gst';
+import {
+  QUOTATION_STATUS_LABELS,
+  QUOTATION_STATUS_VARIANTS,
+  QuotationStatus,
+  isExpired,
+  latestVersion,
+} from '@/lib/quotations';
+import { QuotationDialog } from '@/components/QuotationDialog';
+import { CompanyDetails } from '@/components/CompanyDetails';
+import { DocumentTotals } from '@/components/DocumentTotals';
+import { LineItemsTable } from '@/components/LineItemsTable';
+
+type QuotationVersion = Tables<'quotation_versions'> & {
+  quotation_items: Tables<'quotation_items'>[];
+};
+
+type Quotation = Tables<'quotations'> & {
+  quotation_versions: QuotationVersion[];
+  customers?: Pick<Tables<'customers'>, 'name' | 'address' | 'gstin' | 'phone_number'>;
+  projects?: { name: string } | null;
+};
+
+const QuotationView = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { can } = useAuth();
+  const [quotation, setQuotation] = useState<Quotation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [accepting, setAccepting] = useState(false);
+
+  useEffect(() => {
+    if (id) {
+      fetchQuotation();
+    }
+  }, [id]);
+
+  const fetchQuotation = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('quotations')
+        .select('*, quotation_versions!quotation_versions_quotation_id_fkey(*, quotation_items(*)), customers(name, address, gstin, phone_number), projects(name)')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      setQuotation(data);
+    } catch (error) {
+      toast.error('Failed to fetch quotation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateStatus = async (status: QuotationStatus, message: string) => {
+    try {
+      const { error } = await supabase
+        .from('quotations')
+        .update({ status })
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success(message);
+      fetchQuotation();
+    } catch (error) {
+      toast.error('Failed to update quotation');
+    }
+  };
+
+  const handleAccept = async (version: QuotationVersion) => {
+    const target = quotation?.project_id ? 'update the project value' : 'create a new project';
+    if (!confirm(`Accept version ${version.version_number}? This will ${target} and mark it active.`)) return;
+
+    setAccepting(true);
+    try {
+      const { data: projectId, error } = await supabase.rpc('accept_quotation', { _version_id: version.id });
+
+      if (error) throw error;
+      toast.success('Quotation accepted');
+      navigate(`/projects/${projectId}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to accept quotation');
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!quotation) {
+    return <div className="text-muted-foreground">Quotation not found</div>;
+  }
+
+  const versions = [...quotation.quotation_versions].sort((a, b) => b.version_number - a.version_number);
+  const requested = Number(searchParams.get('version'));
+  const version = versions.find((v) => v.version_number === requested) ?? latestVersion(versions);
+  const isOpen = quotation.status === 'draft' || quotation.status === 'sent';
+  const canEdit = can('quotations.edit');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 print:hidden">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/quotations')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{quotation.quotation_number}</h1>
+            <p className="text-muted-foreground">
+              {quotation.customers?.name} • {quotation.title}
+            </p>
+          </div>
+          {isExpired(quotation.status, version?.valid_until ?? null) ? (
+            <Badge variant="destructive">Expired</Badge>
+          ) : (
+            <Badge variant={QUOTATION_STATUS_VARIANTS[quotation.status]}>
+              {QUOTATION_STATUS_LABELS[quotation.status]}
+            </Badge>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {versions.length > 1 && version && (
+            <Select
+              value={String(version.version_number)}
+              onValueChange={(value) => setSearchParams({ version: value })}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((v) => (
+                  <SelectItem key={v.id} value={String(v.version_number)}>
+                    Version {v.version_number}
+                    {v.id === quotation.accepted_version_id && ' (accepted)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {canEdit && isOpen && (
+            <Button variant="outline" onClick={() => setDialogOpen(true)}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Revise
+            </Button>
+          )}
+          {canEdit && quotation.status === 'draft' && (
+            <Button variant="outline" onClick={() => updateStatus('sent', 'Quotation marked as sent')}>
+              <Send className="mr-2 h-4 w-4" />
+              Mark as Sent
+            </Button>
+          )}
+          {canEdit && isOpen && (
+            <Button variant="outline" onClick={() => updateStatus('rejected', 'Quotation marked as rejected')}>
+              <X className="mr-2 h-4 w-4" />
+              Reject
+            </Button>
+          )}
+          {canEdit && quotation.status !== 'accepted' && version && (
+            <Button variant="outline" onClick={() => handleAccept(version)} disabled={accepting}>
+              <Check className="mr-2 h-4 w-4" />
+              Accept
+            </Button>
+          )}
+          <Button onClick={() => window.print()}>
+            <Printer className="mr-2 h-4 w-4" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      {quotation.status === 'accepted' && quotation.project_id && (
+        <Card className="print:hidden">
+          <CardContent className="pt-6 text-sm">
+            Version {versions.find((v) => v.id === quotation.accepted_version_id)?.version_number} accepted on{' '}
+            {formatDate(quotation.accepted_at?.slice(0, 10))} •{' '}
+            <Link to={`/projects/${quotation.project_id}`} className="text-primary hover:underline">
+              View project {quotation.projects?.name}
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+
+      <QuotationDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        quotationId={quotation.id}
+        onSaved={() => {
+          setSearchParams({});
+          fetchQuotation();
+        }}
+      />
+
+      {version && (
+        <Card className="print:border-0 print:shadow-none">
+          <CardContent className="pt-6 space-y-6 print:p-0">
+            <div className="flex justify-between gap-6">
+              <CompanyDetails />
+              <div className="text-right">
+                <h2 className="text-xl font-bold uppercase">Quotation</h2>
+                <p className="text-sm">
+                  Quote No: {quotation.quotation_number}
+                  {versions.length > 1 && ` (Rev ${version.version_number})`}
+                </p>
+                <p className="text-sm">Date: {formatDate(version.quote_date)}</p>
+                {version.valid_until && <p className="text-sm">Valid until: {formatDate(version.valid_until)}</p>}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-6 border-y py-4">
+              <div>
+                <p className="text-xs font-medium uppercase text-muted-foreground">Quoted To</p>
+                <p className="font-medium">{quotation.customers?.name}</p>
+                {quotation.customers?.address && (
+                  <p className="text-sm whitespace-pre-line">{quotation.customers.address}</p>
+                )}
+                {quotation.customers?.gstin && <p className="text-sm">GSTIN: {quotation.customers.gstin}</p>}
+                {quotation.customers?.phone_number && <p className="text-sm">{quotation.customers.phone_number}</p>}
+              </div>
+              <div>
+                <p className="text-xs font-medium uppercase text-muted-foreground">Place of Supply</p>
+                <p className="text-sm">{stateLabel(version.place_of_supply)} ({version.place_of_supply})</p>
+                <p className="text-xs font-medium uppercase text-muted-foreground mt-2">Subject</p>
+                <p className="text-sm">{quotation.title}</p>
+              </div>
+            </div>
+
+            <LineItemsTable items={[...version.quotation_items].sort((a, b) => a.position - b.position)} />
+
+            <div className="flex justify-between gap-6">
+              <div className="text-sm space-y-2 max-w-md">
+                <p>
+                  <span className="font-medium">Amount in words: </span>
+                  {amountInWords(Number(version.total_amount))}
+                </p>
+                {version.notes && <p className="whitespace-pre-line text-muted-foreground">{version.notes}</p>}
+              </div>
+              <div className="w-72">
+                <DocumentTotals totals={version} placeOfSupply={version.place_of_supply} />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default QuotationView;
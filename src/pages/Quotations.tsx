@@ -0,0 +1,280 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Eye, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatINR } from '@/lib/currency';
+import { formatDate } from '@/lib/dates';
+import { useAuth } from '@/lib/auth-context';
+import { SearchableSelect } from '@/components/SearchableSelect';
+import { QuotationDialog } from '@/components/QuotationDialog';
+import {
+  QUOTATION_STATUS_LABELS,
+  QUOTATION_STATUS_VARIANTS,
+  QuotationStatus,
+  isExpired,
+  latestVersion,
+} from '@/lib/quotations';
+
+interface Quotation {
+  id: string;
+  quotation_number: string | null;
+  title: string;
+  status: QuotationStatus;
+  customer_id: string;
+  project_id: string | null;
+  customers?: { name: string };
+  projects?: { name: string } | null;
+  quotation_versions: {
+    version_number: number;
+    quote_date: string;
+    valid_until: string | null;
+    total_amount: number;
+  }[];
+}
+
+const Quotations = () => {
+  const { can } = useAuth();
+  const navigate = useNavigate();
+  const [quotations, setQuotations] = useState<Quotation[]>([]);
+  const [customers, setCustomers] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [filters, setFilters] = useState({ status: '', customer: '' });
+
+  useEffect(() => {
+    fetchCustomers();
+  }, []);
+
+  useEffect(() => {
+    fetchQuotations();
+  }, [filters]);
+
+  const fetchQuotations = async () => {
+    try {
+      let query = supabase
+        .from('quotations')
+        .select('*, customers(name), projects(name), quotation_versions!quotation_versions_quotation_id_fkey(version_number, quote_date, valid_until, total_amount)');
+
+      if (filters.status.trim()) query = query.eq('status', filters.status as QuotationStatus);
+      if (filters.customer) query = query.eq('customer_id', filters.customer);
+
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setQuotations(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch quotations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCustomers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setCustomers(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch customers');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this draft quotation and all its versions?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('quotations')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success('Quotation deleted');
+      fetchQuotations();
+    } catch (error) {
+      toast.error('Failed to delete quotation');
+    }
+  };
+
+  const openDialog = (quotationId: string | null) => {
+    setEditingId(quotationId);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Quotations</h1>
+          <p className="text-muted-foreground">
+            Price up enquiries and turn accepted quotes into projects
+          </p>
+        </div>
+        {can('quotations.edit') && (
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Quotation
+          </Button>
+        )}
+      </div>
+
+      <QuotationDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        quotationId={editingId}
+        onSaved={(id) => (editingId ? fetchQuotations() : navigate(`/quotations/${id}`))}
+      />
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select
+                value={filters.status}
+                onValueChange={(value) => setFilters({ ...filters, status: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All statuses" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=" ">All statuses</SelectItem>
+                  {Object.entries(QUOTATION_STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Customer</Label>
+              <SearchableSelect
+                options={customers.map((c) => ({ value: c.id, label: c.name }))}
+                value={filters.customer}
+                onValueChange={(value) => setFilters({ ...filters, customer: value })}
+                placeholder="All customers"
+                searchPlaceholder="Search customers..."
+              />
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-16 bg-muted animate-pulse rounded" />
+              ))}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Valid Until</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {quotations.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground">
+                      No quotations found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  quotations.map((quotation) => {
+                    const latest = latestVersion(quotation.quotation_versions);
+                    const expired = isExpired(quotation.status, latest?.valid_until ?? null);
+                    return (
+                      <TableRow key={quotation.id}>
+                        <TableCell className="font-medium">{quotation.quotation_number}</TableCell>
+                        <TableCell>
+                          {quotation.title}
+                          {quotation.projects && (
+                            <div className="text-xs text-muted-foreground">{quotation.projects.name}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{quotation.customers?.name || '-'}</TableCell>
+                        <TableCell className="text-sm">v{latest?.version_number ?? '-'}</TableCell>
+                        <TableCell className="text-right">{formatINR(Number(latest?.total_amount ?? 0))}</TableCell>
+                        <TableCell className="text-sm">{formatDate(latest?.valid_until)}</TableCell>
+                        <TableCell>
+                          {expired ? (
+                            <Badge variant="destructive">Expired</Badge>
+                          ) : (
+                            <Badge variant={QUOTATION_STATUS_VARIANTS[quotation.status]}>
+                              {QUOTATION_STATUS_LABELS[quotation.status]}
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => navigate(`/quotations/${quotation.id}`)}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            {can('quotations.edit') && quotation.status !== 'accepted' && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => openDialog(quotation.id)}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can('quotations.edit') && quotation.status === 'draft' && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDelete(quotation.id)}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Quotations;
@@ -0,0 +1,376 @@
+import { Fragment, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChevronDown, ChevronRight, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatINR } from '@/lib/currency';
+import { formatDate, toDateValue } from '@/lib/dates';
+import { ExportFormat, ExportRow, exportRows } from '@/lib/export';
+import { invoiceLabel } from '@/lib/invoices';
+import {
+  AGEING_BUCKETS,
+  AgeingGroup,
+  AgeingInvoice,
+  AgeingMilestone,
+  bucketTotals,
+  groupReceivables,
+  openReceivables,
+} from '@/lib/ageing';
+
+type Receipt = Pick<Tables<'transactions'>, 'id' | 'project_id' | 'transaction_date' | 'amount' | 'payment_mode'> & {
+  projects?: { name: string } | null;
+  invoices?: { invoice_number: string | null } | null;
+  payment_milestones?: { name: string } | null;
+};
+
+const PARTY = 'project_id, projects(name, customer_id, customers(name))';
+
+const ReceivablesAgeing = () => {
+  const [invoices, setInvoices] = useState<AgeingInvoice[]>([]);
+  const [milestones, setMilestones] = useState<AgeingMilestone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [groupBy, setGroupBy] = useState<'customer' | 'project'>('customer');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+
+  useEffect(() => {
+    fetchReceivables();
+  }, []);
+
+  // Paid invoices still matter: they cover milestones already billed. Settled documents drop out once aged.
+  const fetchReceivables = async () => {
+    try {
+      const [invoiceResult, milestoneResult] = await Promise.all([
+        supabase
+          .from('invoices')
+          .select(`id, invoice_number, invoice_date, due_date, total_amount, amount_paid, ${PARTY}`)
+          .neq('status', 'draft'),
+        supabase
+          .from('payment_milestones')
+          .select(`id, name, due_date, position, amount, amount_received, ${PARTY}`),
+      ]);
+      if (invoiceResult.error) throw invoiceResult.error;
+      if (milestoneResult.error) throw milestoneResult.error;
+
+      setInvoices(invoiceResult.data || []);
+      setMilestones(milestoneResult.data || []);
+    } catch (error) {
+      toast.error('Failed to fetch receivables');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleGroup = async (group: AgeingGroup) => {
+    if (expanded === group.id) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(group.id);
+    setReceipts([]);
+
+    try {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id, project_id, transaction_date, amount, payment_mode, projects(name), invoices(invoice_number), payment_milestones(name)')
+        .in('project_id', [...new Set(group.items.map((item) => item.projectId))])
+        .eq('transaction_type', 'credit')
+        .order('transaction_date', { ascending: false });
+
+      if (error) throw error;
+      setReceipts(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch receipts');
+    }
+  };
+
+  // Balances are today's, so the report is always aged as of today. Oldest first, so each group's worst item leads.
+  const today = toDateValue();
+  const items = openReceivables(invoices, milestones, today)
+    .sort((a, b) => b.daysOverdue - a.daysOverdue);
+  const groups = groupReceivables(items, groupBy).sort((a, b) => b.totals.total - a.totals.total);
+  const totals = bucketTotals(items);
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    if (items.length === 0) {
+      toast.error('Nothing to export');
+      return;
+    }
+    const columns = ['Customer', 'Project', 'Document', 'Due Date', 'Days Overdue', 'Bucket', 'Balance'];
+    const exportData: ExportRow[] = items.map((item) => ({
+      'Customer': item.customerName,
+      'Project': item.projectName,
+      'Document': item.label,
+      'Due Date': item.dueDate,
+      'Days Overdue': Math.max(item.daysOverdue, 0),
+      'Bucket': AGEING_BUCKETS.find((b) => b.key === item.bucket)?.label ?? '',
+      'Balance': item.balance,
+    }));
+    try {
+      await exportRows(exportData, columns, `receivables-ageing-${today}`, exportFormat, 'Receivables Ageing');
+    } catch (error) {
+      toast.error('Failed to export receivables');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Receivables Ageing</h1>
+          <p className="text-muted-foreground">
+            What customers owe, by how long it has been due
+          </p>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline">
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => handleExport('csv')}>CSV (.csv)</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Group By</Label>
+              <Select
+                value={groupBy}
+                onValueChange={(value) => {
+                  setGroupBy(value as 'customer' | 'project');
+                  setExpanded(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="customer">Customer</SelectItem>
+                  <SelectItem value="project">Project</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Issued invoices are aged from their due date to today. Payment milestones are aged for whatever part
+            of them has not been invoiced yet, taking milestones in schedule order.
+          </p>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
+        {AGEING_BUCKETS.map((bucket) => (
+          <Card key={bucket.key}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">{bucket.label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${bucket.key === 'days_over_90' && totals[bucket.key] > 0 ? 'text-destructive' : ''}`}>
+                {formatINR(totals[bucket.key])}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Total Receivable</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatINR(totals.total)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {loading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-16 bg-muted animate-pulse rounded" />
+              ))}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{groupBy === 'customer' ? 'Customer' : 'Project'}</TableHead>
+                  {AGEING_BUCKETS.map((bucket) => (
+                    <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={AGEING_BUCKETS.length + 2} className="text-center text-muted-foreground">
+                      Nothing outstanding
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  groups.map((group) => (
+                    <Fragment key={group.id}>
+                      <TableRow className="cursor-pointer" onClick={() => toggleGroup(group)}>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            {expanded === group.id ? (
+                              <ChevronDown className="h-4 w-4" />
+                            ) : (
+                              <ChevronRight className="h-4 w-4" />
+                            )}
+                            {group.name}
+                          </div>
+                        </TableCell>
+                        {AGEING_BUCKETS.map((bucket) => (
+                          <TableCell key={bucket.key} className="text-right">
+                            {group.totals[bucket.key] ? formatINR(group.totals[bucket.key]) : '-'}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-medium">{formatINR(group.totals.total)}</TableCell>
+                      </TableRow>
+                      {expanded === group.id && (
+                        <TableRow className="hover:bg-transparent">
+                          <TableCell colSpan={AGEING_BUCKETS.length + 2} className="bg-muted/30">
+                            <div className="space-y-4 p-2">
+                              <Table>
+                                <TableHeader>
+                                  <TableRow>
+                                    <TableHead>Owed For</TableHead>
+                                    <TableHead>{groupBy === 'customer' ? 'Project' : 'Customer'}</TableHead>
+                                    <TableHead>Due</TableHead>
+                                    <TableHead className="text-right">Days Overdue</TableHead>
+                                    <TableHead className="text-right">Balance</TableHead>
+                                  </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                  {group.items.map((item) => (
+                                    <TableRow key={item.key}>
+                                      <TableCell>
+                                        <Link
+                                          to={item.kind === 'invoice' ? `/invoices/${item.documentId}` : `/projects/${item.projectId}`}
+                                          className="text-primary hover:underline"
+                                        >
+                                          {item.label}
+                                        </Link>
+                                      </TableCell>
+                                      <TableCell>
+                                        {groupBy === 'customer' ? (
+                                          <Link to={`/projects/${item.projectId}`} className="hover:underline">
+                                            {item.projectName}
+                                          </Link>
+                                        ) : (
+                                          <Link to={`/customers/${item.customerId}`} className="hover:underline">
+                                            {item.customerName}
+                                          </Link>
+                                        )}
+                                      </TableCell>
+                                      <TableCell>{formatDate(item.dueDate)}</TableCell>
+                                      <TableCell className={`text-right ${item.daysOverdue > 90 ? 'text-destructive' : ''}`}>
+                                        {item.daysOverdue > 0 ? item.daysOverdue : '-'}
+                                      </TableCell>
+                                      <TableCell className="text-right">{formatINR(item.balance)}</TableCell>
+                                    </TableRow>
+                                  ))}
+                                </TableBody>
+                              </Table>
+                              <div>
+                                <p className="mb-2 text-sm font-medium">Receipts on these projects</p>
+                                {receipts.length === 0 ? (
+                                  <p className="text-sm text-muted-foreground">No payments received yet</p>
+                                ) : (
+                                  <Table>
+                                    <TableHeader>
+                                      <TableRow>
+                                        <TableHead>Date</TableHead>
+                                        <TableHead>Project</TableHead>
+                                        <TableHead>Against</TableHead>
+                                        <TableHead>Mode</TableHead>
+                                        <TableHead className="text-right">Amount</TableHead>
+                                      </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                      {receipts.map((receipt) => (
+                                        <TableRow key={receipt.id}>
+                                          <TableCell>
+                                            <Link
+                                              to={`/projects/${receipt.project_id}#transaction-${receipt.id}`}
+                                              className="text-primary hover:underline"
+                                            >
+                                              {formatDate(receipt.transaction_date)}
+                                            </Link>
+                                          </TableCell>
+                                          <TableCell>{receipt.projects?.name || '-'}</TableCell>
+                                          <TableCell>
+                                            {receipt.invoices
+                                              ? `Invoice ${invoiceLabel(receipt.invoices)}`
+                                              : receipt.payment_milestones?.name || '-'}
+                                          </TableCell>
+                                          <TableCell>{receipt.payment_mode || '-'}</TableCell>
+                                          <TableCell className="text-right">{formatINR(Number(receipt.amount))}</TableCell>
+                                        </TableRow>
+                                      ))}
+                                    </TableBody>
+                                  </Table>
+                                )}
+                              </div>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  ))
+                )}
+              </TableBody>
+              {groups.length > 0 && (
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Total</TableCell>
+                    {AGEING_BUCKETS.map((bucket) => (
+                      <TableCell key={bucket.key} className="text-right">{formatINR(totals[bucket.key])}</TableCell>
+                    ))}
+                    <TableCell className="text-right">{formatINR(totals.total)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ReceivablesAgeing;
@@ -0,0 +1,459 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatINR } from '@/lib/currency';
+import { formatDate, toDateValue } from '@/lib/dates';
+import { useAuth } from '@/lib/auth-context';
+import { stateLabel } from '@/lib/gst';
+import { SearchableSelect } from '@/components/SearchableSelect';
+import { SupplierBill, SupplierPayment, buildSupplierLedger } from '@/lib/suppliers';
+
+const NO_PROJECT = 'none';
+
+const emptyBill = () => ({
+  bill_number: '',
+  bill_date: toDateValue(),
+  due_date: '',
+  project_id: NO_PROJECT,
+  amount: '',
+  notes: '',
+});
+
+const SupplierLedger = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const [supplier, setSupplier] = useState<Tables<'suppliers'> | null>(null);
+  const [bills, setBills] = useState<SupplierBill[]>([]);
+  const [payments, setPayments] = useState<SupplierPayment[]>([]);
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [billDialogOpen, setBillDialogOpen] = useState(false);
+  const [editingBill, setEditingBill] = useState<SupplierBill | null>(null);
+  const [billForm, setBillForm] = useState(emptyBill());
+
+  useEffect(() => {
+    if (id) {
+      fetchLedger();
+      fetchProjects();
+    }
+  }, [id]);
+
+  const fetchLedger = async () => {
+    try {
+      const [
+        { data: supplierData, error: supplierError },
+        { data: billData, error: billError },
+        { data: paymentData, error: paymentError },
+      ] = await Promise.all([
+        supabase.from('suppliers').select('*').eq('id', id).single(),
+        supabase.from('supplier_bills').select('*, projects(name)').eq('supplier_id', id),
+        supabase
+          .from('transactions')
+          .select('id, project_id, transaction_date, amount, payment_mode, reason, created_at, projects(name)')
+          .eq('supplier_id', id),
+      ]);
+
+      if (supplierError) throw supplierError;
+      if (billError) throw billError;
+      if (paymentError) throw paymentError;
+      setSupplier(supplierData);
+      setBills(billData || []);
+      setPayments(paymentData || []);
+    } catch (error) {
+      toast.error('Failed to fetch supplier ledger');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchProjects = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setProjects(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch projects');
+    }
+  };
+
+  const openBillDialog = (bill: SupplierBill | null) => {
+    setEditingBill(bill);
+    setBillForm(
+      bill
+        ? {
+            bill_number: bill.bill_number,
+            bill_date: bill.bill_date,
+            due_date: bill.due_date || '',
+            project_id: bill.project_id || NO_PROJECT,
+            amount: bill.amount.toString(),
+            notes: bill.notes || '',
+          }
+        : emptyBill()
+    );
+    setBillDialogOpen(true);
+  };
+
+  const handleBillSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const billData = {
+        supplier_id: id,
+        bill_number: billForm.bill_number.trim(),
+        bill_date: billForm.bill_date,
+        due_date: billForm.due_date || null,
+        project_id: billForm.project_id === NO_PROJECT ? null : billForm.project_id,
+        amount: parseFloat(billForm.amount),
+        notes: billForm.notes || null,
+      };
+
+      if (editingBill) {
+        const { error } = await supabase
+          .from('supplier_bills')
+          .update(billData)
+          .eq('id', editingBill.id);
+
+        if (error) throw error;
+        toast.success('Bill updated');
+      } else {
+        const { error } = await supabase
+          .from('supplier_bills')
+          .insert([billData]);
+
+        if (error) throw error;
+        toast.success('Bill added');
+      }
+
+      setBillDialogOpen(false);
+      fetchLedger();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save bill');
+    }
+  };
+
+  const handleBillDelete = async (billId: string) => {
+    if (!confirm('Are you sure you want to delete this bill?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('supplier_bills')
+        .delete()
+        .eq('id', billId);
+
+      if (error) throw error;
+      toast.success('Bill deleted');
+      fetchLedger();
+    } catch (error) {
+      toast.error('Failed to delete bill');
+    }
+  };
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!supplier) {
+    return <div className="text-muted-foreground">Supplier not found</div>;
+  }
+
+  const ledger = buildSupplierLedger(bills, payments);
+  const totalPurchases = ledger.reduce((sum, entry) => sum + entry.billed, 0);
+  const totalPayments = ledger.reduce((sum, entry) => sum + entry.paid, 0);
+  const outstanding = ledger.length > 0 ? ledger[ledger.length - 1].balance : 0;
+  const canEdit = can('suppliers.edit');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/suppliers')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{supplier.name}</h1>
+            <p className="text-muted-foreground">
+              {supplier.gstin ? `GSTIN ${supplier.gstin}` : 'Unregistered supplier'}
+              {supplier.state_code && ` • ${stateLabel(supplier.state_code)}`}
+            </p>
+          </div>
+        </div>
+        {canEdit && (
+          <Button onClick={() => openBillDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Bill
+          </Button>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Total Purchases</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatINR(totalPurchases)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Payments</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{formatINR(totalPayments)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">
+              {outstanding < 0 ? 'Advance Paid' : 'Outstanding Payable'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-orange-600">{formatINR(Math.abs(outstanding))}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Contact</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm space-y-1">
+            <p>{supplier.contact_person || '-'}</p>
+            {supplier.phone_number && <p>{supplier.phone_number}</p>}
+            {supplier.email && <p>{supplier.email}</p>}
+            {supplier.address && <p className="whitespace-pre-line text-muted-foreground">{supplier.address}</p>}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Bank Details</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm space-y-1">
+            {supplier.bank_account_number || supplier.upi_id ? (
+              <>
+                {supplier.bank_name && <p>{supplier.bank_name}</p>}
+                {supplier.bank_account_number && <p>A/c {supplier.bank_account_number}</p>}
+                {supplier.bank_ifsc && <p>IFSC {supplier.bank_ifsc}</p>}
+                {supplier.upi_id && <p>UPI {supplier.upi_id}</p>}
+              </>
+            ) : (
+              <p className="text-muted-foreground">No bank details recorded</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Ledger</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Project</TableHead>
+                <TableHead className="text-right">Billed</TableHead>
+                <TableHead className="text-right">Paid</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                {canEdit && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ledger.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 8 : 7} className="text-center text-muted-foreground">
+                    No bills or payments yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                ledger.map((entry) => {
+                  const project = entry.bill?.projects ?? entry.payment?.projects;
+                  const projectId = entry.bill?.project_id ?? entry.payment?.project_id;
+                  return (
+                    <TableRow key={entry.key}>
+                      <TableCell className="text-sm">{formatDate(entry.date)}</TableCell>
+                      <TableCell>
+                        <Badge variant={entry.bill ? 'outline' : 'secondary'}>
+                          {entry.bill ? 'Bill' : 'Payment'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {entry.bill ? (
+                          <>
+                            {entry.bill.bill_number}
+                            {entry.bill.due_date && (
+                              <div className="text-xs text-muted-foreground">Due {formatDate(entry.bill.due_date)}</div>
+                            )}
+                          </>
+                        ) : (
+                          <>
+                            {entry.payment?.payment_mode}
+                            <div className="text-xs text-muted-foreground max-w-xs truncate">{entry.payment?.reason}</div>
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {projectId && project ? (
+                          <Link
+                            to={entry.payment ? `/projects/${projectId}#transaction-${entry.payment.id}` : `/projects/${projectId}`}
+                            className="text-primary hover:underline"
+                          >
+                            {project.name}
+                          </Link>
+                        ) : (
+                          '-'
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{entry.billed ? formatINR(entry.billed) : '-'}</TableCell>
+                      <TableCell className="text-right">{entry.paid ? formatINR(entry.paid) : '-'}</TableCell>
+                      <TableCell className="text-right font-medium">{formatINR(entry.balance)}</TableCell>
+                      {canEdit && (
+                        <TableCell className="text-right">
+                          {entry.bill && (
+                            <div className="flex justify-end gap-2">
+                              <Button variant="ghost" size="icon" onClick={() => openBillDialog(entry.bill)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" onClick={() => handleBillDelete(entry.bill.id)}>
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground mt-4">
+            Payments are debit transactions recorded against this supplier on the Transactions page.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Dialog open={billDialogOpen} onOpenChange={setBillDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingBill ? 'Edit' : 'Add'} Bill</DialogTitle>
+            <DialogDescription>
+              A purchase invoice received from {supplier.name}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleBillSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="bill_number">Bill Number *</Label>
+                <Input
+                  id="bill_number"
+                  value={billForm.bill_number}
+                  onChange={(e) => setBillForm({ ...billForm, bill_number: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bill_amount">Amount (₹) *</Label>
+                <Input
+                  id="bill_amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={billForm.amount}
+                  onChange={(e) => setBillForm({ ...billForm, amount: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bill_date">Bill Date *</Label>
+                <Input
+                  id="bill_date"
+                  type="date"
+                  value={billForm.bill_date}
+                  onChange={(e) => setBillForm({ ...billForm, bill_date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bill_due_date">Due Date</Label>
+                <Input
+                  id="bill_due_date"
+                  type="date"
+                  min={billForm.bill_date}
+                  value={billForm.due_date}
+                  onChange={(e) => setBillForm({ ...billForm, due_date: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <SearchableSelect
+                options={[
+                  { value: NO_PROJECT, label: 'Not for a project' },
+                  ...projects.map((p) => ({ value: p.id, label: p.name })),
+                ]}
+                value={billForm.project_id}
+                onValueChange={(value) => setBillForm({ ...billForm, project_id: value || NO_PROJECT })}
+                placeholder="Select project"
+                searchPlaceholder="Search projects..."
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bill_notes">Notes</Label>
+              <Textarea
+                id="bill_notes"
+                value={billForm.notes}
+                onChange={(e) => setBillForm({ ...billForm, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setBillDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingBill ? 'Update' : 'Add'} Bill
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SupplierLedger;
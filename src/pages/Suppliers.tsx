@@ -0,0 +1,459 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Plus, Search, Eye, Pencil, Trash2, History } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatINR } from '@/lib/currency';
+import { useAuth } from '@/lib/auth-context';
+import { EntityHistory } from '@/components/EntityHistory';
+import { GstinFields } from '@/components/GstinFields';
+import { isValidGstin } from '@/lib/gst';
+import { isValidIfsc } from '@/lib/suppliers';
+
+type Supplier = Tables<'suppliers'>;
+
+type SupplierBalance = Tables<'supplier_balances'>;
+
+const emptyForm = {
+  name: '',
+  contact_person: '',
+  phone_number: '',
+  email: '',
+  address: '',
+  gstin: '',
+  state_code: '',
+  bank_name: '',
+  bank_account_number: '',
+  bank_ifsc: '',
+  upi_id: '',
+  notes: '',
+};
+
+// Blank optional fields are stored as null rather than empty strings
+const optional = (value: string) => value.trim() || null;
+
+const Suppliers = () => {
+  const { can } = useAuth();
+  const navigate = useNavigate();
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [balances, setBalances] = useState<Record<string, SupplierBalance>>({});
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [historySupplier, setHistorySupplier] = useState<Supplier | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, []);
+
+  const fetchSuppliers = async () => {
+    try {
+      const [{ data, error }, { data: balanceData, error: balanceError }] = await Promise.all([
+        supabase.from('suppliers').select('*').order('name'),
+        supabase.from('supplier_balances').select('*'),
+      ]);
+
+      if (error) throw error;
+      if (balanceError) throw balanceError;
+      setSuppliers(data || []);
+      setBalances(Object.fromEntries((balanceData || []).map((b) => [b.supplier_id, b])));
+    } catch (error) {
+      toast.error('Failed to fetch suppliers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.gstin && !isValidGstin(formData.gstin)) {
+      toast.error('GSTIN is not valid');
+      return;
+    }
+    if (formData.bank_ifsc && !isValidIfsc(formData.bank_ifsc)) {
+      toast.error('IFSC code is not valid');
+      return;
+    }
+
+    try {
+      const supplierData = {
+        name: formData.name.trim(),
+        contact_person: optional(formData.contact_person),
+        phone_number: optional(formData.phone_number),
+        email: optional(formData.email),
+        address: optional(formData.address),
+        gstin: optional(formData.gstin),
+        state_code: optional(formData.state_code),
+        bank_name: optional(formData.bank_name),
+        bank_account_number: optional(formData.bank_account_number),
+        bank_ifsc: optional(formData.bank_ifsc),
+        upi_id: optional(formData.upi_id),
+        notes: optional(formData.notes),
+      };
+
+      if (editingSupplier) {
+        const { error } = await supabase
+          .from('suppliers')
+          .update(supplierData)
+          .eq('id', editingSupplier.id);
+
+        if (error) throw error;
+        toast.success('Supplier updated successfully');
+      } else {
+        const { error } = await supabase
+          .from('suppliers')
+          .insert([supplierData]);
+
+        if (error) throw error;
+        toast.success('Supplier created successfully');
+      }
+
+      setDialogOpen(false);
+      resetForm();
+      fetchSuppliers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save supplier');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this supplier?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('suppliers')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success('Supplier deleted');
+      fetchSuppliers();
+    } catch (error) {
+      toast.error('Suppliers with bills or payments cannot be deleted');
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingSupplier(null);
+  };
+
+  const openEditDialog = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setFormData({
+      name: supplier.name,
+      contact_person: supplier.contact_person || '',
+      phone_number: supplier.phone_number || '',
+      email: supplier.email || '',
+      address: supplier.address || '',
+      gstin: supplier.gstin || '',
+      state_code: supplier.state_code || '',
+      bank_name: supplier.bank_name || '',
+      bank_account_number: supplier.bank_account_number || '',
+      bank_ifsc: supplier.bank_ifsc || '',
+      upi_id: supplier.upi_id || '',
+      notes: supplier.notes || '',
+    });
+    setDialogOpen(true);
+  };
+
+  const term = search.toLowerCase();
+  const filteredSuppliers = suppliers.filter(
+    (s) =>
+      !term ||
+      s.name.toLowerCase().includes(term) ||
+      s.contact_person?.toLowerCase().includes(term) ||
+      s.phone_number?.includes(search) ||
+      s.gstin?.toLowerCase().includes(term)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Suppliers</h1>
+          <p className="text-muted-foreground">
+            Vendors you buy from, and what you owe them
+          </p>
+        </div>
+        <Dialog open={dialogOpen} onOpenChange={(open) => {
+          setDialogOpen(open);
+          if (!open) resetForm();
+        }}>
+          {can('suppliers.edit') && (
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Supplier
+              </Button>
+            </DialogTrigger>
+          )}
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingSupplier ? 'Edit' : 'Add'} Supplier</DialogTitle>
+              <DialogDescription>
+                {editingSupplier ? 'Update' : 'Create a new'} supplier record
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name *</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="contact_person">Contact Person</Label>
+                  <Input
+                    id="contact_person"
+                    value={formData.contact_person}
+                    onChange={(e) => setFormData({ ...formData, contact_person: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="phone">Phone Number</Label>
+                  <Input
+                    id="phone"
+                    value={formData.phone_number}
+                    onChange={(e) => setFormData({ ...formData, phone_number: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="address">Address</Label>
+                <Textarea
+                  id="address"
+                  value={formData.address}
+                  onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                  rows={2}
+                />
+              </div>
+              <GstinFields
+                gstin={formData.gstin}
+                stateCode={formData.state_code}
+                onChange={(value) => setFormData({ ...formData, ...value })}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="bank_name">Bank Name</Label>
+                  <Input
+                    id="bank_name"
+                    value={formData.bank_name}
+                    onChange={(e) => setFormData({ ...formData, bank_name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bank_account_number">Account Number</Label>
+                  <Input
+                    id="bank_account_number"
+                    value={formData.bank_account_number}
+                    onChange={(e) => setFormData({ ...formData, bank_account_number: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bank_ifsc">IFSC</Label>
+                  <Input
+                    id="bank_ifsc"
+                    placeholder="e.g., HDFC0001234"
+                    maxLength={11}
+                    value={formData.bank_ifsc}
+                    onChange={(e) => setFormData({ ...formData, bank_ifsc: e.target.value.toUpperCase() })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="upi_id">UPI ID</Label>
+                  <Input
+                    id="upi_id"
+                    placeholder="e.g., name@bank"
+                    value={formData.upi_id}
+                    onChange={(e) => setFormData({ ...formData, upi_id: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea
+                  id="notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={2}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">
+                  {editingSupplier ? 'Update' : 'Create'}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-4">
+            <div className="relative flex-1 max-w-sm">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search suppliers..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-16 bg-muted animate-pulse rounded" />
+              ))}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead className="text-right">Purchases</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredSuppliers.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      No suppliers found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredSuppliers.map((supplier) => {
+                    const balance = balances[supplier.id];
+                    const outstanding = Number(balance?.outstanding ?? 0);
+                    return (
+                      <TableRow key={supplier.id}>
+                        <TableCell>
+                          <div className="font-medium">{supplier.name}</div>
+                          {supplier.gstin && (
+                            <div className="text-xs text-muted-foreground">GSTIN {supplier.gstin}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {supplier.contact_person || '-'}
+                          {supplier.phone_number && (
+                            <div className="text-xs text-muted-foreground">{supplier.phone_number}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatINR(Number(balance?.total_purchases ?? 0))}</TableCell>
+                        <TableCell className="text-right">{formatINR(Number(balance?.total_payments ?? 0))}</TableCell>
+                        <TableCell className={`text-right font-medium ${outstanding > 0 ? 'text-destructive' : ''}`}>
+                          {formatINR(outstanding)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => navigate(`/suppliers/${supplier.id}`)}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            {can('audit_log.view') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setHistorySupplier(supplier)}
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can('suppliers.edit') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => openEditDialog(supplier)}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can('suppliers.delete') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDelete(supplier.id)}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!historySupplier} onOpenChange={(open) => !open && setHistorySupplier(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>History: {historySupplier?.name}</DialogTitle>
+            <DialogDescription>
+              Changes to this supplier and its bills and payments
+            </DialogDescription>
+          </DialogHeader>
+          {historySupplier && <EntityHistory referenceKey="supplier_id" id={historySupplier.id} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Suppliers;
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -28,43 +29,148 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Card, CardContent } from '@/components/ui/card';
-import { Plus, ArrowUp, ArrowDown, Pencil, Trash2 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Plus, ArrowUp, ArrowDown, ArrowUpDown, Pencil, Trash2, Download, Upload } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatINR } from '@/lib/currency';
+import { invoiceBalance, invoiceLabel } from '@/lib/invoices';
+import { milestoneBalance, nextOpenMilestone } from '@/lib/milestones';
+import { purchaseOrderBalance } from '@/lib/purchase-orders';
+import { COST_CATEGORIES, COST_CATEGORY_LABELS, CategoryCost, CostCategory, budgetOverrun } from '@/lib/budgets';
 import { Badge } from '@/components/ui/badge';
 import { SearchableSelect } from '@/components/SearchableSelect';
+import { DatePicker } from '@/components/DatePicker';
+import { TablePagination } from '@/components/TablePagination';
+import { TransactionImportDialog } from '@/components/TransactionImportDialog';
+import { useAuth } from '@/lib/auth-context';
+import {
+  DATE_RANGE_PRESETS,
+  DateRangePreset,
+  formatDate,
+  getPresetRange,
+  toDateValue,
+} from '@/lib/dates';
+import {
+  FUND_SOURCE_LABELS,
+  FundSource,
+  TransactionFilters,
+  TransactionSort,
+  TransactionSortColumn,
+  defaultTransactionSort,
+  emptyTransactionFilters,
+  fetchAllTransactions,
+  queryTransactions,
+  transactionExportRows,
+} from '@/lib/transactions';
+import { ExportFormat, exportRows } from '@/lib/export';
+import { GST_RATES, GST_STATES, HOME_STATE_CODE, calculateGst, isInterState, totalTax } from '@/lib/gst';
 
 interface Transaction {
   id: string;
-  project_id: string;
-  customer_id: string;
+  project_id: string | null;
+  customer_id: string | null;
   transaction_type: string;
-  fund_source: string;
+  fund_source: FundSource;
   amount: number;
   payment_mode: string;
   reason: string;
   metadata: any;
+  transaction_date: string;
+  taxable_value: number | null;
+  gst_rate: number | null;
+  place_of_supply: string | null;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  invoice_id: string | null;
+  supplier_id: string | null;
+  purchase_order_id: string | null;
+  cost_category: CostCategory | null;
+  milestone_id: string | null;
+  related_advance_id: string | null;
   created_at: string;
   customers?: { name: string };
   projects?: { name: string };
+  suppliers?: { name: string } | null;
+  payment_milestones?: { name: string } | null;
 }
 
+const PAGE_SIZE = 25;
+
+const NO_GST = 'none';
+
+const NO_INVOICE = 'none';
+
+const NO_SUPPLIER = 'none';
+
+const NO_PURCHASE_ORDER = 'none';
+
+const NO_CATEGORY = 'none';
+
+const NO_MILESTONE = 'none';
+
+const NO_GST_FIELDS = {
+  taxable_value: null,
+  gst_rate: null,
+  place_of_supply: null,
+  cgst_amount: 0,
+  sgst_amount: 0,
+  igst_amount: 0,
+};
+
+interface SortableHeadProps {
+  column: TransactionSortColumn;
+  label: string;
+  sort: TransactionSort;
+  onSort: (column: TransactionSortColumn) => void;
+  className?: string;
+}
+
+const SortableHead = ({ column, label, sort, onSort, className }: SortableHeadProps) => {
+  const Icon = sort.column !== column ? ArrowUpDown : sort.ascending ? ArrowUp : ArrowDown;
+  return (
+    <TableHead className={className}>
+      <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => onSort(column)}>
+        {label}
+        <Icon className={`ml-1 h-3 w-3 ${sort.column === column ? '' : 'opacity-50'}`} />
+      </Button>
+    </TableHead>
+  );
+};
+
 const Transactions = () => {
+  const { can } = useAuth();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [customers, setCustomers] = useState<any[]>([]);
   const [projects, setProjects] = useState<any[]>([]);
   const [allProjects, setAllProjects] = useState<any[]>([]);
+  const [suppliers, setSuppliers] = useState<{ id: string; name: string }[]>([]);
+  const [projectPurchaseOrders, setProjectPurchaseOrders] = useState<
+    Pick<Tables<'purchase_orders'>, 'id' | 'po_number' | 'supplier_id' | 'total_amount' | 'amount_paid' | 'status'>[]
+  >([]);
+  const [projectInvoices, setProjectInvoices] = useState<
+    Pick<Tables<'invoices'>, 'id' | 'invoice_number' | 'total_amount' | 'amount_paid' | 'status'>[]
+  >([]);
+  const [projectMilestones, setProjectMilestones] = useState<
+    Pick<Tables<'payment_milestones'>, 'id' | 'name' | 'due_date' | 'position' | 'amount' | 'amount_received'>[]
+  >([]);
+  const [projectCosts, setProjectCosts] = useState<CategoryCost[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
 
-  const [filters, setFilters] = useState({
-    customer: '',
-    project: '',
-    type: '',
-    fund: '',
-    mode: '',
-  });
+  const [filters, setFilters] = useState<TransactionFilters>(emptyTransactionFilters);
+  const [datePreset, setDatePreset] = useState('');
+  const [sort, setSort] = useState<TransactionSort>(defaultTransactionSort);
+  const [page, setPage] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [exporting, setExporting] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
 
   const [formData, setFormData] = useState({
     customer_id: '',
@@ -75,29 +181,58 @@ const Transactions = () => {
     payment_mode: '',
     reason: '',
     metadata: {} as any,
+    transaction_date: toDateValue(),
+    gst_rate: NO_GST,
+    taxable_value: '',
+    place_of_supply: HOME_STATE_CODE,
+    invoice_id: NO_INVOICE,
+    supplier_id: NO_SUPPLIER,
+    purchase_order_id: NO_PURCHASE_ORDER,
+    cost_category: NO_CATEGORY,
+    milestone_id: NO_MILESTONE,
   });
 
   useEffect(() => {
-    fetchTransactions();
     fetchCustomers();
     fetchAllProjects();
+    fetchSuppliers();
   }, []);
 
+  useEffect(() => {
+    // Debounce so typing in the payment mode filter doesn't fire a request per key
+    const timeout = setTimeout(fetchTransactions, 300);
+    return () => clearTimeout(timeout);
+  }, [filters, sort, page]);
+
   useEffect(() => {
     if (formData.customer_id) {
       fetchProjectsByCustomer(formData.customer_id);
     }
   }, [formData.customer_id]);
 
+  useEffect(() => {
+    if (formData.project_id) {
+      fetchProjectInvoices(formData.project_id);
+      fetchProjectPurchaseOrders(formData.project_id);
+      fetchProjectCosts(formData.project_id);
+      fetchProjectMilestones(formData.project_id);
+    } else {
+      setProjectInvoices([]);
+      setProjectPurchaseOrders([]);
+      setProjectCosts([]);
+      setProjectMilestones([]);
+    }
+  }, [formData.project_id]);
+
   const fetchTransactions = async () => {
     try {
-      const { data, error } = await supabase
-        .from('transactions')
-        .select('*, customers(name), projects(name)')
-        .order('created_at', { ascending: false });
+      const from = page * PAGE_SIZE;
+      const { data, error, count } = await queryTransactions(filters, sort)
+        .range(from, from + PAGE_SIZE - 1);
 
       if (error) throw error;
       setTransactions(data || []);
+      setTotal(count || 0);
     } catch (error: any) {
       toast.error('Failed to fetch transactions');
     } finally {
@@ -109,7 +244,7 @@ const Transactions = () => {
     try {
       const { data, error } = await supabase
         .from('customers')
-        .select('id, name')
+        .select('id, name, state_code')
         .order('name');
 
       if (error) throw error;
@@ -133,6 +268,20 @@ const Transactions = () => {
     }
   };
 
+  const fetchSuppliers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setSuppliers(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch suppliers');
+    }
+  };
+
   const fetchProjectsByCustomer = async (customerId: string) => {
     try {
       const { data, error } = await supabase
@@ -148,13 +297,109 @@ const Transactions = () => {
     }
   };
 
+  const fetchProjectInvoices = async (projectId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('id, invoice_number, total_amount, amount_paid, status')
+        .eq('project_id', projectId)
+        .neq('status', 'draft')
+        .order('invoice_date');
+
+      if (error) throw error;
+      setProjectInvoices(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch invoices');
+    }
+  };
+
+  const fetchProjectPurchaseOrders = async (projectId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select('id, po_number, supplier_id, total_amount, amount_paid, status')
+        .eq('project_id', projectId)
+        .order('order_date');
+
+      if (error) throw error;
+      setProjectPurchaseOrders(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch purchase orders');
+    }
+  };
+
+  const fetchProjectCosts = async (projectId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('project_category_costs')
+        .select('category, budget, actual')
+        .eq('project_id', projectId);
+
+      if (error) throw error;
+      setProjectCosts(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch project budget');
+    }
+  };
+
+  // A new receipt is matched to the earliest milestone still owing unless changed by hand
+  const fetchProjectMilestones = async (projectId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('payment_milestones')
+        .select('id, name, due_date, position, amount, amount_received')
+        .eq('project_id', projectId)
+        .order('position');
+
+      if (error) throw error;
+      setProjectMilestones(data || []);
+
+      const next = nextOpenMilestone(data || []);
+      if (next && !editingTransaction) {
+        setFormData((current) =>
+          current.project_id === projectId && current.milestone_id === NO_MILESTONE
+            ? { ...current, milestone_id: next.id }
+            : current
+        );
+      }
+    } catch (error) {
+      toast.error('Failed to fetch payment schedule');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (overrun > 0 && !confirm(
+      `This takes ${COST_CATEGORY_LABELS[formData.cost_category as CostCategory]} over budget by ${formatINR(overrun)}. Save anyway?`
+    )) return;
+
     try {
+      const {
+        gst_rate,
+        taxable_value,
+        place_of_supply,
+        invoice_id,
+        supplier_id,
+        purchase_order_id,
+        cost_category,
+        milestone_id,
+        ...fields
+      } = formData;
+      const isDebit = fields.transaction_type === 'debit';
+      const gst = gst_rate === NO_GST
+        ? null
+        : calculateGst(parseFloat(taxable_value), Number(gst_rate), place_of_supply);
       const txData = {
-        ...formData,
-        amount: parseFloat(formData.amount),
+        ...fields,
+        ...(gst ?? { ...NO_GST_FIELDS, amount: parseFloat(formData.amount) }),
+        // Only receipts settle an invoice
+        invoice_id: fields.transaction_type === 'credit' && invoice_id !== NO_INVOICE ? invoice_id : null,
+        milestone_id: fields.transaction_type === 'credit' && milestone_id !== NO_MILESTONE ? milestone_id : null,
+        // and only payments go to a supplier
+        supplier_id: isDebit && supplier_id !== NO_SUPPLIER ? supplier_id : null,
+        purchase_order_id: isDebit && purchase_order_id !== NO_PURCHASE_ORDER ? purchase_order_id : null,
+        cost_category: isDebit && cost_category !== NO_CATEGORY ? (cost_category as CostCategory) : null,
       };
 
       if (editingTransaction) {
@@ -210,6 +455,15 @@ const Transactions = () => {
       payment_mode: transaction.payment_mode || '',
       reason: transaction.reason,
       metadata: transaction.metadata || {},
+      transaction_date: transaction.transaction_date,
+      gst_rate: transaction.gst_rate === null ? NO_GST : String(Number(transaction.gst_rate)),
+      taxable_value: transaction.taxable_value === null ? '' : transaction.taxable_value.toString(),
+      place_of_supply: transaction.place_of_supply || HOME_STATE_CODE,
+      invoice_id: transaction.invoice_id || NO_INVOICE,
+      supplier_id: transaction.supplier_id || NO_SUPPLIER,
+      purchase_order_id: transaction.purchase_order_id || NO_PURCHASE_ORDER,
+      cost_category: transaction.cost_category || NO_CATEGORY,
+      milestone_id: transaction.milestone_id || NO_MILESTONE,
     });
     fetchProjectsByCustomer(transaction.customer_id);
     setDialogOpen(true);
@@ -225,19 +479,110 @@ const Transactions = () => {
       payment_mode: '',
       reason: '',
       metadata: {},
+      transaction_date: toDateValue(),
+      gst_rate: NO_GST,
+      taxable_value: '',
+      place_of_supply: HOME_STATE_CODE,
+      invoice_id: NO_INVOICE,
+      supplier_id: NO_SUPPLIER,
+      purchase_order_id: NO_PURCHASE_ORDER,
+      cost_category: NO_CATEGORY,
+      milestone_id: NO_MILESTONE,
     });
     setProjects([]);
     setEditingTransaction(null);
   };
 
-  const filteredTransactions = transactions.filter((tx) => {
-    if (filters.customer && tx.customer_id !== filters.customer) return false;
-    if (filters.project && tx.project_id !== filters.project) return false;
-    if (filters.type && tx.transaction_type !== filters.type) return false;
-    if (filters.fund && tx.fund_source !== filters.fund) return false;
-    if (filters.mode && !tx.payment_mode?.toLowerCase().includes(filters.mode.toLowerCase())) return false;
-    return true;
-  });
+  // Place of supply follows the customer's state unless changed by hand
+  const handleCustomerChange = (customerId: string) => {
+    const customer = customers.find((c) => c.id === customerId);
+    setFormData({
+      ...formData,
+      customer_id: customerId,
+      project_id: '',
+      place_of_supply: customer?.state_code || HOME_STATE_CODE,
+      invoice_id: NO_INVOICE,
+      purchase_order_id: NO_PURCHASE_ORDER,
+      milestone_id: NO_MILESTONE,
+    });
+  };
+
+  // A PO payment always goes to the PO's supplier
+  const handlePurchaseOrderChange = (purchaseOrderId: string) => {
+    const po = projectPurchaseOrders.find((p) => p.id === purchaseOrderId);
+    setFormData({
+      ...formData,
+      purchase_order_id: purchaseOrderId,
+      supplier_id: po ? po.supplier_id : formData.supplier_id,
+    });
+  };
+
+  const handleSupplierChange = (supplierId: string) => {
+    const po = projectPurchaseOrders.find((p) => p.id === formData.purchase_order_id);
+    setFormData({
+      ...formData,
+      supplier_id: supplierId || NO_SUPPLIER,
+      purchase_order_id: po && po.supplier_id !== supplierId ? NO_PURCHASE_ORDER : formData.purchase_order_id,
+    });
+  };
+
+  const gstPreview = formData.gst_rate !== NO_GST && formData.taxable_value
+    ? calculateGst(parseFloat(formData.taxable_value) || 0, Number(formData.gst_rate), formData.place_of_supply)
+    : null;
+
+  // The debit being edited is already in the actuals, so only the change in amount counts
+  const categoryCost = projectCosts.find((c) => c.category === formData.cost_category);
+  const previousAmount =
+    editingTransaction &&
+    editingTransaction.project_id === formData.project_id &&
+    editingTransaction.cost_category === formData.cost_category
+      ? Number(editingTransaction.amount)
+      : 0;
+  const overrun = formData.transaction_type === 'debit' && formData.cost_category !== NO_CATEGORY
+    ? budgetOverrun(categoryCost, (gstPreview?.amount ?? (parseFloat(formData.amount) || 0)) - previousAmount)
+    : 0;
+
+  const updateFilters = (changes: Partial<TransactionFilters>) => {
+    setFilters({ ...filters, ...changes });
+    setPage(0);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      const data = await fetchAllTransactions(filters, sort);
+      if (data.length === 0) {
+        toast.error('No transactions to export');
+        return;
+      }
+      const { columns, rows } = transactionExportRows(data);
+      await exportRows(rows, columns, `transactions-${toDateValue()}`, format, 'Transactions');
+      toast.success(`Exported ${data.length} transactions`);
+    } catch (error) {
+      toast.error('Failed to export transactions');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleSort = (column: TransactionSortColumn) => {
+    setSort(
+      sort.column === column
+        ? { column, ascending: !sort.ascending }
+        : { column, ascending: column === 'customer' || column === 'project' }
+    );
+    setPage(0);
+  };
+
+  const handleDatePresetChange = (value: string) => {
+    setDatePreset(value);
+    if (value.trim()) {
+      const { from, to } = getPresetRange(value as DateRangePreset);
+      updateFilters({ dateFrom: from, dateTo: to });
+    } else {
+      updateFilters({ dateFrom: '', dateTo: '' });
+    }
+  };
 
   return (
     <div className="space-y-6">
@@ -248,149 +593,391 @@ const Transactions = () => {
             Track all project payments and expenses
           </p>
         </div>
-        <Dialog open={dialogOpen} onOpenChange={(open) => {
-          setDialogOpen(open);
-          if (!open) resetForm();
-        }}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Transaction
+        <div className="flex gap-2">
+          {can('transactions.import') && (
+            <Button variant="outline" onClick={() => setImportDialogOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
             </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>{editingTransaction ? 'Edit' : 'Add'} Transaction</DialogTitle>
-              <DialogDescription>
-                {editingTransaction ? 'Update' : 'Record a new'} payment or expense
-              </DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="customer">Customer *</Label>
-                <Select
-                  value={formData.customer_id}
-                  onValueChange={(value) => setFormData({ ...formData, customer_id: value, project_id: '' })}
-                  required
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select customer" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {customers.map((c) => (
-                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="project">Project *</Label>
-                <Select
-                  value={formData.project_id}
-                  onValueChange={(value) => setFormData({ ...formData, project_id: value })}
-                  required
-                  disabled={!formData.customer_id}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder={formData.customer_id ? "Select project" : "Select customer first"} />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {projects.map((p) => (
-                      <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="grid grid-cols-2 gap-4">
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={exporting}>
+                <Download className="mr-2 h-4 w-4" />
+                {exporting ? 'Exporting...' : 'Export'}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport('csv')}>CSV (.csv)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Dialog open={dialogOpen} onOpenChange={(open) => {
+            setDialogOpen(open);
+            if (!open) resetForm();
+          }}>
+            {can('transactions.create') && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Transaction
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{editingTransaction ? 'Edit' : 'Add'} Transaction</DialogTitle>
+                <DialogDescription>
+                  {editingTransaction ? 'Update' : 'Record a new'} payment or expense
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
                 <div className="space-y-2">
-                  <Label htmlFor="transaction_type">Type *</Label>
+                  <Label htmlFor="customer">Customer *</Label>
                   <Select
-                    value={formData.transaction_type}
-                    onValueChange={(value: any) => setFormData({ ...formData, transaction_type: value })}
+                    value={formData.customer_id}
+                    onValueChange={handleCustomerChange}
+                    required
                   >
                     <SelectTrigger>
-                      <SelectValue />
+                      <SelectValue placeholder="Select customer" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="credit">Credit (Income)</SelectItem>
-                      <SelectItem value="debit">Debit (Expense)</SelectItem>
+                      {customers.map((c) => (
+                        <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="fund_source">Fund Source *</Label>
+                  <Label htmlFor="project">Project *</Label>
                   <Select
-                    value={formData.fund_source}
-                    onValueChange={(value: any) => setFormData({ ...formData, fund_source: value })}
+                    value={formData.project_id}
+                    onValueChange={(value) => setFormData({
+                      ...formData,
+                      project_id: value,
+                      invoice_id: NO_INVOICE,
+                      purchase_order_id: NO_PURCHASE_ORDER,
+                      milestone_id: NO_MILESTONE,
+                    })}
+                    required
+                    disabled={!formData.customer_id}
                   >
                     <SelectTrigger>
-                      <SelectValue />
+                      <SelectValue placeholder={formData.customer_id ? "Select project" : "Select customer first"} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="cash">Cash</SelectItem>
-                      <SelectItem value="bank">Bank</SelectItem>
+                      {projects.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="amount">Amount (₹) *</Label>
-                <Input
-                  id="amount"
-                  type="number"
-                  step="0.01"
-                  value={formData.amount}
-                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="payment_mode">Payment Mode *</Label>
-                <Input
-                  id="payment_mode"
-                  placeholder="e.g., NEFT, UPI, Cash, Cheque"
-                  value={formData.payment_mode}
-                  onChange={(e) => setFormData({ ...formData, payment_mode: e.target.value })}
-                  required
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="reason">Reason *</Label>
-                <Textarea
-                  id="reason"
-                  value={formData.reason}
-                  onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
-                  rows={3}
-                  required
-                />
-              </div>
-              {formData.fund_source === 'bank' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="transaction_type">Type *</Label>
+                    <Select
+                      value={formData.transaction_type}
+                      onValueChange={(value: any) => setFormData({ ...formData, transaction_type: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="credit">Credit (Income)</SelectItem>
+                        <SelectItem value="debit">Debit (Expense)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="fund_source">Fund Source *</Label>
+                    <Select
+                      value={formData.fund_source}
+                      onValueChange={(value: any) => setFormData({ ...formData, fund_source: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="cash">Cash</SelectItem>
+                        <SelectItem value="bank">Bank</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {formData.transaction_type === 'credit' && projectInvoices.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="invoice_id">Against Invoice</Label>
+                    <Select
+                      value={formData.invoice_id}
+                      onValueChange={(value) => setFormData({ ...formData, invoice_id: value })}
+                    >
+                      <SelectTrigger id="invoice_id">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_INVOICE}>Not against an invoice</SelectItem>
+                        {projectInvoices
+                          .filter((inv) => inv.status !== 'paid' || inv.id === formData.invoice_id)
+                          .map((inv) => (
+                            <SelectItem key={inv.id} value={inv.id}>
+                              {invoiceLabel(inv)} • {formatINR(invoiceBalance(inv))} due
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {formData.transaction_type === 'credit' && projectMilestones.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="milestone_id">Against Milestone</Label>
+                    <Select
+                      value={formData.milestone_id}
+                      onValueChange={(value) => setFormData({ ...formData, milestone_id: value })}
+                    >
+                      <SelectTrigger id="milestone_id">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_MILESTONE}>Not against a milestone</SelectItem>
+                        {projectMilestones
+                          .filter((m) => milestoneBalance(m) > 0 || m.id === formData.milestone_id)
+                          .map((m) => (
+                            <SelectItem key={m.id} value={m.id}>
+                              {m.name} • {formatINR(milestoneBalance(m))} due {formatDate(m.due_date)}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {formData.transaction_type === 'debit' && (
+                  <div className="space-y-2">
+                    <Label>Supplier</Label>
+                    <SearchableSelect
+                      options={[
+                        { value: NO_SUPPLIER, label: 'No supplier' },
+                        ...suppliers.map((s) => ({ value: s.id, label: s.name })),
+                      ]}
+                      value={formData.supplier_id}
+                      onValueChange={handleSupplierChange}
+                      placeholder="Select supplier"
+                      searchPlaceholder="Search suppliers..."
+                    />
+                  </div>
+                )}
+                {formData.transaction_type === 'debit' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="cost_category">Cost Category</Label>
+                    <Select
+                      value={formData.cost_category}
+                      onValueChange={(value) => setFormData({ ...formData, cost_category: value })}
+                    >
+                      <SelectTrigger id="cost_category">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_CATEGORY}>Uncategorised</SelectItem>
+                        {COST_CATEGORIES.map((category) => (
+                          <SelectItem key={category} value={category}>{COST_CATEGORY_LABELS[category]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {overrun > 0 && (
+                      <p className="text-xs text-destructive">
+                        Over the {COST_CATEGORY_LABELS[formData.cost_category as CostCategory]} budget by {formatINR(overrun)}
+                        {' '}({formatINR(Number(categoryCost?.budget))} budgeted, {formatINR(Number(categoryCost?.actual))} spent)
+                      </p>
+                    )}
+                  </div>
+                )}
+                {formData.transaction_type === 'debit' && projectPurchaseOrders.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="purchase_order_id">Against Purchase Order</Label>
+                    <Select value={formData.purchase_order_id} onValueChange={handlePurchaseOrderChange}>
+                      <SelectTrigger id="purchase_order_id">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_PURCHASE_ORDER}>Not against a purchase order</SelectItem>
+                        {projectPurchaseOrders
+                          .filter((po) => po.status !== 'closed' || po.id === formData.purchase_order_id)
+                          .map((po) => (
+                            <SelectItem key={po.id} value={po.id}>
+                              {po.po_number} • {formatINR(purchaseOrderBalance(po))} unpaid
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 <div className="space-y-2">
-                  <Label htmlFor="utr">Bank Reference (UTR/Transaction ID)</Label>
+                  <Label htmlFor="transaction_date">Transaction Date *</Label>
                   <Input
-                    id="utr"
-                    placeholder="Enter bank reference"
-                    value={formData.metadata.utr || ''}
-                    onChange={(e) => setFormData({ 
-                      ...formData, 
-                      metadata: { ...formData.metadata, utr: e.target.value }
+                    id="transaction_date"
+                    type="date"
+                    value={formData.transaction_date}
+                    onChange={(e) => setFormData({ ...formData, transaction_date: e.target.value })}
+                    required
+                  />
+                  {editingTransaction && (
+                    <p className="text-xs text-muted-foreground">
+                      Recorded on {new Date(editingTransaction.created_at).toLocaleString('en-IN')}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="gst_rate">GST</Label>
+                  <Select
+                    value={formData.gst_rate}
+                    onValueChange={(value) => setFormData({
+                      ...formData,
+                      gst_rate: value,
+                      // Start the taxable value from the amount already entered
+                      taxable_value: formData.taxable_value || (value === NO_GST ? '' : formData.amount),
                     })}
+                  >
+                    <SelectTrigger id="gst_rate">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_GST}>No GST</SelectItem>
+                      {GST_RATES.map((rate) => (
+                        <SelectItem key={rate} value={String(rate)}>{rate}%</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {formData.gst_rate === NO_GST ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="amount">Amount (₹) *</Label>
+                    <Input
+                      id="amount"
+                      type="number"
+                      step="0.01"
+                      value={formData.amount}
+                      onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                      required
+                    />
+                  </div>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="taxable_value">Taxable Value (₹) *</Label>
+                        <Input
+                          id="taxable_value"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={formData.taxable_value}
+                          onChange={(e) => setFormData({ ...formData, taxable_value: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="place_of_supply">Place of Supply *</Label>
+                        <Select
+                          value={formData.place_of_supply}
+                          onValueChange={(value) => setFormData({ ...formData, place_of_supply: value })}
+                        >
+                          <SelectTrigger id="place_of_supply">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(GST_STATES).map(([code, name]) => (
+                              <SelectItem key={code} value={code}>{code} - {name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    {gstPreview && (
+                      <div className="rounded-md border p-3 text-sm space-y-1">
+                        {isInterState(gstPreview.place_of_supply) ? (
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">IGST @ {gstPreview.gst_rate}%</span>
+                            <span>{formatINR(gstPreview.igst_amount)}</span>
+                          </div>
+                        ) : (
+                          <>
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">CGST @ {gstPreview.gst_rate / 2}%</span>
+                              <span>{formatINR(gstPreview.cgst_amount)}</span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">SGST @ {gstPreview.gst_rate / 2}%</span>
+                              <span>{formatINR(gstPreview.sgst_amount)}</span>
+                            </div>
+                          </>
+                        )}
+                        <div className="flex justify-between font-medium border-t pt-1">
+                          <span>Amount</span>
+                          <span>{formatINR(gstPreview.amount)}</span>
+                        </div>
+                      </div>
+                    )}
+                  </>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="payment_mode">Payment Mode *</Label>
+                  <Input
+                    id="payment_mode"
+                    placeholder="e.g., NEFT, UPI, Cash, Cheque"
+                    value={formData.payment_mode}
+                    onChange={(e) => setFormData({ ...formData, payment_mode: e.target.value })}
+                    required
                   />
                 </div>
-              )}
-              <div className="flex justify-end gap-2">
-                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button type="submit">
-                  {editingTransaction ? 'Update' : 'Create'} Transaction
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <div className="space-y-2">
+                  <Label htmlFor="reason">Reason *</Label>
+                  <Textarea
+                    id="reason"
+                    value={formData.reason}
+                    onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                    rows={3}
+                    required
+                  />
+                </div>
+                {formData.fund_source === 'bank' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="utr">Bank Reference (UTR/Transaction ID)</Label>
+                    <Input
+                      id="utr"
+                      placeholder="Enter bank reference"
+                      value={formData.metadata.utr || ''}
+                      onChange={(e) => setFormData({ 
+                        ...formData, 
+                        metadata: { ...formData.metadata, utr: e.target.value }
+                      })}
+                    />
+                  </div>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit">
+                    {editingTransaction ? 'Update' : 'Create'} Transaction
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      <TransactionImportDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        onImported={() => {
+          fetchTransactions();
+          fetchCustomers();
+          fetchAllProjects();
+          fetchSuppliers();
+        }}
+      />
+
       <Card>
         <CardContent className="pt-6 space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
@@ -399,7 +986,7 @@ const Transactions = () => {
               <SearchableSelect
                 options={customers.map((c) => ({ value: c.id, label: c.name }))}
                 value={filters.customer}
-                onValueChange={(value) => setFilters({ ...filters, customer: value })}
+                onValueChange={(value) => updateFilters({ customer: value })}
                 placeholder="All customers"
                 searchPlaceholder="Search customers..."
               />
@@ -409,7 +996,7 @@ const Transactions = () => {
               <SearchableSelect
                 options={allProjects.map((p) => ({ value: p.id, label: p.name }))}
                 value={filters.project}
-                onValueChange={(value) => setFilters({ ...filters, project: value })}
+                onValueChange={(value) => updateFilters({ project: value })}
                 placeholder="All projects"
                 searchPlaceholder="Search projects..."
               />
@@ -418,7 +1005,7 @@ const Transactions = () => {
               <Label>Type</Label>
               <Select
                 value={filters.type}
-                onValueChange={(value) => setFilters({ ...filters, type: value })}
+                onValueChange={(value) => updateFilters({ type: value })}
               >
                 <SelectTrigger>
                   <SelectValue placeholder="All types" />
@@ -434,7 +1021,7 @@ const Transactions = () => {
               <Label>Fund Source</Label>
               <Select
                 value={filters.fund}
-                onValueChange={(value) => setFilters({ ...filters, fund: value })}
+                onValueChange={(value) => updateFilters({ fund: value })}
               >
                 <SelectTrigger>
                   <SelectValue placeholder="All sources" />
@@ -443,6 +1030,7 @@ const Transactions = () => {
                   <SelectItem value=" ">All sources</SelectItem>
                   <SelectItem value="cash">Cash</SelectItem>
                   <SelectItem value="bank">Bank</SelectItem>
+                  <SelectItem value="petty_cash">Petty Cash</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -451,7 +1039,45 @@ const Transactions = () => {
               <Input
                 placeholder="Search mode..."
                 value={filters.mode}
-                onChange={(e) => setFilters({ ...filters, mode: e.target.value })}
+                onChange={(e) => updateFilters({ mode: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={datePreset} onValueChange={handleDatePresetChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="All dates" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=" ">All dates</SelectItem>
+                  {Object.entries(DATE_RANGE_PRESETS).map(([key, preset]) => (
+                    <SelectItem key={key} value={key}>{preset.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>From</Label>
+              <DatePicker
+                value={filters.dateFrom}
+                onValueChange={(value) => {
+                  setDatePreset('');
+                  updateFilters({ dateFrom: value });
+                }}
+                placeholder="Start date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <DatePicker
+                value={filters.dateTo}
+                onValueChange={(value) => {
+                  setDatePreset('');
+                  updateFilters({ dateTo: value });
+                }}
+                placeholder="End date"
               />
             </div>
           </div>
@@ -466,31 +1092,39 @@ const Transactions = () => {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Date</TableHead>
-                  <TableHead>Customer</TableHead>
-                  <TableHead>Project</TableHead>
+                  <SortableHead column="transaction_date" label="Date" sort={sort} onSort={handleSort} />
+                  <SortableHead column="customer" label="Customer" sort={sort} onSort={handleSort} />
+                  <SortableHead column="project" label="Project" sort={sort} onSort={handleSort} />
                   <TableHead>Type</TableHead>
                   <TableHead>Fund</TableHead>
-                  <TableHead className="text-right">Amount</TableHead>
+                  <SortableHead column="amount" label="Amount" sort={sort} onSort={handleSort} className="text-right" />
                   <TableHead>Mode</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredTransactions.length === 0 ? (
+                {transactions.length === 0 ? (
                   <TableRow>
                     <TableCell colSpan={8} className="text-center text-muted-foreground">
                       No transactions found
                     </TableCell>
                   </TableRow>
                 ) : (
-                  filteredTransactions.map((tx) => (
+                  transactions.map((tx) => (
                     <TableRow key={tx.id}>
                       <TableCell className="text-sm">
-                        {new Date(tx.created_at).toLocaleDateString('en-IN')}
+                        {formatDate(tx.transaction_date)}
                       </TableCell>
                       <TableCell>{tx.customers?.name || '-'}</TableCell>
-                      <TableCell>{tx.projects?.name || '-'}</TableCell>
+                      <TableCell>
+                        {tx.projects?.name || '-'}
+                        {tx.suppliers && (
+                          <div className="text-xs text-muted-foreground">Paid to {tx.suppliers.name}</div>
+                        )}
+                        {tx.payment_milestones && (
+                          <div className="text-xs text-muted-foreground">For {tx.payment_milestones.name}</div>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <Badge 
                           variant={tx.transaction_type === 'credit' ? 'default' : 'destructive'}
@@ -505,31 +1139,45 @@ const Transactions = () => {
                         </Badge>
                       </TableCell>
                       <TableCell>
-                        <Badge variant="outline">{tx.fund_source}</Badge>
+                        <Badge variant="outline">{FUND_SOURCE_LABELS[tx.fund_source]}</Badge>
                       </TableCell>
                       <TableCell className="text-right font-medium">
                         {formatINR(Number(tx.amount))}
+                        {tx.gst_rate !== null && (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            incl. {Number(tx.gst_rate)}% GST {formatINR(totalTax(tx))}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell className="text-sm text-muted-foreground">
                         {tx.payment_mode}
                       </TableCell>
                       <TableCell className="text-right">
-                        <div className="flex justify-end gap-2">
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => openEditDialog(tx)}
-                          >
-                            <Pencil className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => handleDelete(tx.id)}
-                          >
-                            <Trash2 className="h-4 w-4 text-destructive" />
-                          </Button>
-                        </div>
+                        {/* Petty cash postings follow their advance and are changed from there */}
+                        {tx.related_advance_id ? (
+                          <span className="text-xs text-muted-foreground">Petty cash</span>
+                        ) : (
+                          <div className="flex justify-end gap-2">
+                            {can('transactions.edit') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => openEditDialog(tx)}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can('transactions.delete') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDelete(tx.id)}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
@@ -537,6 +1185,13 @@ const Transactions = () => {
               </TableBody>
             </Table>
           )}
+
+          <TablePagination
+            page={page}
+            pageSize={PAGE_SIZE}
+            total={total}
+            onPageChange={setPage}
+          />
         </CardContent>
       </Card>
     </div>
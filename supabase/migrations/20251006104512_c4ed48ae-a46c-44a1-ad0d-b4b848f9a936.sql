@@ -0,0 +1,10 @@
+-- Business date of a transaction, separate from the created_at audit timestamp
+ALTER TABLE public.transactions
+  ADD COLUMN transaction_date DATE NOT NULL DEFAULT CURRENT_DATE;
+
+-- Backfill existing rows from when they were entered
+UPDATE public.transactions
+SET transaction_date = (created_at AT TIME ZONE 'Asia/Kolkata')::DATE
+WHERE created_at IS NOT NULL;
+
+CREATE INDEX idx_transactions_transaction_date ON public.transactions (transaction_date DESC);
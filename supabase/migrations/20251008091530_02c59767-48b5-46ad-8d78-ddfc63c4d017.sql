@@ -0,0 +1,177 @@
+-- Role-based access control
+CREATE TYPE public.app_role AS ENUM ('admin', 'accountant', 'site_supervisor', 'viewer');
+
+-- Every signup used to get the default 'user' role, so that says nothing about who should
+-- have access: existing users start as viewers like new signups, and only the bootstrap
+-- account becomes admin to hand out roles from the Users page.
+ALTER TABLE public.profiles ALTER COLUMN role DROP DEFAULT;
+
+UPDATE public.profiles
+SET role = CASE
+  WHEN role IN ('admin', 'accountant', 'site_supervisor', 'viewer') THEN role
+  ELSE 'viewer'
+END;
+
+-- Set app.bootstrap_admin_email for the deployment to pick the account; without it the
+-- first account ever created is the one promoted, and only if no admin exists yet
+UPDATE public.profiles
+SET role = 'admin'
+WHERE NOT EXISTS (SELECT 1 FROM public.profiles WHERE role = 'admin')
+  AND id = COALESCE(
+    (SELECT id FROM public.profiles
+     WHERE lower(email) = lower(NULLIF(current_setting('app.bootstrap_admin_email', true), ''))),
+    (SELECT id FROM public.profiles ORDER BY created_at NULLS LAST, id LIMIT 1)
+  );
+
+ALTER TABLE public.profiles
+  ALTER COLUMN role TYPE public.app_role USING role::public.app_role,
+  ALTER COLUMN role SET DEFAULT 'viewer',
+  ALTER COLUMN role SET NOT NULL;
+
+-- Role helpers. SECURITY DEFINER so policies can read profiles without recursing into its RLS.
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS public.app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.profiles WHERE id = auth.uid()
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_any_role(_user_id UUID, _roles public.app_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _user_id AND role = ANY(_roles)
+  )
+$$;
+
+-- Only admins may change a role (the SQL console, with no auth.uid(), is allowed so the first admin can be set)
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_any_role(auth.uid(), ARRAY['admin']::public.app_role[]) THEN
+    RAISE EXCEPTION 'Only admins can change user roles';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_role_change BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_role();
+
+-- Profiles
+CREATE POLICY "Admins can view all profiles" ON public.profiles
+  FOR SELECT TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+CREATE POLICY "Admins can update profiles" ON public.profiles
+  FOR UPDATE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+-- Customers: everyone reads, admin/accountant edit, only admin deletes
+DROP POLICY "Authenticated users can create customers" ON public.customers;
+DROP POLICY "Authenticated users can update customers" ON public.customers;
+DROP POLICY "Authenticated users can delete customers" ON public.customers;
+
+CREATE POLICY "Finance roles can create customers" ON public.customers
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE POLICY "Finance roles can update customers" ON public.customers
+  FOR UPDATE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE POLICY "Admins can delete customers" ON public.customers
+  FOR DELETE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+-- Projects: same as customers
+DROP POLICY "Authenticated users can create projects" ON public.projects;
+DROP POLICY "Authenticated users can update projects" ON public.projects;
+DROP POLICY "Authenticated users can delete projects" ON public.projects;
+
+CREATE POLICY "Finance roles can create projects" ON public.projects
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE POLICY "Finance roles can update projects" ON public.projects
+  FOR UPDATE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE POLICY "Admins can delete projects" ON public.projects
+  FOR DELETE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+-- Employees: hidden from viewers
+DROP POLICY "Authenticated users can view employees" ON public.employees;
+DROP POLICY "Authenticated users can create employees" ON public.employees;
+DROP POLICY "Authenticated users can update employees" ON public.employees;
+DROP POLICY "Authenticated users can delete employees" ON public.employees;
+
+CREATE POLICY "Staff roles can view employees" ON public.employees
+  FOR SELECT TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant', 'site_supervisor']::public.app_role[]));
+
+CREATE POLICY "Finance roles can create employees" ON public.employees
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE POLICY "Finance roles can update employees" ON public.employees
+  FOR UPDATE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE POLICY "Admins can delete employees" ON public.employees
+  FOR DELETE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+-- Petty cash: site supervisors issue and settle advances, finance roles can delete
+DROP POLICY "Authenticated users can view advances" ON public.petty_cash_advance;
+DROP POLICY "Authenticated users can create advances" ON public.petty_cash_advance;
+DROP POLICY "Authenticated users can update advances" ON public.petty_cash_advance;
+DROP POLICY "Authenticated users can delete advances" ON public.petty_cash_advance;
+
+CREATE POLICY "Staff roles can view advances" ON public.petty_cash_advance
+  FOR SELECT TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant', 'site_supervisor']::public.app_role[]));
+
+CREATE POLICY "Staff roles can create advances" ON public.petty_cash_advance
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant', 'site_supervisor']::public.app_role[]));
+
+CREATE POLICY "Staff roles can update advances" ON public.petty_cash_advance
+  FOR UPDATE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant', 'site_supervisor']::public.app_role[]));
+
+CREATE POLICY "Finance roles can delete advances" ON public.petty_cash_advance
+  FOR DELETE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+-- Transactions: site supervisors may record entries, only finance roles change or remove them
+DROP POLICY "Authenticated users can create transactions" ON public.transactions;
+DROP POLICY "Authenticated users can update transactions" ON public.transactions;
+DROP POLICY "Authenticated users can delete transactions" ON public.transactions;
+
+CREATE POLICY "Staff roles can create transactions" ON public.transactions
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant', 'site_supervisor']::public.app_role[]));
+
+CREATE POLICY "Finance roles can update transactions" ON public.transactions
+  FOR UPDATE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE POLICY "Finance roles can delete transactions" ON public.transactions
+  FOR DELETE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
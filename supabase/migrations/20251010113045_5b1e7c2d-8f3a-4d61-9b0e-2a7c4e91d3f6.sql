@@ -0,0 +1,27 @@
+-- The audit log exposes every balance change, so limit it to the roles that reconcile the books
+DROP POLICY "Authenticated users can view activity logs" ON public.activity_log;
+
+CREATE POLICY "Admins and accountants can view activity logs" ON public.activity_log
+  FOR SELECT TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+-- Filtering by project reads data->>'project_id'
+CREATE INDEX idx_activity_log_project_id ON public.activity_log ((data->>'project_id'));
+CREATE INDEX idx_activity_log_timestamp ON public.activity_log (timestamp DESC);
+
+-- Profiles are private to admins, so the actor filter resolves names for whoever appears in the log.
+-- SECURITY DEFINER to read past profiles RLS; gated to the same roles that can read the log.
+CREATE OR REPLACE FUNCTION public.activity_log_actors()
+RETURNS TABLE (id UUID, name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, COALESCE(NULLIF(p.full_name, ''), NULLIF(p.email, ''), p.id::text)
+  FROM public.profiles p
+  WHERE public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[])
+    AND EXISTS (SELECT 1 FROM public.activity_log l WHERE l.actor_id = p.id)
+$$;
+
+CREATE INDEX idx_activity_log_actor_id ON public.activity_log (actor_id);
@@ -0,0 +1,84 @@
+-- Generic audit trail: every insert/update/delete on the core tables is logged with the
+-- acting user and a field-level before/after diff.
+ALTER TABLE public.activity_log
+  ADD COLUMN entity_type TEXT,
+  ADD COLUMN entity_id UUID;
+
+CREATE INDEX idx_activity_log_entity ON public.activity_log (entity_type, entity_id);
+CREATE INDEX idx_activity_log_customer_id ON public.activity_log ((data->>'customer_id'));
+
+-- Rows are only written by the SECURITY DEFINER logging triggers, so nobody needs to insert
+-- directly; leaving the policy open would let any signed-in user forge history.
+DROP POLICY "System can insert activity logs" ON public.activity_log;
+
+-- TG_ARGV[0] is the entity name (e.g. 'project'); further arguments are columns to leave
+-- out of the diff. data carries <entity>_id plus any project/customer/employee the row
+-- belongs to, so a record's history also picks up changes to its children.
+CREATE OR REPLACE FUNCTION public.log_entity_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entity TEXT := TG_ARGV[0];
+  ignored TEXT[] := ARRAY['created_at', 'updated_at'] || TG_ARGV[1:];
+  old_row JSONB := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+  row_data JSONB := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+  changes JSONB := '{}'::jsonb;
+  field TEXT;
+BEGIN
+  FOR field IN SELECT jsonb_object_keys(old_row || new_row) LOOP
+    CONTINUE WHEN field = ANY(ignored);
+    IF COALESCE(old_row -> field, 'null'::jsonb) IS DISTINCT FROM COALESCE(new_row -> field, 'null'::jsonb) THEN
+      changes := changes || jsonb_build_object(
+        field, jsonb_build_object('old', old_row -> field, 'new', new_row -> field)
+      );
+    END IF;
+  END LOOP;
+
+  -- Updates that only touch ignored columns (e.g. derived balances) are not worth a row
+  IF TG_OP = 'UPDATE' AND changes = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.activity_log (actor_type, actor_id, action, entity_type, entity_id, data)
+  VALUES (
+    CASE WHEN auth.uid() IS NULL THEN 'system' ELSE 'user' END,
+    auth.uid(),
+    entity || '_' || CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'updated' ELSE 'deleted' END,
+    entity,
+    (row_data->>'id')::uuid,
+    jsonb_strip_nulls(jsonb_build_object(
+      'project_id', row_data->>'project_id',
+      'customer_id', row_data->>'customer_id',
+      'employee_id', row_data->>'employee_id'
+    ))
+    || jsonb_build_object(entity || '_id', row_data->>'id', 'changes', changes)
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER audit_customers
+  AFTER INSERT OR UPDATE OR DELETE ON public.customers
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change('customer');
+
+-- remaining_amount is maintained by the transaction trigger, which logs its own balance entries
+CREATE TRIGGER audit_projects
+  AFTER INSERT OR UPDATE OR DELETE ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change('project', 'remaining_amount');
+
+CREATE TRIGGER audit_employees
+  AFTER INSERT OR UPDATE OR DELETE ON public.employees
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change('employee');
+
+CREATE TRIGGER audit_petty_cash_advance
+  AFTER INSERT OR UPDATE OR DELETE ON public.petty_cash_advance
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change('advance');
+
+CREATE TRIGGER audit_transactions
+  AFTER INSERT OR UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change('transaction');
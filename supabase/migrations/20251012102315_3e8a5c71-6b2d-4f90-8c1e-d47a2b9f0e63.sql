@@ -0,0 +1,53 @@
+-- GST on transactions. amount stays the gross figure every balance is built on; the tax
+-- columns break it down when the entry is a taxable supply.
+ALTER TABLE public.customers
+  ADD COLUMN gstin TEXT,
+  ADD COLUMN state_code TEXT;
+
+ALTER TABLE public.customers
+  ADD CONSTRAINT customers_gstin_format
+    CHECK (gstin IS NULL OR gstin ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$'),
+  ADD CONSTRAINT customers_state_code_format
+    CHECK (state_code IS NULL OR state_code ~ '^[0-9]{2}$');
+
+ALTER TABLE public.transactions
+  ADD COLUMN taxable_value DECIMAL(15, 2),
+  ADD COLUMN gst_rate DECIMAL(5, 2),
+  ADD COLUMN place_of_supply TEXT,
+  ADD COLUMN cgst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN sgst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN igst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0;
+
+-- Either intra-state (CGST + SGST) or inter-state (IGST), and the parts must add up to amount
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_gst_breakdown CHECK (
+    (taxable_value IS NULL AND gst_rate IS NULL AND cgst_amount = 0 AND sgst_amount = 0 AND igst_amount = 0)
+    OR (
+      taxable_value IS NOT NULL
+      AND gst_rate BETWEEN 0 AND 100
+      AND place_of_supply ~ '^[0-9]{2}$'
+      AND (igst_amount = 0 OR (cgst_amount = 0 AND sgst_amount = 0))
+      AND amount = taxable_value + cgst_amount + sgst_amount + igst_amount
+    )
+  );
+
+-- Monthly totals for GSTR-1 (outward supplies: credits) and GSTR-3B (also inward: debits).
+-- security_invoker keeps the transactions RLS policies in force. The B2B/B2C split only
+-- means something for sales, so purchases are not grouped by the customer's registration.
+CREATE VIEW public.gst_monthly_summary
+WITH (security_invoker = true) AS
+SELECT
+  date_trunc('month', t.transaction_date)::date AS month,
+  t.transaction_type,
+  t.gst_rate,
+  CASE WHEN t.transaction_type = 'credit' THEN c.gstin IS NOT NULL END AS registered_customer,
+  count(*) AS transaction_count,
+  sum(t.taxable_value) AS taxable_value,
+  sum(t.cgst_amount) AS cgst_amount,
+  sum(t.sgst_amount) AS sgst_amount,
+  sum(t.igst_amount) AS igst_amount,
+  sum(t.amount) AS total_amount
+FROM public.transactions t
+LEFT JOIN public.customers c ON c.id = t.customer_id
+WHERE t.taxable_value IS NOT NULL
+GROUP BY 1, 2, 3, 4;
@@ -0,0 +1,450 @@
+-- Invoices: numbered per financial year, line items with GST, paid by linked credit transactions
+CREATE TYPE public.invoice_status AS ENUM ('draft', 'sent', 'partially_paid', 'paid');
+
+-- Financial year (April-March) label, e.g. 2026-27
+CREATE OR REPLACE FUNCTION public.financial_year_label(_date DATE)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_char(fy_start, 'YYYY') || '-' || to_char(fy_start + INTERVAL '1 year', 'YY')
+  FROM (
+    SELECT make_date(
+      extract(year FROM _date)::int - CASE WHEN extract(month FROM _date) < 4 THEN 1 ELSE 0 END,
+      4, 1
+    ) AS fy_start
+  ) fy
+$$;
+
+-- One counter per document prefix and financial year. Only reachable through
+-- next_document_number, so no policies.
+CREATE TABLE public.document_sequences (
+  prefix TEXT NOT NULL,
+  financial_year TEXT NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (prefix, financial_year)
+);
+
+ALTER TABLE public.document_sequences ENABLE ROW LEVEL SECURITY;
+
+-- The upsert locks the counter row, so concurrent callers never get the same number
+CREATE OR REPLACE FUNCTION public.next_document_number(_prefix TEXT, _date DATE)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  fy TEXT := public.financial_year_label(_date);
+  next_number INTEGER;
+BEGIN
+  INSERT INTO public.document_sequences AS s (prefix, financial_year, last_number)
+  VALUES (_prefix, fy, 1)
+  ON CONFLICT (prefix, financial_year) DO UPDATE SET last_number = s.last_number + 1
+  RETURNING last_number INTO next_number;
+
+  RETURN _prefix || '/' || fy || '/' || lpad(next_number::text, 4, '0');
+END;
+$$;
+
+-- Numbers are handed out by the numbering triggers only; a direct call would burn one
+REVOKE EXECUTE ON FUNCTION public.next_document_number(TEXT, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Issued invoices are tax records, so their project and customer cannot be deleted from under them
+CREATE TABLE public.invoices (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  invoice_number TEXT UNIQUE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE RESTRICT,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE RESTRICT,
+  invoice_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  due_date DATE,
+  place_of_supply TEXT NOT NULL CHECK (place_of_supply ~ '^[0-9]{2}$'),
+  status public.invoice_status NOT NULL DEFAULT 'draft',
+  notes TEXT,
+  taxable_value DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  cgst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  sgst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  igst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  amount_paid DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_invoices_project_id ON public.invoices (project_id);
+CREATE INDEX idx_invoices_customer_id ON public.invoices (customer_id);
+
+CREATE TABLE public.invoice_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  description TEXT NOT NULL,
+  hsn_sac TEXT,
+  quantity DECIMAL(12, 3) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit TEXT,
+  rate DECIMAL(15, 2) NOT NULL CHECK (rate >= 0),
+  gst_rate DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (gst_rate BETWEEN 0 AND 100),
+  taxable_value DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  cgst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  sgst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  igst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_invoice_items_invoice_id ON public.invoice_items (invoice_id);
+
+ALTER TABLE public.transactions
+  ADD COLUMN invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_transactions_invoice_id ON public.transactions (invoice_id);
+
+-- Number an invoice when it leaves draft; drafts can be deleted without leaving gaps
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'draft' AND NEW.invoice_number IS NULL THEN
+    NEW.invoice_number := public.next_document_number('INV', NEW.invoice_date);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_invoice_number_trigger
+  BEFORE INSERT OR UPDATE ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.assign_invoice_number();
+
+CREATE TRIGGER update_invoices_updated_at BEFORE UPDATE ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Totals, amount_paid and the status after sending are derived by refresh_invoice, which
+-- only runs from the item and transaction triggers. By hand, a draft can only be sent; after
+-- that the invoice is a tax record and nothing people enter on it can change.
+CREATE OR REPLACE FUNCTION public.protect_issued_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft' THEN
+      RAISE EXCEPTION 'Invoices start as drafts';
+    END IF;
+    IF (NEW.taxable_value, NEW.cgst_amount, NEW.sgst_amount, NEW.igst_amount, NEW.total_amount, NEW.amount_paid)
+      IS DISTINCT FROM (0, 0, 0, 0, 0, 0) THEN
+      RAISE EXCEPTION 'Invoice totals and payments are worked out from its lines and receipts';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.taxable_value, NEW.cgst_amount, NEW.sgst_amount, NEW.igst_amount, NEW.total_amount, NEW.amount_paid)
+    IS DISTINCT FROM
+    (OLD.taxable_value, OLD.cgst_amount, OLD.sgst_amount, OLD.igst_amount, OLD.total_amount, OLD.amount_paid) THEN
+    RAISE EXCEPTION 'Invoice totals and payments are worked out from its lines and receipts';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (OLD.status = 'draft' AND NEW.status = 'sent') THEN
+    IF NEW.status = 'draft' THEN
+      RAISE EXCEPTION 'Invoice % has been sent and cannot go back to draft', OLD.invoice_number;
+    END IF;
+    RAISE EXCEPTION 'Invoice status follows the payments recorded against it';
+  END IF;
+
+  IF OLD.status = 'draft' THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.invoice_number, NEW.project_id, NEW.customer_id, NEW.invoice_date, NEW.due_date, NEW.place_of_supply, NEW.notes)
+    IS DISTINCT FROM
+    (OLD.invoice_number, OLD.project_id, OLD.customer_id, OLD.invoice_date, OLD.due_date, OLD.place_of_supply, OLD.notes) THEN
+    RAISE EXCEPTION 'Invoice % has been sent and can no longer be edited', OLD.invoice_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_issued_invoice_trigger
+  BEFORE INSERT OR UPDATE ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.protect_issued_invoice();
+
+-- The bill goes to the customer the project is for
+CREATE OR REPLACE FUNCTION public.validate_invoice_customer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.projects WHERE id = NEW.project_id AND customer_id = NEW.customer_id) THEN
+    RAISE EXCEPTION 'Invoice customer must be the customer of its project';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_invoice_customer_trigger
+  BEFORE INSERT OR UPDATE OF project_id, customer_id ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.validate_invoice_customer();
+
+-- Totals come from the line items, amount_paid from linked credits, and the status from both
+CREATE OR REPLACE FUNCTION public.refresh_invoice(_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.invoices i
+  SET
+    taxable_value = items.taxable_value,
+    cgst_amount = items.cgst_amount,
+    sgst_amount = items.sgst_amount,
+    igst_amount = items.igst_amount,
+    total_amount = items.amount,
+    amount_paid = payments.paid,
+    status = CASE
+      WHEN i.status = 'draft' THEN 'draft'
+      WHEN payments.paid > 0 AND payments.paid >= items.amount THEN 'paid'
+      WHEN payments.paid > 0 THEN 'partially_paid'
+      ELSE 'sent'
+    END::public.invoice_status
+  FROM
+    (
+      SELECT
+        COALESCE(sum(taxable_value), 0) AS taxable_value,
+        COALESCE(sum(cgst_amount), 0) AS cgst_amount,
+        COALESCE(sum(sgst_amount), 0) AS sgst_amount,
+        COALESCE(sum(igst_amount), 0) AS igst_amount,
+        COALESCE(sum(amount), 0) AS amount
+      FROM public.invoice_items
+      WHERE invoice_id = _invoice_id
+    ) items,
+    (
+      SELECT COALESCE(sum(amount), 0) AS paid
+      FROM public.transactions
+      WHERE invoice_id = _invoice_id AND transaction_type = 'credit'
+    ) payments
+  WHERE i.id = _invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_invoice_from_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_invoice(COALESCE(NEW.invoice_id, OLD.invoice_id));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_invoice_on_item_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.invoice_items
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_invoice_from_items();
+
+CREATE OR REPLACE FUNCTION public.refresh_invoice_from_transactions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Covers deletes, unlinking, and amount or type changes on the same invoice
+  IF TG_OP <> 'INSERT' THEN
+    IF OLD.invoice_id IS NOT NULL THEN
+      PERFORM public.refresh_invoice(OLD.invoice_id);
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.invoice_id IS NOT NULL THEN
+      PERFORM public.refresh_invoice(NEW.invoice_id);
+    END IF;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.invoice_id IS DISTINCT FROM OLD.invoice_id AND NEW.invoice_id IS NOT NULL THEN
+      PERFORM public.refresh_invoice(NEW.invoice_id);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_invoice_on_transaction_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_invoice_from_transactions();
+
+-- A payment must be a credit on the invoice's own project, against an issued invoice
+CREATE OR REPLACE FUNCTION public.validate_transaction_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice RECORD;
+BEGIN
+  IF NEW.invoice_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT project_id, status INTO invoice FROM public.invoices WHERE id = NEW.invoice_id;
+
+  IF NEW.transaction_type <> 'credit' THEN
+    RAISE EXCEPTION 'Only credits can be recorded against an invoice';
+  END IF;
+  IF invoice.project_id <> NEW.project_id THEN
+    RAISE EXCEPTION 'Invoice belongs to a different project';
+  END IF;
+  IF invoice.status = 'draft' THEN
+    RAISE EXCEPTION 'Payments cannot be recorded against a draft invoice';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_transaction_invoice_trigger
+  BEFORE INSERT OR UPDATE OF invoice_id, project_id, transaction_type ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.validate_transaction_invoice();
+
+-- Invoices follow the transactions policies: everyone reads, finance roles write.
+-- Only drafts can be deleted; issued invoices stay for the tax record.
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view invoices" ON public.invoices
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Finance roles can create invoices" ON public.invoices
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE POLICY "Finance roles can update invoices" ON public.invoices
+  FOR UPDATE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE POLICY "Finance roles can delete draft invoices" ON public.invoices
+  FOR DELETE TO authenticated
+  USING (
+    status = 'draft'
+    AND public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[])
+  );
+
+CREATE POLICY "Authenticated users can view invoice items" ON public.invoice_items
+  FOR SELECT TO authenticated USING (true);
+
+-- Lines are part of the tax record too, so they only change while the invoice is a draft
+CREATE POLICY "Finance roles can manage draft invoice items" ON public.invoice_items
+  FOR ALL TO authenticated
+  USING (
+    public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[])
+    AND EXISTS (SELECT 1 FROM public.invoices WHERE id = invoice_id AND status = 'draft')
+  )
+  WITH CHECK (
+    public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[])
+    AND EXISTS (SELECT 1 FROM public.invoices WHERE id = invoice_id AND status = 'draft')
+  );
+
+-- Must match VITE_GST_STATE_CODE on the client; supplies within it are intra-state
+CREATE OR REPLACE FUNCTION public.gst_home_state()
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '33'::TEXT;
+$$;
+
+-- Same split as calculateGst on the client: CGST takes the rounded half and SGST the rest
+CREATE OR REPLACE FUNCTION public.calculate_gst(_taxable_value NUMERIC, _gst_rate NUMERIC, _place_of_supply TEXT)
+RETURNS TABLE (
+  taxable_value NUMERIC,
+  cgst_amount NUMERIC,
+  sgst_amount NUMERIC,
+  igst_amount NUMERIC,
+  amount NUMERIC
+)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    taxable,
+    CASE WHEN inter_state THEN 0 ELSE round(tax / 2, 2) END,
+    CASE WHEN inter_state THEN 0 ELSE tax - round(tax / 2, 2) END,
+    CASE WHEN inter_state THEN tax ELSE 0 END,
+    taxable + tax
+  FROM (
+    SELECT
+      round(_taxable_value, 2) AS taxable,
+      round(round(_taxable_value, 2) * _gst_rate / 100, 2) AS tax,
+      _place_of_supply <> public.gst_home_state() AS inter_state
+  ) line;
+$$;
+
+-- Runs with the caller's rights, so the policies above still apply. Saving the header and
+-- replacing the lines in one call means a failed save never leaves an invoice without lines.
+-- The tax on each line is worked out here from its rate and the invoice's place of supply.
+CREATE OR REPLACE FUNCTION public.save_invoice(_invoice JSONB, _items JSONB, _invoice_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  header public.invoices := jsonb_populate_record(NULL::public.invoices, _invoice);
+  saved_id UUID := _invoice_id;
+BEGIN
+  IF saved_id IS NULL THEN
+    INSERT INTO public.invoices (project_id, customer_id, invoice_date, due_date, place_of_supply, notes)
+    VALUES (header.project_id, header.customer_id, header.invoice_date, header.due_date, header.place_of_supply, header.notes)
+    RETURNING id INTO saved_id;
+  ELSE
+    UPDATE public.invoices
+    SET
+      project_id = header.project_id,
+      customer_id = header.customer_id,
+      invoice_date = header.invoice_date,
+      due_date = header.due_date,
+      place_of_supply = header.place_of_supply,
+      notes = header.notes
+    WHERE id = saved_id AND status = 'draft';
+
+    -- RLS filters the update silently rather than raising
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Only draft invoices can be edited';
+    END IF;
+
+    DELETE FROM public.invoice_items WHERE invoice_id = saved_id;
+  END IF;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, position, description, hsn_sac, quantity, unit, rate, gst_rate,
+    taxable_value, cgst_amount, sgst_amount, igst_amount, amount
+  )
+  SELECT
+    saved_id, item.position, item.description, item.hsn_sac, item.quantity, item.unit, item.rate, item.gst_rate,
+    gst.taxable_value, gst.cgst_amount, gst.sgst_amount, gst.igst_amount, gst.amount
+  FROM jsonb_populate_recordset(NULL::public.invoice_items, _items) item
+  CROSS JOIN LATERAL public.calculate_gst(item.quantity * item.rate, item.gst_rate, header.place_of_supply) gst;
+
+  RETURN saved_id;
+END;
+$$;
+
+-- amount_paid and the totals are derived, so only log what people change
+CREATE TRIGGER audit_invoices
+  AFTER INSERT OR UPDATE OR DELETE ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change(
+    'invoice', 'amount_paid', 'taxable_value', 'cgst_amount', 'sgst_amount', 'igst_amount', 'total_amount'
+  );
@@ -0,0 +1,379 @@
+-- Quotations: each revision is kept as a numbered version with its own line items.
+-- Accepting a version turns it into the project's contract value.
+CREATE TYPE public.quotation_status AS ENUM ('draft', 'sent', 'accepted', 'rejected');
+
+-- Line discounts apply before tax, so taxable_value is already net of them
+ALTER TABLE public.invoice_items
+  ADD COLUMN discount_percent DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (discount_percent BETWEEN 0 AND 100);
+
+-- Invoice saves carry the discount through with the rest of the line, taking it off before tax
+CREATE OR REPLACE FUNCTION public.save_invoice(_invoice JSONB, _items JSONB, _invoice_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  header public.invoices := jsonb_populate_record(NULL::public.invoices, _invoice);
+  saved_id UUID := _invoice_id;
+BEGIN
+  IF saved_id IS NULL THEN
+    INSERT INTO public.invoices (project_id, customer_id, invoice_date, due_date, place_of_supply, notes)
+    VALUES (header.project_id, header.customer_id, header.invoice_date, header.due_date, header.place_of_supply, header.notes)
+    RETURNING id INTO saved_id;
+  ELSE
+    UPDATE public.invoices
+    SET
+      project_id = header.project_id,
+      customer_id = header.customer_id,
+      invoice_date = header.invoice_date,
+      due_date = header.due_date,
+      place_of_supply = header.place_of_supply,
+      notes = header.notes
+    WHERE id = saved_id AND status = 'draft';
+
+    -- RLS filters the update silently rather than raising
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Only draft invoices can be edited';
+    END IF;
+
+    DELETE FROM public.invoice_items WHERE invoice_id = saved_id;
+  END IF;
+
+  INSERT INTO public.invoice_items (
+    invoice_id, position, description, hsn_sac, quantity, unit, rate, discount_percent, gst_rate,
+    taxable_value, cgst_amount, sgst_amount, igst_amount, amount
+  )
+  SELECT
+    saved_id, item.position, item.description, item.hsn_sac, item.quantity, item.unit, item.rate, item.discount_percent, item.gst_rate,
+    gst.taxable_value, gst.cgst_amount, gst.sgst_amount, gst.igst_amount, gst.amount
+  FROM jsonb_populate_recordset(NULL::public.invoice_items, _items) item
+  CROSS JOIN LATERAL round(item.quantity * item.rate, 2) gross
+  CROSS JOIN LATERAL public.calculate_gst(gross - round(gross * item.discount_percent / 100, 2), item.gst_rate, header.place_of_supply) gst;
+
+  RETURN saved_id;
+END;
+$$;
+
+CREATE TABLE public.quotations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  quotation_number TEXT UNIQUE,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  status public.quotation_status NOT NULL DEFAULT 'draft',
+  accepted_version_id UUID,
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_quotations_customer_id ON public.quotations (customer_id);
+CREATE INDEX idx_quotations_project_id ON public.quotations (project_id);
+
+CREATE TABLE public.quotation_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  quotation_id UUID NOT NULL REFERENCES public.quotations(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL DEFAULT 1,
+  quote_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  valid_until DATE,
+  place_of_supply TEXT NOT NULL CHECK (place_of_supply ~ '^[0-9]{2}$'),
+  notes TEXT,
+  discount_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  taxable_value DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  cgst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  sgst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  igst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (quotation_id, version_number),
+  CHECK (valid_until IS NULL OR valid_until >= quote_date)
+);
+
+ALTER TABLE public.quotations
+  ADD CONSTRAINT quotations_accepted_version_id_fkey
+  FOREIGN KEY (accepted_version_id) REFERENCES public.quotation_versions(id) ON DELETE SET NULL;
+
+CREATE TABLE public.quotation_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  version_id UUID NOT NULL REFERENCES public.quotation_versions(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  description TEXT NOT NULL,
+  hsn_sac TEXT,
+  quantity DECIMAL(12, 3) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit TEXT,
+  rate DECIMAL(15, 2) NOT NULL CHECK (rate >= 0),
+  discount_percent DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (discount_percent BETWEEN 0 AND 100),
+  gst_rate DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (gst_rate BETWEEN 0 AND 100),
+  taxable_value DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  cgst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  sgst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  igst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_quotation_items_version_id ON public.quotation_items (version_id);
+
+-- Quotations are not tax documents, so they are numbered as soon as they are created
+CREATE OR REPLACE FUNCTION public.assign_quotation_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.quotation_number IS NULL THEN
+    NEW.quotation_number := public.next_document_number('QUO', CURRENT_DATE);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_quotation_number_trigger
+  BEFORE INSERT ON public.quotations
+  FOR EACH ROW EXECUTE FUNCTION public.assign_quotation_number();
+
+CREATE TRIGGER update_quotations_updated_at BEFORE UPDATE ON public.quotations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Versions count up per quotation; the unique constraint catches concurrent revisions
+CREATE OR REPLACE FUNCTION public.assign_quotation_version_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(max(version_number), 0) + 1 INTO NEW.version_number
+  FROM public.quotation_versions
+  WHERE quotation_id = NEW.quotation_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_quotation_version_number_trigger
+  BEFORE INSERT ON public.quotation_versions
+  FOR EACH ROW EXECUTE FUNCTION public.assign_quotation_version_number();
+
+CREATE OR REPLACE FUNCTION public.refresh_quotation_version(_version_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.quotation_versions v
+  SET
+    discount_amount = items.discount_amount,
+    taxable_value = items.taxable_value,
+    cgst_amount = items.cgst_amount,
+    sgst_amount = items.sgst_amount,
+    igst_amount = items.igst_amount,
+    total_amount = items.amount
+  FROM (
+    SELECT
+      COALESCE(sum(round(quantity * rate, 2) - taxable_value), 0) AS discount_amount,
+      COALESCE(sum(taxable_value), 0) AS taxable_value,
+      COALESCE(sum(cgst_amount), 0) AS cgst_amount,
+      COALESCE(sum(sgst_amount), 0) AS sgst_amount,
+      COALESCE(sum(igst_amount), 0) AS igst_amount,
+      COALESCE(sum(amount), 0) AS amount
+    FROM public.quotation_items
+    WHERE version_id = _version_id
+  ) items
+  WHERE v.id = _version_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_quotation_version_from_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_quotation_version(COALESCE(NEW.version_id, OLD.version_id));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_quotation_version_on_item_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.quotation_items
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_quotation_version_from_items();
+
+-- Runs with the caller's rights, so the projects policies still decide who can accept.
+-- Creates the project for a new enquiry, or re-prices the prospect the quote was made for.
+CREATE OR REPLACE FUNCTION public.accept_quotation(_version_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  accepted_version RECORD;
+  quote RECORD;
+  accepted_project_id UUID;
+BEGIN
+  SELECT * INTO accepted_version FROM public.quotation_versions WHERE id = _version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation version not found';
+  END IF;
+
+  SELECT * INTO quote FROM public.quotations WHERE id = accepted_version.quotation_id FOR UPDATE;
+
+  IF quote.status = 'accepted' THEN
+    RAISE EXCEPTION 'Quotation % has already been accepted', quote.quotation_number;
+  END IF;
+  IF accepted_version.valid_until < CURRENT_DATE THEN
+    RAISE EXCEPTION 'This version expired on %; revise the quotation first', accepted_version.valid_until;
+  END IF;
+
+  IF quote.project_id IS NULL THEN
+    INSERT INTO public.projects (customer_id, name, description, estimated_total, status)
+    VALUES (
+      quote.customer_id,
+      quote.title,
+      'From quotation ' || quote.quotation_number,
+      accepted_version.total_amount,
+      'active'
+    )
+    RETURNING id INTO accepted_project_id;
+  ELSE
+    accepted_project_id := quote.project_id;
+
+    -- remaining_amount carries the payments already received, so shift it by the change in value
+    UPDATE public.projects
+    SET
+      remaining_amount = remaining_amount + (accepted_version.total_amount - estimated_total),
+      estimated_total = accepted_version.total_amount,
+      status = 'active'
+    WHERE id = accepted_project_id;
+
+    -- RLS filters the update silently rather than raising
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Project could not be updated';
+    END IF;
+  END IF;
+
+  UPDATE public.quotations
+  SET
+    status = 'accepted',
+    accepted_version_id = accepted_version.id,
+    accepted_at = NOW(),
+    project_id = accepted_project_id
+  WHERE id = quote.id;
+
+  RETURN accepted_project_id;
+END;
+$$;
+
+-- Runs with the caller's rights, so the policies below still apply.
+-- The header, the new version and its items are written together or not at all.
+CREATE OR REPLACE FUNCTION public.save_quotation_version(
+  _quotation JSONB,
+  _version JSONB,
+  _items JSONB,
+  _quotation_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  header public.quotations := jsonb_populate_record(NULL::public.quotations, _quotation);
+  revision public.quotation_versions := jsonb_populate_record(NULL::public.quotation_versions, _version);
+  saved_id UUID := _quotation_id;
+  saved_version_id UUID;
+BEGIN
+  IF saved_id IS NULL THEN
+    INSERT INTO public.quotations (customer_id, project_id, title)
+    VALUES (header.customer_id, header.project_id, header.title)
+    RETURNING id INTO saved_id;
+  ELSE
+    UPDATE public.quotations
+    SET
+      customer_id = header.customer_id,
+      project_id = header.project_id,
+      title = header.title
+    WHERE id = saved_id AND status <> 'accepted';
+
+    -- RLS filters the update silently rather than raising
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Accepted quotations cannot be revised';
+    END IF;
+  END IF;
+
+  INSERT INTO public.quotation_versions (quotation_id, quote_date, valid_until, place_of_supply, notes)
+  VALUES (saved_id, COALESCE(revision.quote_date, CURRENT_DATE), revision.valid_until, revision.place_of_supply, revision.notes)
+  RETURNING id INTO saved_version_id;
+
+  INSERT INTO public.quotation_items (
+    version_id, position, description, hsn_sac, quantity, unit, rate, discount_percent, gst_rate,
+    taxable_value, cgst_amount, sgst_amount, igst_amount, amount
+  )
+  SELECT
+    saved_version_id, item.position, item.description, item.hsn_sac, item.quantity, item.unit, item.rate, item.discount_percent, item.gst_rate,
+    item.taxable_value, item.cgst_amount, item.sgst_amount, item.igst_amount, item.amount
+  FROM jsonb_populate_recordset(NULL::public.quotation_items, _items) item;
+
+  RETURN saved_id;
+END;
+$$;
+
+-- Same access as invoices. Versions and their items are never edited in place:
+-- a revision is a new version, so there are no update policies for them.
+ALTER TABLE public.quotations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quotation_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quotation_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view quotations" ON public.quotations
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Finance roles can create quotations" ON public.quotations
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE POLICY "Finance roles can update quotations" ON public.quotations
+  FOR UPDATE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE POLICY "Finance roles can delete draft quotations" ON public.quotations
+  FOR DELETE TO authenticated
+  USING (
+    status = 'draft'
+    AND public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[])
+  );
+
+CREATE POLICY "Authenticated users can view quotation versions" ON public.quotation_versions
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Finance roles can revise open quotations" ON public.quotation_versions
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[])
+    AND EXISTS (SELECT 1 FROM public.quotations WHERE id = quotation_id AND status <> 'accepted')
+  );
+
+CREATE POLICY "Authenticated users can view quotation items" ON public.quotation_items
+  FOR SELECT TO authenticated USING (true);
+
+-- Items only go onto the newest version of a quotation that has not been accepted
+CREATE POLICY "Finance roles can add items to the latest open version" ON public.quotation_items
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[])
+    AND EXISTS (
+      SELECT 1
+      FROM public.quotation_versions v
+      JOIN public.quotations q ON q.id = v.quotation_id
+      WHERE v.id = version_id
+        AND q.status <> 'accepted'
+        AND v.version_number = (
+          SELECT max(version_number) FROM public.quotation_versions WHERE quotation_id = v.quotation_id
+        )
+    )
+  );
+
+CREATE TRIGGER audit_quotations
+  AFTER INSERT OR UPDATE OR DELETE ON public.quotations
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change('quotation');
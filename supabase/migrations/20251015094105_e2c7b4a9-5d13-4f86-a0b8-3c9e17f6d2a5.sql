@@ -0,0 +1,169 @@
+-- Suppliers master, supplier bills (purchases) and supplier payments on debit transactions.
+-- A supplier's payable is what we have been billed less what we have paid them.
+CREATE TABLE public.suppliers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  contact_person TEXT,
+  phone_number TEXT,
+  email TEXT,
+  address TEXT,
+  gstin TEXT CHECK (gstin IS NULL OR gstin ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$'),
+  state_code TEXT CHECK (state_code IS NULL OR state_code ~ '^[0-9]{2}$'),
+  bank_name TEXT,
+  bank_account_number TEXT,
+  bank_ifsc TEXT CHECK (bank_ifsc IS NULL OR bank_ifsc ~ '^[A-Z]{4}0[A-Z0-9]{6}$'),
+  upi_id TEXT,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_suppliers_name ON public.suppliers (lower(name));
+
+CREATE TRIGGER update_suppliers_updated_at BEFORE UPDATE ON public.suppliers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.supplier_bills (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+  project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  bill_number TEXT NOT NULL,
+  bill_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  due_date DATE,
+  amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (supplier_id, bill_number)
+);
+
+CREATE INDEX idx_supplier_bills_supplier_id ON public.supplier_bills (supplier_id);
+CREATE INDEX idx_supplier_bills_project_id ON public.supplier_bills (project_id);
+
+CREATE TRIGGER update_supplier_bills_updated_at BEFORE UPDATE ON public.supplier_bills
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only money going out can be a supplier payment
+ALTER TABLE public.transactions
+  ADD COLUMN supplier_id UUID REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+  ADD CONSTRAINT transactions_supplier_debit_only
+    CHECK (supplier_id IS NULL OR transaction_type = 'debit');
+
+CREATE INDEX idx_transactions_supplier_id ON public.transactions (supplier_id);
+
+-- Promote the free-text metadata.supplier on existing debits to supplier records
+INSERT INTO public.suppliers (name)
+SELECT DISTINCT ON (lower(btrim(metadata->>'supplier'))) btrim(metadata->>'supplier')
+FROM public.transactions
+WHERE transaction_type = 'debit' AND btrim(COALESCE(metadata->>'supplier', '')) <> ''
+ORDER BY lower(btrim(metadata->>'supplier'));
+
+UPDATE public.transactions t
+SET supplier_id = s.id
+FROM public.suppliers s
+WHERE t.transaction_type = 'debit'
+  AND lower(btrim(t.metadata->>'supplier')) = lower(s.name);
+
+CREATE VIEW public.supplier_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  s.id AS supplier_id,
+  COALESCE(bills.total, 0)::DECIMAL(15, 2) AS total_purchases,
+  COALESCE(payments.total, 0)::DECIMAL(15, 2) AS total_payments,
+  (COALESCE(bills.total, 0) - COALESCE(payments.total, 0))::DECIMAL(15, 2) AS outstanding
+FROM public.suppliers s
+LEFT JOIN (
+  SELECT supplier_id, sum(amount) AS total FROM public.supplier_bills GROUP BY supplier_id
+) bills ON bills.supplier_id = s.id
+LEFT JOIN (
+  SELECT supplier_id, sum(amount) AS total
+  FROM public.transactions
+  WHERE supplier_id IS NOT NULL
+  GROUP BY supplier_id
+) payments ON payments.supplier_id = s.id;
+
+-- Same split as customers: finance roles maintain, admins delete
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.supplier_bills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view suppliers" ON public.suppliers
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Finance roles can create suppliers" ON public.suppliers
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE POLICY "Finance roles can update suppliers" ON public.suppliers
+  FOR UPDATE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE POLICY "Admins can delete suppliers" ON public.suppliers
+  FOR DELETE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+CREATE POLICY "Authenticated users can view supplier bills" ON public.supplier_bills
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Finance roles can manage supplier bills" ON public.supplier_bills
+  FOR ALL TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+-- Carry supplier_id as a reference too, so a supplier's history covers its bills and payments
+CREATE OR REPLACE FUNCTION public.log_entity_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entity TEXT := TG_ARGV[0];
+  ignored TEXT[] := ARRAY['created_at', 'updated_at'] || TG_ARGV[1:];
+  old_row JSONB := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+  row_data JSONB := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+  changes JSONB := '{}'::jsonb;
+  field TEXT;
+BEGIN
+  FOR field IN SELECT jsonb_object_keys(old_row || new_row) LOOP
+    CONTINUE WHEN field = ANY(ignored);
+    IF COALESCE(old_row -> field, 'null'::jsonb) IS DISTINCT FROM COALESCE(new_row -> field, 'null'::jsonb) THEN
+      changes := changes || jsonb_build_object(
+        field, jsonb_build_object('old', old_row -> field, 'new', new_row -> field)
+      );
+    END IF;
+  END LOOP;
+
+  -- Updates that only touch ignored columns (e.g. derived balances) are not worth a row
+  IF TG_OP = 'UPDATE' AND changes = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.activity_log (actor_type, actor_id, action, entity_type, entity_id, data)
+  VALUES (
+    CASE WHEN auth.uid() IS NULL THEN 'system' ELSE 'user' END,
+    auth.uid(),
+    entity || '_' || CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'updated' ELSE 'deleted' END,
+    entity,
+    (row_data->>'id')::uuid,
+    jsonb_strip_nulls(jsonb_build_object(
+      'project_id', row_data->>'project_id',
+      'customer_id', row_data->>'customer_id',
+      'employee_id', row_data->>'employee_id',
+      'supplier_id', row_data->>'supplier_id'
+    ))
+    || jsonb_build_object(entity || '_id', row_data->>'id', 'changes', changes)
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER audit_suppliers
+  AFTER INSERT OR UPDATE OR DELETE ON public.suppliers
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change('supplier');
+
+CREATE TRIGGER audit_supplier_bills
+  AFTER INSERT OR UPDATE OR DELETE ON public.supplier_bills
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change('supplier_bill');
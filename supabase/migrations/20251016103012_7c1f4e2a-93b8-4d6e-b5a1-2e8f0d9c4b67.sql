@@ -0,0 +1,340 @@
+-- Purchase orders: what we have committed to buy from a supplier for a project.
+-- Receipts are tracked per line; payments are debit transactions linked to the PO.
+CREATE TYPE public.purchase_order_status AS ENUM ('raised', 'partially_received', 'received', 'closed');
+
+CREATE TABLE public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  po_number TEXT UNIQUE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE RESTRICT,
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+  order_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  expected_delivery_date DATE,
+  -- The supplier's state; IGST applies when it differs from ours
+  place_of_supply TEXT NOT NULL CHECK (place_of_supply ~ '^[0-9]{2}$'),
+  status public.purchase_order_status NOT NULL DEFAULT 'raised',
+  notes TEXT,
+  taxable_value DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  cgst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  sgst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  igst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  amount_paid DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_purchase_orders_project_id ON public.purchase_orders (project_id);
+CREATE INDEX idx_purchase_orders_supplier_id ON public.purchase_orders (supplier_id);
+
+CREATE TABLE public.purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  description TEXT NOT NULL,
+  hsn_sac TEXT,
+  quantity DECIMAL(12, 3) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit TEXT,
+  rate DECIMAL(15, 2) NOT NULL CHECK (rate >= 0),
+  discount_percent DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (discount_percent BETWEEN 0 AND 100),
+  gst_rate DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (gst_rate BETWEEN 0 AND 100),
+  taxable_value DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  cgst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  sgst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  igst_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  received_quantity DECIMAL(12, 3) NOT NULL DEFAULT 0 CHECK (received_quantity >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (received_quantity <= quantity)
+);
+
+CREATE INDEX idx_purchase_order_items_purchase_order_id ON public.purchase_order_items (purchase_order_id);
+
+-- A PO with payments against it stays, so the payment keeps its commitment
+ALTER TABLE public.transactions
+  ADD COLUMN purchase_order_id UUID REFERENCES public.purchase_orders(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_transactions_purchase_order_id ON public.transactions (purchase_order_id);
+
+CREATE OR REPLACE FUNCTION public.assign_purchase_order_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.po_number IS NULL THEN
+    NEW.po_number := public.next_document_number('PO', NEW.order_date);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_purchase_order_number_trigger
+  BEFORE INSERT ON public.purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION public.assign_purchase_order_number();
+
+CREATE TRIGGER update_purchase_orders_updated_at BEFORE UPDATE ON public.purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Totals come from the lines, amount_paid from linked debits, and the status from
+-- what has been received. A closed PO stays closed.
+CREATE OR REPLACE FUNCTION public.refresh_purchase_order(_purchase_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.purchase_orders po
+  SET
+    taxable_value = items.taxable_value,
+    cgst_amount = items.cgst_amount,
+    sgst_amount = items.sgst_amount,
+    igst_amount = items.igst_amount,
+    total_amount = items.amount,
+    amount_paid = payments.paid,
+    status = CASE
+      WHEN po.status = 'closed' THEN 'closed'
+      WHEN items.line_count > 0 AND items.pending_lines = 0 THEN 'received'
+      WHEN items.received_quantity > 0 THEN 'partially_received'
+      ELSE 'raised'
+    END::public.purchase_order_status
+  FROM
+    (
+      SELECT
+        COALESCE(sum(taxable_value), 0) AS taxable_value,
+        COALESCE(sum(cgst_amount), 0) AS cgst_amount,
+        COALESCE(sum(sgst_amount), 0) AS sgst_amount,
+        COALESCE(sum(igst_amount), 0) AS igst_amount,
+        COALESCE(sum(amount), 0) AS amount,
+        COALESCE(sum(received_quantity), 0) AS received_quantity,
+        count(*) AS line_count,
+        count(*) FILTER (WHERE received_quantity < quantity) AS pending_lines
+      FROM public.purchase_order_items
+      WHERE purchase_order_id = _purchase_order_id
+    ) items,
+    (
+      SELECT COALESCE(sum(amount), 0) AS paid
+      FROM public.transactions
+      WHERE purchase_order_id = _purchase_order_id AND transaction_type = 'debit'
+    ) payments
+  WHERE po.id = _purchase_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_purchase_order_from_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_purchase_order(COALESCE(NEW.purchase_order_id, OLD.purchase_order_id));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_purchase_order_on_item_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.purchase_order_items
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_purchase_order_from_items();
+
+CREATE OR REPLACE FUNCTION public.refresh_purchase_order_from_transactions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Same shape as the invoice refresh: the old PO on change or delete, the new one on link
+  IF TG_OP <> 'INSERT' THEN
+    IF OLD.purchase_order_id IS NOT NULL THEN
+      PERFORM public.refresh_purchase_order(OLD.purchase_order_id);
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.purchase_order_id IS NOT NULL THEN
+      PERFORM public.refresh_purchase_order(NEW.purchase_order_id);
+    END IF;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.purchase_order_id IS DISTINCT FROM OLD.purchase_order_id AND NEW.purchase_order_id IS NOT NULL THEN
+      PERFORM public.refresh_purchase_order(NEW.purchase_order_id);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_purchase_order_on_transaction_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_purchase_order_from_transactions();
+
+-- A PO payment is a debit on the PO's project, to the PO's supplier. The supplier is
+-- filled in from the PO when the payment doesn't name one.
+CREATE OR REPLACE FUNCTION public.validate_transaction_purchase_order()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  po RECORD;
+BEGIN
+  IF NEW.purchase_order_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT project_id, supplier_id INTO po FROM public.purchase_orders WHERE id = NEW.purchase_order_id;
+
+  IF NEW.transaction_type <> 'debit' THEN
+    RAISE EXCEPTION 'Only debits can be recorded against a purchase order';
+  END IF;
+  IF po.project_id <> NEW.project_id THEN
+    RAISE EXCEPTION 'Purchase order belongs to a different project';
+  END IF;
+  IF NEW.supplier_id IS NULL THEN
+    NEW.supplier_id := po.supplier_id;
+  ELSIF NEW.supplier_id <> po.supplier_id THEN
+    RAISE EXCEPTION 'Purchase order is with a different supplier';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_transaction_purchase_order_trigger
+  BEFORE INSERT OR UPDATE OF purchase_order_id, project_id, transaction_type, supplier_id ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.validate_transaction_purchase_order();
+
+-- Same split as invoices: everyone reads, finance roles write. Only POs with nothing
+-- received can be deleted; payments block the delete through the foreign key.
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view purchase orders" ON public.purchase_orders
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Finance roles can create purchase orders" ON public.purchase_orders
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE POLICY "Finance roles can update purchase orders" ON public.purchase_orders
+  FOR UPDATE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE POLICY "Finance roles can delete raised purchase orders" ON public.purchase_orders
+  FOR DELETE TO authenticated
+  USING (
+    status = 'raised'
+    AND public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[])
+  );
+
+CREATE POLICY "Authenticated users can view purchase order items" ON public.purchase_order_items
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Finance roles can manage purchase order items" ON public.purchase_order_items
+  FOR ALL TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+-- Runs with the caller's rights, so the policies above still apply. Lines are updated in
+-- place so what has been received against them is kept; a line with receipts cannot be dropped.
+CREATE OR REPLACE FUNCTION public.save_purchase_order(_purchase_order JSONB, _items JSONB, _purchase_order_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  header public.purchase_orders := jsonb_populate_record(NULL::public.purchase_orders, _purchase_order);
+  saved_id UUID := _purchase_order_id;
+  item RECORD;
+BEGIN
+  IF saved_id IS NULL THEN
+    INSERT INTO public.purchase_orders (project_id, supplier_id, order_date, expected_delivery_date, place_of_supply, notes)
+    VALUES (header.project_id, header.supplier_id, header.order_date, header.expected_delivery_date, header.place_of_supply, header.notes)
+    RETURNING id INTO saved_id;
+  ELSE
+    UPDATE public.purchase_orders
+    SET
+      project_id = header.project_id,
+      supplier_id = header.supplier_id,
+      order_date = header.order_date,
+      expected_delivery_date = header.expected_delivery_date,
+      place_of_supply = header.place_of_supply,
+      notes = header.notes
+    WHERE id = saved_id AND status <> 'closed';
+
+    -- RLS filters the update silently rather than raising
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Closed purchase orders cannot be edited';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.purchase_order_items
+      WHERE purchase_order_id = saved_id
+        AND received_quantity > 0
+        AND id NOT IN (
+          SELECT i.id FROM jsonb_populate_recordset(NULL::public.purchase_order_items, _items) i
+          WHERE i.id IS NOT NULL
+        )
+    ) THEN
+      RAISE EXCEPTION 'Lines with goods received against them cannot be removed';
+    END IF;
+
+    DELETE FROM public.purchase_order_items
+    WHERE purchase_order_id = saved_id
+      AND id NOT IN (
+        SELECT i.id FROM jsonb_populate_recordset(NULL::public.purchase_order_items, _items) i
+        WHERE i.id IS NOT NULL
+      );
+  END IF;
+
+  FOR item IN
+    SELECT * FROM jsonb_populate_recordset(NULL::public.purchase_order_items, _items)
+  LOOP
+    IF item.id IS NULL THEN
+      INSERT INTO public.purchase_order_items (
+        purchase_order_id, position, description, hsn_sac, quantity, unit, rate, discount_percent, gst_rate,
+        taxable_value, cgst_amount, sgst_amount, igst_amount, amount
+      )
+      VALUES (
+        saved_id, item.position, item.description, item.hsn_sac, item.quantity, item.unit, item.rate, item.discount_percent, item.gst_rate,
+        item.taxable_value, item.cgst_amount, item.sgst_amount, item.igst_amount, item.amount
+      );
+    ELSE
+      -- received_quantity is left alone; the check constraint stops quantity dropping below it
+      UPDATE public.purchase_order_items
+      SET
+        position = item.position,
+        description = item.description,
+        hsn_sac = item.hsn_sac,
+        quantity = item.quantity,
+        unit = item.unit,
+        rate = item.rate,
+        discount_percent = item.discount_percent,
+        gst_rate = item.gst_rate,
+        taxable_value = item.taxable_value,
+        cgst_amount = item.cgst_amount,
+        sgst_amount = item.sgst_amount,
+        igst_amount = item.igst_amount,
+        amount = item.amount
+      WHERE id = item.id AND purchase_order_id = saved_id;
+
+      -- RLS filters the update silently rather than raising
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Purchase order line could not be updated';
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN saved_id;
+END;
+$$;
+
+-- amount_paid and the totals are derived, so only log what people change
+CREATE TRIGGER audit_purchase_orders
+  AFTER INSERT OR UPDATE OR DELETE ON public.purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change(
+    'purchase_order', 'amount_paid', 'taxable_value', 'cgst_amount', 'sgst_amount', 'igst_amount', 'total_amount'
+  );
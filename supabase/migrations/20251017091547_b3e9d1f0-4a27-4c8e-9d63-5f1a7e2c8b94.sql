@@ -0,0 +1,55 @@
+-- Cost budgets per project and category, with debits tagged against a category
+CREATE TYPE public.cost_category AS ENUM ('materials', 'labour', 'transport', 'installation', 'other');
+
+CREATE TABLE public.project_budgets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  category public.cost_category NOT NULL,
+  amount DECIMAL(15, 2) NOT NULL CHECK (amount >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (project_id, category)
+);
+
+CREATE TRIGGER update_project_budgets_updated_at BEFORE UPDATE ON public.project_budgets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only money going out is a cost
+ALTER TABLE public.transactions
+  ADD COLUMN cost_category public.cost_category,
+  ADD CONSTRAINT transactions_cost_category_debit_only
+    CHECK (cost_category IS NULL OR transaction_type = 'debit');
+
+CREATE INDEX idx_transactions_project_cost_category ON public.transactions (project_id, cost_category);
+
+-- Budget against actual for every category that has either. Untagged debits are
+-- reported with a NULL category so the totals still add up to the project's costs.
+CREATE VIEW public.project_category_costs
+WITH (security_invoker = true)
+AS
+SELECT
+  COALESCE(b.project_id, a.project_id) AS project_id,
+  COALESCE(b.category, a.category) AS category,
+  COALESCE(b.amount, 0)::DECIMAL(15, 2) AS budget,
+  COALESCE(a.actual, 0)::DECIMAL(15, 2) AS actual
+FROM public.project_budgets b
+FULL OUTER JOIN (
+  SELECT project_id, cost_category AS category, sum(amount) AS actual
+  FROM public.transactions
+  WHERE transaction_type = 'debit'
+  GROUP BY project_id, cost_category
+) a ON a.project_id = b.project_id AND a.category = b.category;
+
+ALTER TABLE public.project_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view project budgets" ON public.project_budgets
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Finance roles can manage project budgets" ON public.project_budgets
+  FOR ALL TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE TRIGGER audit_project_budgets
+  AFTER INSERT OR UPDATE OR DELETE ON public.project_budgets
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change('project_budget');
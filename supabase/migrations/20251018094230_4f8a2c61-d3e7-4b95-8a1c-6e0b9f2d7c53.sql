@@ -0,0 +1,121 @@
+-- remaining_amount is what the customer still owes against the project value, so
+-- only credits move it. Debits are costs and are reported through project_financials.
+-- Credits linked to a petty cash advance are cash coming back from staff, not payments.
+CREATE OR REPLACE FUNCTION public.update_project_remaining_amount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_received DECIMAL(15, 2) := 0;
+  new_received DECIMAL(15, 2) := 0;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.transaction_type = 'credit' AND OLD.related_advance_id IS NULL THEN
+    old_received := OLD.amount;
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.transaction_type = 'credit' AND NEW.related_advance_id IS NULL THEN
+    new_received := NEW.amount;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.project_id IS DISTINCT FROM NEW.project_id THEN
+    -- Moved to another project: give the old project its receivable back in full
+    UPDATE public.projects
+    SET remaining_amount = remaining_amount + old_received
+    WHERE id = OLD.project_id;
+    old_received := 0;
+  END IF;
+
+  IF old_received = new_received THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  UPDATE public.projects
+  SET remaining_amount = remaining_amount + old_received - new_received
+  WHERE id = COALESCE(NEW.project_id, OLD.project_id);
+
+  INSERT INTO public.activity_log (actor_type, action, data)
+  VALUES (
+    'system',
+    'project_balance_updated',
+    jsonb_build_object(
+      'project_id', COALESCE(NEW.project_id, OLD.project_id),
+      'transaction_id', COALESCE(NEW.id, OLD.id),
+      'transaction_type', COALESCE(NEW.transaction_type, OLD.transaction_type),
+      'amount', COALESCE(NEW.amount, OLD.amount),
+      'amount_change', old_received - new_received,
+      'operation', lower(TG_OP)
+    )
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- Editing the project value moves what is still to be received, unless the caller
+-- has already adjusted remaining_amount itself (as accept_quotation does)
+CREATE OR REPLACE FUNCTION public.initialize_project_remaining_amount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.remaining_amount := NEW.estimated_total;
+  ELSIF NEW.estimated_total IS DISTINCT FROM OLD.estimated_total
+    AND NEW.remaining_amount IS NOT DISTINCT FROM OLD.remaining_amount THEN
+    NEW.remaining_amount := OLD.remaining_amount + (NEW.estimated_total - OLD.estimated_total);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_remaining_amount_on_value_change
+  BEFORE UPDATE OF estimated_total ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.initialize_project_remaining_amount();
+
+-- Balances built up under the old rule counted debits as money still owed
+UPDATE public.projects p
+SET remaining_amount = p.estimated_total - COALESCE((
+  SELECT sum(t.amount)
+  FROM public.transactions t
+  WHERE t.project_id = p.id AND t.transaction_type = 'credit' AND t.related_advance_id IS NULL
+), 0);
+
+-- Project P&L. Revenue is the taxable value invoiced, since the GST on top is collected
+-- for the government; drafts are not yet billed. Cash and costs are as the ledger has them.
+CREATE VIEW public.project_financials
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id AS project_id,
+  p.estimated_total AS contract_value,
+  COALESCE(i.billed, 0)::DECIMAL(15, 2) AS revenue_billed,
+  COALESCE(t.received, 0)::DECIMAL(15, 2) AS cash_received,
+  p.remaining_amount AS receivable,
+  COALESCE(t.spent, 0)::DECIMAL(15, 2) AS transaction_costs,
+  COALESCE(a.spent, 0)::DECIMAL(15, 2) AS petty_cash_costs,
+  (COALESCE(t.spent, 0) + COALESCE(a.spent, 0))::DECIMAL(15, 2) AS direct_costs,
+  (COALESCE(i.billed, 0) - COALESCE(t.spent, 0) - COALESCE(a.spent, 0))::DECIMAL(15, 2) AS gross_margin
+FROM public.projects p
+LEFT JOIN (
+  SELECT project_id, sum(taxable_value) AS billed
+  FROM public.invoices
+  WHERE status <> 'draft'
+  GROUP BY project_id
+) i ON i.project_id = p.id
+LEFT JOIN (
+  SELECT
+    project_id,
+    sum(amount) FILTER (WHERE transaction_type = 'credit') AS received,
+    sum(amount) FILTER (WHERE transaction_type = 'debit') AS spent
+  FROM public.transactions
+  -- Entries linked to an advance are petty cash, which is counted from the advance below
+  WHERE related_advance_id IS NULL
+  GROUP BY project_id
+) t ON t.project_id = p.id
+LEFT JOIN (
+  SELECT project_id, sum(expense_total) AS spent
+  FROM public.petty_cash_advance
+  WHERE project_id IS NOT NULL
+  GROUP BY project_id
+) a ON a.project_id = p.id;
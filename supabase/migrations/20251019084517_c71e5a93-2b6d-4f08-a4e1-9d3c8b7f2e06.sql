@@ -0,0 +1,239 @@
+-- Staged payment schedule per project, e.g. 40% advance, 40% on delivery, 20% after installation
+CREATE TABLE public.payment_milestones (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+  due_date DATE NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  amount_received DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (amount_received <= amount)
+);
+
+CREATE INDEX idx_payment_milestones_project_id ON public.payment_milestones (project_id);
+CREATE INDEX idx_payment_milestones_due_date ON public.payment_milestones (due_date);
+
+CREATE TRIGGER update_payment_milestones_updated_at BEFORE UPDATE ON public.payment_milestones
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A milestone with receipts against it cannot be dropped from the schedule
+ALTER TABLE public.transactions
+  ADD COLUMN milestone_id UUID REFERENCES public.payment_milestones(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_transactions_milestone_id ON public.transactions (milestone_id);
+
+-- Each receipt goes to the milestone it was recorded against, and whatever that milestone
+-- cannot take spills over to the rest of the schedule in due date order. Receipts are applied
+-- oldest first, and nothing is ever allocated beyond a milestone's amount.
+CREATE OR REPLACE FUNCTION public.refresh_payment_schedule(_project_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  milestone_ids UUID[];
+  amounts NUMERIC[];
+  received NUMERIC[];
+  receipt RECORD;
+  remaining NUMERIC;
+  share NUMERIC;
+  own INTEGER;
+BEGIN
+  SELECT array_agg(id ORDER BY due_date, position, id), array_agg(amount ORDER BY due_date, position, id)
+  INTO milestone_ids, amounts
+  FROM public.payment_milestones
+  WHERE project_id = _project_id;
+
+  IF milestone_ids IS NULL THEN
+    RETURN;
+  END IF;
+
+  received := array_fill(0::NUMERIC, ARRAY[array_length(milestone_ids, 1)]);
+
+  FOR receipt IN
+    SELECT t.milestone_id, t.amount
+    FROM public.transactions t
+    JOIN public.payment_milestones m ON m.id = t.milestone_id
+    WHERE m.project_id = _project_id AND t.transaction_type = 'credit'
+    ORDER BY t.transaction_date, t.created_at, t.id
+  LOOP
+    own := array_position(milestone_ids, receipt.milestone_id);
+    share := LEAST(receipt.amount, amounts[own] - received[own]);
+    received[own] := received[own] + share;
+    remaining := receipt.amount - share;
+
+    FOR i IN 1..array_length(milestone_ids, 1) LOOP
+      EXIT WHEN remaining <= 0;
+      share := LEAST(remaining, amounts[i] - received[i]);
+      received[i] := received[i] + share;
+      remaining := remaining - share;
+    END LOOP;
+  END LOOP;
+
+  UPDATE public.payment_milestones m
+  SET amount_received = allocation.received
+  FROM unnest(milestone_ids, received) AS allocation(id, received)
+  WHERE m.id = allocation.id AND m.amount_received IS DISTINCT FROM allocation.received;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_payment_schedule_from_transactions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Covers deletes, unlinking, and amount, type or date changes on the same milestone
+  IF TG_OP <> 'INSERT' THEN
+    IF OLD.milestone_id IS NOT NULL THEN
+      PERFORM public.refresh_payment_schedule(
+        (SELECT project_id FROM public.payment_milestones WHERE id = OLD.milestone_id)
+      );
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.milestone_id IS NOT NULL THEN
+      PERFORM public.refresh_payment_schedule(
+        (SELECT project_id FROM public.payment_milestones WHERE id = NEW.milestone_id)
+      );
+    END IF;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.milestone_id IS DISTINCT FROM OLD.milestone_id AND NEW.milestone_id IS NOT NULL THEN
+      PERFORM public.refresh_payment_schedule(
+        (SELECT project_id FROM public.payment_milestones WHERE id = NEW.milestone_id)
+      );
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_payment_schedule_on_transaction_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_payment_schedule_from_transactions();
+
+-- Changing an amount or the order of the schedule moves where receipts land. The refresh
+-- itself only writes amount_received, so it does not fire this again.
+CREATE OR REPLACE FUNCTION public.refresh_payment_schedule_from_milestones()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_payment_schedule(COALESCE(NEW.project_id, OLD.project_id));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_payment_schedule_on_milestone_change
+  AFTER INSERT OR UPDATE OF amount, due_date, position OR DELETE ON public.payment_milestones
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_payment_schedule_from_milestones();
+
+-- A receipt can only settle a milestone on its own project
+CREATE OR REPLACE FUNCTION public.validate_transaction_milestone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  milestone_project_id UUID;
+BEGIN
+  IF NEW.milestone_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT project_id INTO milestone_project_id FROM public.payment_milestones WHERE id = NEW.milestone_id;
+
+  IF NEW.transaction_type <> 'credit' THEN
+    RAISE EXCEPTION 'Only credits can be recorded against a payment milestone';
+  END IF;
+  IF milestone_project_id IS DISTINCT FROM NEW.project_id THEN
+    RAISE EXCEPTION 'Payment milestone belongs to a different project';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_transaction_milestone_trigger
+  BEFORE INSERT OR UPDATE OF milestone_id, project_id, transaction_type ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.validate_transaction_milestone();
+
+ALTER TABLE public.payment_milestones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view payment milestones" ON public.payment_milestones
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Finance roles can manage payment milestones" ON public.payment_milestones
+  FOR ALL TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+-- amount_received is kept in step by the refresh triggers
+CREATE TRIGGER audit_payment_milestones
+  AFTER INSERT OR UPDATE OR DELETE ON public.payment_milestones
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change('payment_milestone', 'amount_received');
+
+-- Runs with the caller's rights, so the policies above still apply. The whole schedule is saved
+-- in one transaction: existing rows are updated in place so receipts stay linked, and rows left
+-- out are removed unless they have receipts against them.
+CREATE OR REPLACE FUNCTION public.save_payment_milestones(_project_id UUID, _milestones JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  milestone RECORD;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.transactions t
+    JOIN public.payment_milestones m ON m.id = t.milestone_id
+    WHERE m.project_id = _project_id
+      AND m.id NOT IN (
+        SELECT d.id FROM jsonb_populate_recordset(NULL::public.payment_milestones, _milestones) d
+        WHERE d.id IS NOT NULL
+      )
+  ) THEN
+    RAISE EXCEPTION 'Milestones with receipts against them cannot be removed';
+  END IF;
+
+  DELETE FROM public.payment_milestones
+  WHERE project_id = _project_id
+    AND id NOT IN (
+      SELECT m.id FROM jsonb_populate_recordset(NULL::public.payment_milestones, _milestones) m
+      WHERE m.id IS NOT NULL
+    );
+
+  FOR milestone IN
+    SELECT * FROM jsonb_populate_recordset(NULL::public.payment_milestones, _milestones)
+  LOOP
+    IF milestone.id IS NULL THEN
+      INSERT INTO public.payment_milestones (project_id, name, amount, due_date, position)
+      VALUES (_project_id, milestone.name, milestone.amount, milestone.due_date, milestone.position);
+    ELSE
+      -- Receipts over a reduced amount are held back until the refresh spills them over
+      UPDATE public.payment_milestones
+      SET
+        name = milestone.name,
+        amount = milestone.amount,
+        due_date = milestone.due_date,
+        position = milestone.position,
+        amount_received = LEAST(amount_received, milestone.amount)
+      WHERE id = milestone.id AND project_id = _project_id;
+
+      -- RLS filters the update silently rather than raising
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment milestone could not be updated';
+      END IF;
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,52 @@
+-- Dated timeline of notes and interactions per customer, replacing the single notes field
+CREATE TYPE public.customer_interaction AS ENUM ('note', 'call', 'meeting', 'site_visit', 'email');
+
+CREATE TABLE public.customer_notes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  noted_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  interaction public.customer_interaction NOT NULL DEFAULT 'note',
+  body TEXT NOT NULL CHECK (btrim(body) <> ''),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_customer_notes_customer_id ON public.customer_notes (customer_id, noted_on DESC);
+
+CREATE TRIGGER update_customer_notes_updated_at BEFORE UPDATE ON public.customer_notes
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Existing notes become the first entry on each customer's timeline
+INSERT INTO public.customer_notes (customer_id, noted_on, body, created_by)
+SELECT id, (COALESCE(created_at, NOW()) AT TIME ZONE 'Asia/Kolkata')::DATE, notes, NULL
+FROM public.customers
+WHERE notes IS NOT NULL AND btrim(notes) <> '';
+
+ALTER TABLE public.customers DROP COLUMN notes;
+
+-- Site supervisors meet customers too, so they can add to the timeline.
+-- Entries are corrected or removed only by their author or an admin.
+ALTER TABLE public.customer_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view customer notes" ON public.customer_notes
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Staff can create customer notes" ON public.customer_notes
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    public.has_any_role(auth.uid(), ARRAY['admin', 'accountant', 'site_supervisor']::public.app_role[])
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Authors and admins can update customer notes" ON public.customer_notes
+  FOR UPDATE TO authenticated
+  USING (created_by = auth.uid() OR public.has_any_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+CREATE POLICY "Authors and admins can delete customer notes" ON public.customer_notes
+  FOR DELETE TO authenticated
+  USING (created_by = auth.uid() OR public.has_any_role(auth.uid(), ARRAY['admin']::public.app_role[]));
+
+CREATE TRIGGER audit_customer_notes
+  AFTER INSERT OR UPDATE OR DELETE ON public.customer_notes
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change('customer_note');
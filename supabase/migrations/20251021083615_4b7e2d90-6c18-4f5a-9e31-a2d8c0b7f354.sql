@@ -0,0 +1,227 @@
+-- Itemised expenses against a petty cash advance; expense_total becomes their sum
+CREATE TABLE public.petty_cash_expenses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  advance_id UUID NOT NULL REFERENCES public.petty_cash_advance(id) ON DELETE CASCADE,
+  expense_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  description TEXT NOT NULL CHECK (btrim(description) <> ''),
+  category public.cost_category NOT NULL DEFAULT 'other',
+  amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+  project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL,
+  -- Path inside the petty-cash-receipts storage bucket
+  receipt_path TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_petty_cash_expenses_advance_id ON public.petty_cash_expenses (advance_id, expense_date);
+CREATE INDEX idx_petty_cash_expenses_project_id ON public.petty_cash_expenses (project_id);
+
+CREATE TRIGGER update_petty_cash_expenses_updated_at BEFORE UPDATE ON public.petty_cash_expenses
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Totals recorded before itemisation carry over as a single line so they are not lost
+INSERT INTO public.petty_cash_expenses (advance_id, expense_date, description, category, amount, project_id)
+SELECT id, (COALESCE(created_at, NOW()) AT TIME ZONE 'Asia/Kolkata')::DATE, 'Expenses recorded before itemisation', 'other', expense_total, project_id
+FROM public.petty_cash_advance
+WHERE expense_total > 0;
+
+CREATE OR REPLACE FUNCTION public.refresh_advance_expense_total(_advance_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.petty_cash_advance
+  SET expense_total = (
+    SELECT COALESCE(sum(amount), 0)
+    FROM public.petty_cash_expenses
+    WHERE advance_id = _advance_id
+  )
+  WHERE id = _advance_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_advance_expense_total_from_expenses()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_advance_expense_total(OLD.advance_id);
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.advance_id IS DISTINCT FROM OLD.advance_id THEN
+    PERFORM public.refresh_advance_expense_total(NEW.advance_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_advance_expense_total_on_expense_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.petty_cash_expenses
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_advance_expense_total_from_expenses();
+
+-- A closed advance has been settled, so its lines are final
+CREATE OR REPLACE FUNCTION public.validate_petty_cash_expense()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  advance_id_to_check UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.advance_id ELSE NEW.advance_id END;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.petty_cash_advance WHERE id = advance_id_to_check AND status = 'closed'
+  ) THEN
+    RAISE EXCEPTION 'Expenses cannot be changed once the advance is closed';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER validate_petty_cash_expense_trigger
+  BEFORE INSERT OR UPDATE OR DELETE ON public.petty_cash_expenses
+  FOR EACH ROW EXECUTE FUNCTION public.validate_petty_cash_expense();
+
+ALTER TABLE public.petty_cash_expenses ENABLE ROW LEVEL SECURITY;
+
+-- Whoever settles an advance itemises it, so the same staff roles manage its lines
+CREATE POLICY "Staff roles can view petty cash expenses" ON public.petty_cash_expenses
+  FOR SELECT TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant', 'site_supervisor']::public.app_role[]));
+
+CREATE POLICY "Staff roles can manage petty cash expenses" ON public.petty_cash_expenses
+  FOR ALL TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant', 'site_supervisor']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant', 'site_supervisor']::public.app_role[]));
+
+-- Receipt photos are private; the app reads them through short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('petty-cash-receipts', 'petty-cash-receipts', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Staff roles can view petty cash receipts" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'petty-cash-receipts'
+    AND public.has_any_role(auth.uid(), ARRAY['admin', 'accountant', 'site_supervisor']::public.app_role[])
+  );
+
+CREATE POLICY "Staff roles can upload petty cash receipts" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'petty-cash-receipts'
+    AND public.has_any_role(auth.uid(), ARRAY['admin', 'accountant', 'site_supervisor']::public.app_role[])
+  );
+
+CREATE POLICY "Staff roles can delete petty cash receipts" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'petty-cash-receipts'
+    AND public.has_any_role(auth.uid(), ARRAY['admin', 'accountant', 'site_supervisor']::public.app_role[])
+  );
+
+-- Petty cash is charged to the project on each line rather than the advance as a whole
+CREATE OR REPLACE VIEW public.project_financials
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id AS project_id,
+  p.estimated_total AS contract_value,
+  COALESCE(i.billed, 0)::DECIMAL(15, 2) AS revenue_billed,
+  COALESCE(t.received, 0)::DECIMAL(15, 2) AS cash_received,
+  p.remaining_amount AS receivable,
+  COALESCE(t.spent, 0)::DECIMAL(15, 2) AS transaction_costs,
+  COALESCE(e.spent, 0)::DECIMAL(15, 2) AS petty_cash_costs,
+  (COALESCE(t.spent, 0) + COALESCE(e.spent, 0))::DECIMAL(15, 2) AS direct_costs,
+  (COALESCE(i.billed, 0) - COALESCE(t.spent, 0) - COALESCE(e.spent, 0))::DECIMAL(15, 2) AS gross_margin
+FROM public.projects p
+LEFT JOIN (
+  SELECT project_id, sum(taxable_value) AS billed
+  FROM public.invoices
+  WHERE status <> 'draft'
+  GROUP BY project_id
+) i ON i.project_id = p.id
+LEFT JOIN (
+  SELECT
+    project_id,
+    sum(amount) FILTER (WHERE transaction_type = 'credit') AS received,
+    sum(amount) FILTER (WHERE transaction_type = 'debit') AS spent
+  FROM public.transactions
+  WHERE related_advance_id IS NULL
+  GROUP BY project_id
+) t ON t.project_id = p.id
+LEFT JOIN (
+  SELECT project_id, sum(amount) AS spent
+  FROM public.petty_cash_expenses
+  WHERE project_id IS NOT NULL
+  GROUP BY project_id
+) e ON e.project_id = p.id;
+
+-- Carry advance_id as a reference too, so an advance's history covers its expense lines
+CREATE OR REPLACE FUNCTION public.log_entity_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entity TEXT := TG_ARGV[0];
+  ignored TEXT[] := ARRAY['created_at', 'updated_at'] || TG_ARGV[1:];
+  old_row JSONB := CASE WHEN TG_OP = 'INSERT' THEN '{}'::jsonb ELSE to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+  row_data JSONB := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+  changes JSONB := '{}'::jsonb;
+  field TEXT;
+BEGIN
+  FOR field IN SELECT jsonb_object_keys(old_row || new_row) LOOP
+    CONTINUE WHEN field = ANY(ignored);
+    IF COALESCE(old_row -> field, 'null'::jsonb) IS DISTINCT FROM COALESCE(new_row -> field, 'null'::jsonb) THEN
+      changes := changes || jsonb_build_object(
+        field, jsonb_build_object('old', old_row -> field, 'new', new_row -> field)
+      );
+    END IF;
+  END LOOP;
+
+  -- Updates that only touch ignored columns (e.g. derived balances) are not worth a row
+  IF TG_OP = 'UPDATE' AND changes = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.activity_log (actor_type, actor_id, action, entity_type, entity_id, data)
+  VALUES (
+    CASE WHEN auth.uid() IS NULL THEN 'system' ELSE 'user' END,
+    auth.uid(),
+    entity || '_' || CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'updated' ELSE 'deleted' END,
+    entity,
+    (row_data->>'id')::uuid,
+    jsonb_strip_nulls(jsonb_build_object(
+      'project_id', row_data->>'project_id',
+      'customer_id', row_data->>'customer_id',
+      'employee_id', row_data->>'employee_id',
+      'supplier_id', row_data->>'supplier_id',
+      'advance_id', row_data->>'advance_id'
+    ))
+    || jsonb_build_object(entity || '_id', row_data->>'id', 'changes', changes)
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- expense_total now follows the lines, which are logged themselves
+DROP TRIGGER audit_petty_cash_advance ON public.petty_cash_advance;
+
+CREATE TRIGGER audit_petty_cash_advance
+  AFTER INSERT OR UPDATE OR DELETE ON public.petty_cash_advance
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change('advance', 'expense_total');
+
+CREATE TRIGGER audit_petty_cash_expenses
+  AFTER INSERT OR UPDATE OR DELETE ON public.petty_cash_expenses
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change('petty_cash_expense');
@@ -0,0 +1,296 @@
+-- Advances are settled in steps: each settlement covers the expenses submitted since the
+-- last one, plus any cash handed back or any over-spend paid back to the employee
+CREATE TABLE public.petty_cash_settlements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  advance_id UUID NOT NULL REFERENCES public.petty_cash_advance(id) ON DELETE CASCADE,
+  settled_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  returned_amount DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (returned_amount >= 0),
+  reimbursed_amount DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (reimbursed_amount >= 0),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_petty_cash_settlements_advance_id ON public.petty_cash_settlements (advance_id, settled_on);
+
+CREATE TRIGGER update_petty_cash_settlements_updated_at BEFORE UPDATE ON public.petty_cash_settlements
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Lines without a settlement are still pending; removing a settlement puts its lines back
+ALTER TABLE public.petty_cash_expenses
+  ADD COLUMN settlement_id UUID REFERENCES public.petty_cash_settlements(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_petty_cash_expenses_settlement_id ON public.petty_cash_expenses (settlement_id);
+
+-- Over-spend paid back to the employee; like returned_amount it now follows the settlements
+ALTER TABLE public.petty_cash_advance
+  ADD COLUMN reimbursed_amount DECIMAL(15, 2) NOT NULL DEFAULT 0;
+
+-- The employee holds advance - expenses - returned + reimbursed. The advance closes once a
+-- settlement leaves nothing pending and nothing held or owed either way.
+CREATE OR REPLACE FUNCTION public.refresh_petty_cash_advance(_advance_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  spent DECIMAL(15, 2);
+  pending_count INTEGER;
+  returned DECIMAL(15, 2);
+  reimbursed DECIMAL(15, 2);
+  settlement_count INTEGER;
+BEGIN
+  SELECT COALESCE(sum(amount), 0), count(*) FILTER (WHERE settlement_id IS NULL)
+  INTO spent, pending_count
+  FROM public.petty_cash_expenses
+  WHERE advance_id = _advance_id;
+
+  SELECT COALESCE(sum(returned_amount), 0), COALESCE(sum(reimbursed_amount), 0), count(*)
+  INTO returned, reimbursed, settlement_count
+  FROM public.petty_cash_settlements
+  WHERE advance_id = _advance_id;
+
+  UPDATE public.petty_cash_advance
+  SET
+    expense_total = spent,
+    returned_amount = returned,
+    reimbursed_amount = reimbursed,
+    status = CASE
+      WHEN settlement_count = 0 THEN 'open'
+      WHEN pending_count = 0 AND advance_amount - spent - returned + reimbursed = 0 THEN 'closed'
+      ELSE 'partially_returned'
+    END::public.advance_status
+  WHERE id = _advance_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_advance_expense_total_from_expenses()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_petty_cash_advance(OLD.advance_id);
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.advance_id IS DISTINCT FROM OLD.advance_id THEN
+    PERFORM public.refresh_petty_cash_advance(NEW.advance_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP FUNCTION public.refresh_advance_expense_total(UUID);
+
+CREATE OR REPLACE FUNCTION public.refresh_petty_cash_advance_from_settlements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_petty_cash_advance(OLD.advance_id);
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.advance_id IS DISTINCT FROM OLD.advance_id THEN
+    PERFORM public.refresh_petty_cash_advance(NEW.advance_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_petty_cash_advance_on_settlement_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.petty_cash_settlements
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_petty_cash_advance_from_settlements();
+
+-- The amount advanced also moves the balance, so editing it re-derives the status
+CREATE OR REPLACE FUNCTION public.refresh_petty_cash_advance_on_amount_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_petty_cash_advance(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_petty_cash_advance_on_amount_change
+  AFTER UPDATE OF advance_amount ON public.petty_cash_advance
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_petty_cash_advance_on_amount_change();
+
+-- Settled lines are final until their settlement is removed. Moving a line in or out of a
+-- settlement is the one change allowed, which is also how a removed settlement frees them.
+CREATE OR REPLACE FUNCTION public.validate_petty_cash_expense()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  advance_id_to_check UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.advance_id ELSE NEW.advance_id END;
+  current_status public.advance_status;
+BEGIN
+  SELECT status INTO current_status FROM public.petty_cash_advance WHERE id = advance_id_to_check;
+
+  -- The advance itself is being deleted
+  IF NOT FOUND THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.settlement_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.petty_cash_settlements WHERE id = NEW.settlement_id AND advance_id = NEW.advance_id
+  ) THEN
+    RAISE EXCEPTION 'Settlement belongs to a different advance';
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND to_jsonb(NEW) - 'settlement_id' - 'updated_at' = to_jsonb(OLD) - 'settlement_id' - 'updated_at' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP <> 'INSERT' AND OLD.settlement_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Settled expenses cannot be changed; remove the settlement first';
+  END IF;
+
+  IF current_status = 'closed' THEN
+    RAISE EXCEPTION 'Expenses cannot be changed once the advance is closed';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- Existing returns and closures become a single settlement covering every line so far
+INSERT INTO public.petty_cash_settlements (advance_id, settled_on, returned_amount)
+SELECT id, (COALESCE(updated_at, NOW()) AT TIME ZONE 'Asia/Kolkata')::DATE, returned_amount
+FROM public.petty_cash_advance
+WHERE returned_amount > 0 OR status <> 'open';
+
+UPDATE public.petty_cash_expenses e
+SET settlement_id = s.id
+FROM public.petty_cash_settlements s
+WHERE s.advance_id = e.advance_id;
+
+-- Settlements are recorded against advances still in progress, and can only take back cash the
+-- employee still holds or reimburse what they are out of pocket. Pending lines count as spent.
+-- The advance row is locked so two settlements cannot both pass against the same balance.
+CREATE OR REPLACE FUNCTION public.validate_petty_cash_settlement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  advance RECORD;
+  balance DECIMAL(15, 2);
+BEGIN
+  SELECT status, advance_amount INTO advance
+  FROM public.petty_cash_advance
+  WHERE id = NEW.advance_id
+  FOR UPDATE;
+
+  IF advance.status = 'closed' THEN
+    RAISE EXCEPTION 'This advance is already closed';
+  END IF;
+
+  IF NEW.returned_amount > 0 AND NEW.reimbursed_amount > 0 THEN
+    RAISE EXCEPTION 'A settlement either takes cash back or reimburses the employee, not both';
+  END IF;
+
+  balance := advance.advance_amount
+    - (SELECT COALESCE(sum(amount), 0) FROM public.petty_cash_expenses WHERE advance_id = NEW.advance_id)
+    - (SELECT COALESCE(sum(returned_amount - reimbursed_amount), 0)
+       FROM public.petty_cash_settlements WHERE advance_id = NEW.advance_id);
+
+  IF NEW.returned_amount > GREATEST(balance, 0) THEN
+    RAISE EXCEPTION 'Only % is still held against this advance', GREATEST(balance, 0);
+  END IF;
+
+  IF NEW.reimbursed_amount > GREATEST(-balance, 0) THEN
+    RAISE EXCEPTION 'Only % is owed to the employee on this advance', GREATEST(-balance, 0);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_petty_cash_settlement_trigger
+  BEFORE INSERT ON public.petty_cash_settlements
+  FOR EACH ROW EXECUTE FUNCTION public.validate_petty_cash_settlement();
+
+-- Records a settlement and files every pending expense line under it, in one step
+CREATE OR REPLACE FUNCTION public.record_petty_cash_settlement(
+  _advance_id UUID,
+  _settled_on DATE,
+  _returned_amount DECIMAL,
+  _reimbursed_amount DECIMAL,
+  _notes TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  new_settlement_id UUID;
+BEGIN
+  PERFORM 1 FROM public.petty_cash_advance WHERE id = _advance_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Advance not found';
+  END IF;
+
+  IF COALESCE(_returned_amount, 0) = 0 AND COALESCE(_reimbursed_amount, 0) = 0 AND NOT EXISTS (
+    SELECT 1 FROM public.petty_cash_expenses WHERE advance_id = _advance_id AND settlement_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Nothing to settle: add expenses or enter an amount returned or reimbursed';
+  END IF;
+
+  INSERT INTO public.petty_cash_settlements (advance_id, settled_on, returned_amount, reimbursed_amount, notes)
+  VALUES (_advance_id, _settled_on, COALESCE(_returned_amount, 0), COALESCE(_reimbursed_amount, 0), _notes)
+  RETURNING id INTO new_settlement_id;
+
+  UPDATE public.petty_cash_expenses
+  SET settlement_id = new_settlement_id
+  WHERE advance_id = _advance_id AND settlement_id IS NULL;
+
+  RETURN new_settlement_id;
+END;
+$$;
+
+-- Bring every advance in line with its settlements
+SELECT public.refresh_petty_cash_advance(id) FROM public.petty_cash_advance;
+
+ALTER TABLE public.petty_cash_settlements ENABLE ROW LEVEL SECURITY;
+
+-- Same split as the advances: staff record settlements, finance roles undo them
+CREATE POLICY "Staff roles can view petty cash settlements" ON public.petty_cash_settlements
+  FOR SELECT TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant', 'site_supervisor']::public.app_role[]));
+
+CREATE POLICY "Staff roles can create petty cash settlements" ON public.petty_cash_settlements
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant', 'site_supervisor']::public.app_role[]));
+
+CREATE POLICY "Finance roles can delete petty cash settlements" ON public.petty_cash_settlements
+  FOR DELETE TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE TRIGGER audit_petty_cash_settlements
+  AFTER INSERT OR UPDATE OR DELETE ON public.petty_cash_settlements
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change('petty_cash_settlement');
+
+-- Returns, reimbursements and status are derived too, and logged on the settlements
+DROP TRIGGER audit_petty_cash_advance ON public.petty_cash_advance;
+
+CREATE TRIGGER audit_petty_cash_advance
+  AFTER INSERT OR UPDATE OR DELETE ON public.petty_cash_advance
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change(
+    'advance', 'expense_total', 'returned_amount', 'reimbursed_amount', 'status'
+  );
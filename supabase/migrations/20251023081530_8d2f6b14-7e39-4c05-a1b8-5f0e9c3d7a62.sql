@@ -0,0 +1,4 @@
+-- Money an employee spends out of an advance. It never passes through the till or the
+-- bank, so it gets its own fund source. Added on its own because a new enum value cannot
+-- be used in the transaction that adds it.
+ALTER TYPE public.fund_source ADD VALUE IF NOT EXISTS 'petty_cash';
@@ -0,0 +1,347 @@
+-- Petty cash posts to the ledger. Issuing an advance takes cash out of the till, returns
+-- bring it back and reimbursements pay out over-spend, all as cash entries against the
+-- employee. What the employee spends is posted per expense line under the petty_cash
+-- fund source, charged to the line's project (or the advance's, for office advances).
+-- Till movements belong to no project, so project and customer become optional on
+-- entries linked to an advance.
+ALTER TABLE public.transactions
+  ALTER COLUMN project_id DROP NOT NULL,
+  ALTER COLUMN customer_id DROP NOT NULL,
+  ADD COLUMN petty_cash_expense_id UUID UNIQUE REFERENCES public.petty_cash_expenses(id) ON DELETE CASCADE,
+  ADD COLUMN petty_cash_settlement_id UUID REFERENCES public.petty_cash_settlements(id) ON DELETE CASCADE,
+  ADD CONSTRAINT transactions_project_required
+    CHECK (project_id IS NOT NULL OR related_advance_id IS NOT NULL),
+  ADD CONSTRAINT transactions_project_customer_together
+    CHECK ((project_id IS NULL) = (customer_id IS NULL)),
+  ADD CONSTRAINT transactions_petty_cash_fund_for_expenses
+    CHECK ((fund_source = 'petty_cash') = (petty_cash_expense_id IS NOT NULL));
+
+CREATE INDEX idx_transactions_related_advance_id ON public.transactions (related_advance_id);
+CREATE INDEX idx_transactions_petty_cash_settlement_id ON public.transactions (petty_cash_settlement_id);
+
+-- Entries without a project leave every project balance alone
+CREATE OR REPLACE FUNCTION public.update_project_remaining_amount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_received DECIMAL(15, 2) := 0;
+  new_received DECIMAL(15, 2) := 0;
+  target_project_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.project_id ELSE NEW.project_id END;
+BEGIN
+  -- Petty cash returns, and the hand-entered entries they replaced, are not customer payments
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.transaction_type = 'credit' AND OLD.related_advance_id IS NULL
+    AND NOT (COALESCE(OLD.metadata, '{}'::jsonb) ? 'legacy_advance_id') THEN
+    old_received := OLD.amount;
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.transaction_type = 'credit' AND NEW.related_advance_id IS NULL
+    AND NOT (COALESCE(NEW.metadata, '{}'::jsonb) ? 'legacy_advance_id') THEN
+    new_received := NEW.amount;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.project_id IS DISTINCT FROM NEW.project_id THEN
+    -- Moved to another project: give the old project its receivable back in full
+    IF OLD.project_id IS NOT NULL THEN
+      UPDATE public.projects
+      SET remaining_amount = remaining_amount + old_received
+      WHERE id = OLD.project_id;
+    END IF;
+    old_received := 0;
+  END IF;
+
+  IF old_received = new_received OR target_project_id IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  UPDATE public.projects
+  SET remaining_amount = remaining_amount + old_received - new_received
+  WHERE id = target_project_id;
+
+  INSERT INTO public.activity_log (actor_type, action, data)
+  VALUES (
+    'system',
+    'project_balance_updated',
+    jsonb_build_object(
+      'project_id', target_project_id,
+      'transaction_id', COALESCE(NEW.id, OLD.id),
+      'transaction_type', COALESCE(NEW.transaction_type, OLD.transaction_type),
+      'amount', COALESCE(NEW.amount, OLD.amount),
+      'amount_change', old_received - new_received,
+      'operation', lower(TG_OP)
+    )
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_petty_cash_advance_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  employee_name TEXT;
+BEGIN
+  -- Cascades would only null the link, so the postings go before the advance does
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.transactions WHERE related_advance_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  SELECT name INTO employee_name FROM public.employees WHERE id = NEW.employee_id;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.transactions (
+      transaction_type, fund_source, amount, payment_mode, reason, transaction_date,
+      related_employee_id, related_advance_id
+    )
+    VALUES (
+      'debit', 'cash', NEW.advance_amount, 'Cash', 'Petty cash advance to ' || employee_name,
+      (COALESCE(NEW.created_at, NOW()) AT TIME ZONE 'Asia/Kolkata')::DATE, NEW.employee_id, NEW.id
+    );
+  ELSE
+    UPDATE public.transactions
+    SET amount = NEW.advance_amount,
+        reason = 'Petty cash advance to ' || employee_name
+    WHERE related_advance_id = NEW.id
+      AND petty_cash_expense_id IS NULL
+      AND petty_cash_settlement_id IS NULL;
+
+    UPDATE public.transactions
+    SET related_employee_id = NEW.employee_id
+    WHERE related_advance_id = NEW.id AND related_employee_id IS DISTINCT FROM NEW.employee_id;
+
+    -- Lines without a project of their own are charged to the advance's, so re-post them
+    IF NEW.project_id IS DISTINCT FROM OLD.project_id THEN
+      UPDATE public.petty_cash_expenses SET updated_at = NOW()
+      WHERE advance_id = NEW.id AND project_id IS NULL;
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_petty_cash_expense_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  advance RECORD;
+  charged_project_id UUID;
+  charged_customer_id UUID;
+BEGIN
+  SELECT * INTO advance FROM public.petty_cash_advance WHERE id = NEW.advance_id;
+  charged_project_id := COALESCE(NEW.project_id, advance.project_id);
+  SELECT customer_id INTO charged_customer_id FROM public.projects WHERE id = charged_project_id;
+
+  UPDATE public.transactions
+  SET amount = NEW.amount,
+      reason = NEW.description,
+      transaction_date = NEW.expense_date,
+      project_id = charged_project_id,
+      customer_id = charged_customer_id,
+      cost_category = NEW.category,
+      related_employee_id = advance.employee_id
+  WHERE petty_cash_expense_id = NEW.id;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.transactions (
+      project_id, customer_id, transaction_type, fund_source, amount, payment_mode, reason,
+      transaction_date, cost_category, related_employee_id, related_advance_id, petty_cash_expense_id
+    )
+    VALUES (
+      charged_project_id, charged_customer_id, 'debit', 'petty_cash', NEW.amount, 'Petty cash', NEW.description,
+      NEW.expense_date, NEW.category, advance.employee_id, NEW.advance_id, NEW.id
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_petty_cash_settlement_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  advance RECORD;
+  employee_name TEXT;
+BEGIN
+  SELECT * INTO advance FROM public.petty_cash_advance WHERE id = NEW.advance_id;
+  SELECT name INTO employee_name FROM public.employees WHERE id = advance.employee_id;
+
+  IF NEW.returned_amount > 0 THEN
+    INSERT INTO public.transactions (
+      transaction_type, fund_source, amount, payment_mode, reason, transaction_date,
+      related_employee_id, related_advance_id, petty_cash_settlement_id
+    )
+    VALUES (
+      'credit', 'cash', NEW.returned_amount, 'Cash', 'Petty cash returned by ' || employee_name,
+      NEW.settled_on, advance.employee_id, NEW.advance_id, NEW.id
+    );
+  END IF;
+
+  IF NEW.reimbursed_amount > 0 THEN
+    INSERT INTO public.transactions (
+      transaction_type, fund_source, amount, payment_mode, reason, transaction_date,
+      related_employee_id, related_advance_id, petty_cash_settlement_id
+    )
+    VALUES (
+      'debit', 'cash', NEW.reimbursed_amount, 'Cash', 'Petty cash over-spend reimbursed to ' || employee_name,
+      NEW.settled_on, advance.employee_id, NEW.advance_id, NEW.id
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Entries linked to advances so far were all entered by hand. They stay in the ledger as
+-- entered, so no history or project balance moves, but are detached from the advance so the
+-- generated postings below are the only ones kept in step with it. metadata keeps the old
+-- link so they can be reconciled, and project_financials leaves them out like it did before.
+UPDATE public.transactions
+SET metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('legacy_advance_id', related_advance_id),
+    related_advance_id = NULL
+WHERE related_advance_id IS NOT NULL;
+
+INSERT INTO public.transactions (
+  transaction_type, fund_source, amount, payment_mode, reason, transaction_date,
+  related_employee_id, related_advance_id
+)
+SELECT 'debit', 'cash', a.advance_amount, 'Cash', 'Petty cash advance to ' || e.name,
+  (COALESCE(a.created_at, NOW()) AT TIME ZONE 'Asia/Kolkata')::DATE, a.employee_id, a.id
+FROM public.petty_cash_advance a
+JOIN public.employees e ON e.id = a.employee_id;
+
+INSERT INTO public.transactions (
+  project_id, customer_id, transaction_type, fund_source, amount, payment_mode, reason,
+  transaction_date, cost_category, related_employee_id, related_advance_id, petty_cash_expense_id
+)
+SELECT p.id, p.customer_id, 'debit', 'petty_cash', x.amount, 'Petty cash', x.description,
+  x.expense_date, x.category, a.employee_id, a.id, x.id
+FROM public.petty_cash_expenses x
+JOIN public.petty_cash_advance a ON a.id = x.advance_id
+LEFT JOIN public.projects p ON p.id = COALESCE(x.project_id, a.project_id);
+
+INSERT INTO public.transactions (
+  transaction_type, fund_source, amount, payment_mode, reason, transaction_date,
+  related_employee_id, related_advance_id, petty_cash_settlement_id
+)
+SELECT 'credit', 'cash', s.returned_amount, 'Cash', 'Petty cash returned by ' || e.name,
+  s.settled_on, a.employee_id, a.id, s.id
+FROM public.petty_cash_settlements s
+JOIN public.petty_cash_advance a ON a.id = s.advance_id
+JOIN public.employees e ON e.id = a.employee_id
+WHERE s.returned_amount > 0;
+
+INSERT INTO public.transactions (
+  transaction_type, fund_source, amount, payment_mode, reason, transaction_date,
+  related_employee_id, related_advance_id, petty_cash_settlement_id
+)
+SELECT 'debit', 'cash', s.reimbursed_amount, 'Cash', 'Petty cash over-spend reimbursed to ' || e.name,
+  s.settled_on, a.employee_id, a.id, s.id
+FROM public.petty_cash_settlements s
+JOIN public.petty_cash_advance a ON a.id = s.advance_id
+JOIN public.employees e ON e.id = a.employee_id
+WHERE s.reimbursed_amount > 0;
+
+CREATE TRIGGER sync_petty_cash_advance_transaction_on_change
+  AFTER INSERT OR UPDATE OF advance_amount, employee_id, project_id ON public.petty_cash_advance
+  FOR EACH ROW EXECUTE FUNCTION public.sync_petty_cash_advance_transaction();
+
+CREATE TRIGGER remove_petty_cash_advance_transactions
+  BEFORE DELETE ON public.petty_cash_advance
+  FOR EACH ROW EXECUTE FUNCTION public.sync_petty_cash_advance_transaction();
+
+-- Deleting a line or settlement removes its postings through the foreign key cascade
+CREATE TRIGGER sync_petty_cash_expense_transaction_on_change
+  AFTER INSERT OR UPDATE ON public.petty_cash_expenses
+  FOR EACH ROW EXECUTE FUNCTION public.sync_petty_cash_expense_transaction();
+
+CREATE TRIGGER post_petty_cash_settlement_transaction_on_insert
+  AFTER INSERT ON public.petty_cash_settlements
+  FOR EACH ROW EXECUTE FUNCTION public.post_petty_cash_settlement_transaction();
+
+-- Postings follow their advance; editing them in the ledger would only put the two out
+-- of step, so only the petty cash triggers (one level down) may touch them
+CREATE OR REPLACE FUNCTION public.protect_petty_cash_transactions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 AND (
+    (TG_OP <> 'INSERT' AND OLD.related_advance_id IS NOT NULL)
+    OR (TG_OP <> 'DELETE' AND (NEW.related_advance_id IS NOT NULL OR NEW.fund_source = 'petty_cash'))
+  ) THEN
+    RAISE EXCEPTION 'Petty cash entries are posted from the advance; change them under Petty Cash';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER protect_petty_cash_transactions_trigger
+  BEFORE INSERT OR UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.protect_petty_cash_transactions();
+
+-- Petty cash spending now reaches projects as ledger debits, so it is split out of those
+-- rather than added from the expense lines on top
+CREATE OR REPLACE VIEW public.project_financials
+WITH (security_invoker = true)
+AS
+SELECT
+  p.id AS project_id,
+  p.estimated_total AS contract_value,
+  COALESCE(i.billed, 0)::DECIMAL(15, 2) AS revenue_billed,
+  COALESCE(t.received, 0)::DECIMAL(15, 2) AS cash_received,
+  p.remaining_amount AS receivable,
+  COALESCE(t.paid_out, 0)::DECIMAL(15, 2) AS transaction_costs,
+  COALESCE(t.petty_cash, 0)::DECIMAL(15, 2) AS petty_cash_costs,
+  (COALESCE(t.paid_out, 0) + COALESCE(t.petty_cash, 0))::DECIMAL(15, 2) AS direct_costs,
+  (COALESCE(i.billed, 0) - COALESCE(t.paid_out, 0) - COALESCE(t.petty_cash, 0))::DECIMAL(15, 2) AS gross_margin
+FROM public.projects p
+LEFT JOIN (
+  SELECT project_id, sum(taxable_value) AS billed
+  FROM public.invoices
+  WHERE status <> 'draft'
+  GROUP BY project_id
+) i ON i.project_id = p.id
+LEFT JOIN (
+  SELECT
+    project_id,
+    sum(amount) FILTER (WHERE transaction_type = 'credit') AS received,
+    sum(amount) FILTER (WHERE transaction_type = 'debit' AND fund_source <> 'petty_cash') AS paid_out,
+    sum(amount) FILTER (WHERE transaction_type = 'debit' AND fund_source = 'petty_cash') AS petty_cash
+  FROM public.transactions
+  WHERE project_id IS NOT NULL AND NOT (COALESCE(metadata, '{}'::jsonb) ? 'legacy_advance_id')
+  GROUP BY project_id
+) t ON t.project_id = p.id;
+
+-- Category actuals read the same postings, so the hand-entered advance entries they replace
+-- drop out here too
+CREATE OR REPLACE VIEW public.project_category_costs
+WITH (security_invoker = true)
+AS
+SELECT
+  COALESCE(b.project_id, a.project_id) AS project_id,
+  COALESCE(b.category, a.category) AS category,
+  COALESCE(b.amount, 0)::DECIMAL(15, 2) AS budget,
+  COALESCE(a.actual, 0)::DECIMAL(15, 2) AS actual
+FROM public.project_budgets b
+FULL OUTER JOIN (
+  SELECT project_id, cost_category AS category, sum(amount) AS actual
+  FROM public.transactions
+  WHERE transaction_type = 'debit' AND NOT (COALESCE(metadata, '{}'::jsonb) ? 'legacy_advance_id')
+  GROUP BY project_id, cost_category
+) a ON a.project_id = b.project_id AND a.category = b.category;
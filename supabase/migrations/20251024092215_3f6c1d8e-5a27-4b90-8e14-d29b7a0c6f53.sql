@@ -0,0 +1,89 @@
+-- Personal advances are lent to the employee and recovered from them; office advances are
+-- spent on company work and charged to a project
+CREATE TYPE public.advance_type AS ENUM ('personal', 'office');
+
+ALTER TABLE public.petty_cash_advance
+  ADD COLUMN advance_type public.advance_type NOT NULL DEFAULT 'personal';
+
+-- The type was never stored; the form only kept a project on office advances. Anything
+-- already itemised was spent on company work too.
+UPDATE public.petty_cash_advance a
+SET advance_type = 'office'
+WHERE a.project_id IS NOT NULL
+  OR EXISTS (SELECT 1 FROM public.petty_cash_expenses e WHERE e.advance_id = a.id);
+
+ALTER TABLE public.petty_cash_advance
+  ADD CONSTRAINT petty_cash_advance_personal_without_project
+    CHECK (advance_type = 'office' OR project_id IS NULL);
+
+CREATE INDEX idx_petty_cash_advance_type ON public.petty_cash_advance (advance_type, status);
+
+-- Personal advances are repaid in full, so there is nothing to itemise against them
+CREATE OR REPLACE FUNCTION public.validate_petty_cash_expense()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  advance_id_to_check UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.advance_id ELSE NEW.advance_id END;
+  current_status public.advance_status;
+  current_type public.advance_type;
+BEGIN
+  SELECT status, advance_type INTO current_status, current_type
+  FROM public.petty_cash_advance
+  WHERE id = advance_id_to_check;
+
+  -- The advance itself is being deleted
+  IF NOT FOUND THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.settlement_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.petty_cash_settlements WHERE id = NEW.settlement_id AND advance_id = NEW.advance_id
+  ) THEN
+    RAISE EXCEPTION 'Settlement belongs to a different advance';
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND to_jsonb(NEW) - 'settlement_id' - 'updated_at' = to_jsonb(OLD) - 'settlement_id' - 'updated_at' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP <> 'INSERT' AND OLD.settlement_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Settled expenses cannot be changed; remove the settlement first';
+  END IF;
+
+  IF current_status = 'closed' THEN
+    RAISE EXCEPTION 'Expenses cannot be changed once the advance is closed';
+  END IF;
+
+  IF TG_OP = 'INSERT' AND current_type = 'personal' THEN
+    RAISE EXCEPTION 'Personal advances are repaid by the employee and take no expenses';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- An advance with itemised spending cannot become personal after the fact
+CREATE OR REPLACE FUNCTION public.validate_petty_cash_advance_type()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.advance_type = 'personal' AND EXISTS (
+    SELECT 1 FROM public.petty_cash_expenses WHERE advance_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'This advance has expenses recorded against it, so it must stay an office advance';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_petty_cash_advance_type_trigger
+  BEFORE UPDATE OF advance_type ON public.petty_cash_advance
+  FOR EACH ROW EXECUTE FUNCTION public.validate_petty_cash_advance_type();
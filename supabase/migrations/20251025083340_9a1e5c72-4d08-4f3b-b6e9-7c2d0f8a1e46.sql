@@ -0,0 +1,328 @@
+-- Large advances are requested first and only paid out once approved. Advances within the
+-- threshold skip straight to disbursed, which is also where every existing advance sits.
+CREATE TYPE public.advance_approval_status AS ENUM ('requested', 'approved', 'rejected', 'disbursed');
+
+ALTER TABLE public.petty_cash_advance
+  ADD COLUMN approval_status public.advance_approval_status NOT NULL DEFAULT 'disbursed',
+  ADD COLUMN requested_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  ADD COLUMN decided_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN decided_at TIMESTAMPTZ,
+  ADD COLUMN decision_notes TEXT,
+  ADD COLUMN disbursed_on DATE,
+  -- Settle-by date; an advance still unsettled after it blocks new ones for the employee
+  ADD COLUMN due_date DATE;
+
+UPDATE public.petty_cash_advance
+SET disbursed_on = (COALESCE(created_at, NOW()) AT TIME ZONE 'Asia/Kolkata')::DATE,
+    due_date = (COALESCE(created_at, NOW()) AT TIME ZONE 'Asia/Kolkata')::DATE + 30;
+
+ALTER TABLE public.petty_cash_advance
+  -- Dates are Indian dates; CURRENT_DATE on the server is still the day before until 05:30 IST
+  ALTER COLUMN due_date SET DEFAULT (NOW() AT TIME ZONE 'Asia/Kolkata')::DATE + 30,
+  ALTER COLUMN due_date SET NOT NULL,
+  ADD CONSTRAINT petty_cash_advance_disbursed_on_set
+    CHECK ((approval_status = 'disbursed') = (disbursed_on IS NOT NULL));
+
+CREATE INDEX idx_petty_cash_advance_employee_approval
+  ON public.petty_cash_advance (employee_id, approval_status, status);
+
+-- A limit applies to each employee it covers: one set for the employee overrides the one
+-- for their department, field by field
+CREATE TABLE public.petty_cash_limits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  employee_id UUID UNIQUE REFERENCES public.employees(id) ON DELETE CASCADE,
+  department TEXT UNIQUE CHECK (btrim(department) <> ''),
+  -- Most the employee may hold at once across unsettled advances, including the new one
+  max_outstanding DECIMAL(15, 2) CHECK (max_outstanding > 0),
+  -- Advances above this need approval before they are paid out
+  approval_threshold DECIMAL(15, 2) CHECK (approval_threshold >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT petty_cash_limits_one_scope CHECK ((employee_id IS NULL) <> (department IS NULL)),
+  CONSTRAINT petty_cash_limits_something_set CHECK (max_outstanding IS NOT NULL OR approval_threshold IS NOT NULL)
+);
+
+CREATE TRIGGER update_petty_cash_limits_updated_at BEFORE UPDATE ON public.petty_cash_limits
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Where an employee stands before taking another advance. Requests still awaiting a
+-- decision or payout count in full; paid-out advances count for what is still held.
+CREATE OR REPLACE FUNCTION public.petty_cash_headroom(_employee_id UUID, _exclude_advance_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  max_outstanding DECIMAL,
+  approval_threshold DECIMAL,
+  outstanding DECIMAL,
+  overdue_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(own.max_outstanding, dept.max_outstanding),
+    COALESCE(own.approval_threshold, dept.approval_threshold),
+    COALESCE((
+      SELECT sum(
+        CASE WHEN a.approval_status = 'disbursed'
+          THEN GREATEST(a.advance_amount - a.expense_total - a.returned_amount + a.reimbursed_amount, 0)
+          ELSE a.advance_amount
+        END
+      )
+      FROM public.petty_cash_advance a
+      WHERE a.employee_id = _employee_id
+        AND a.id IS DISTINCT FROM _exclude_advance_id
+        AND a.approval_status <> 'rejected'
+        AND a.status <> 'closed'
+    ), 0),
+    (
+      SELECT count(*)::INTEGER
+      FROM public.petty_cash_advance a
+      WHERE a.employee_id = _employee_id
+        AND a.approval_status = 'disbursed'
+        AND a.status <> 'closed'
+        AND a.due_date < (NOW() AT TIME ZONE 'Asia/Kolkata')::DATE
+    )
+  FROM public.employees e
+  LEFT JOIN public.petty_cash_limits own ON own.employee_id = e.id
+  LEFT JOIN public.petty_cash_limits dept ON dept.department = e.department
+  WHERE e.id = _employee_id;
+$$;
+
+-- New advances respect the employee's limit and wait for approval above the threshold.
+-- The workflow columns are set here so nobody can file an advance as already approved.
+CREATE OR REPLACE FUNCTION public.validate_petty_cash_advance_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  headroom RECORD;
+BEGIN
+  SELECT * INTO headroom FROM public.petty_cash_headroom(NEW.employee_id);
+
+  IF headroom.overdue_count > 0 THEN
+    RAISE EXCEPTION 'This employee has % overdue advance(s); settle them before issuing another', headroom.overdue_count;
+  END IF;
+
+  IF headroom.max_outstanding IS NOT NULL
+    AND headroom.outstanding + NEW.advance_amount > headroom.max_outstanding THEN
+    RAISE EXCEPTION 'This advance would take the employee to % outstanding, over their limit of %',
+      headroom.outstanding + NEW.advance_amount, headroom.max_outstanding;
+  END IF;
+
+  NEW.requested_by := auth.uid();
+  NEW.decided_by := NULL;
+  NEW.decided_at := NULL;
+  NEW.decision_notes := NULL;
+
+  IF headroom.approval_threshold IS NOT NULL AND NEW.advance_amount > headroom.approval_threshold THEN
+    NEW.approval_status := 'requested';
+    NEW.disbursed_on := NULL;
+  ELSE
+    NEW.approval_status := 'disbursed';
+    NEW.disbursed_on := COALESCE(NEW.disbursed_on, (NOW() AT TIME ZONE 'Asia/Kolkata')::DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_petty_cash_advance_request_trigger
+  BEFORE INSERT ON public.petty_cash_advance
+  FOR EACH ROW EXECUTE FUNCTION public.validate_petty_cash_advance_request();
+
+-- Requests move to approved or rejected (finance roles only, and never by the requester), and
+-- approved ones to disbursed once the employee is still within their limit and has nothing
+-- overdue. Raising a paid-out advance is checked against the limit and threshold like a new one.
+-- Once decided, an advance stays with the employee and type it was judged for.
+CREATE OR REPLACE FUNCTION public.validate_petty_cash_advance_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  headroom RECORD;
+BEGIN
+  -- Limits and approval were judged for this employee and kind of advance
+  IF OLD.approval_status <> 'requested'
+    AND (NEW.employee_id, NEW.advance_type) IS DISTINCT FROM (OLD.employee_id, OLD.advance_type) THEN
+    RAISE EXCEPTION 'The employee and type of a % advance cannot be changed', OLD.approval_status;
+  END IF;
+
+  IF NEW.approval_status IS DISTINCT FROM OLD.approval_status THEN
+    IF NEW.advance_amount <> OLD.advance_amount THEN
+      RAISE EXCEPTION 'Change the amount and the approval separately';
+    END IF;
+
+    IF OLD.approval_status = 'requested' AND NEW.approval_status IN ('approved', 'rejected') THEN
+      IF NOT public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]) THEN
+        RAISE EXCEPTION 'Only admins and accountants can approve or reject advances';
+      END IF;
+      IF auth.uid() IS NOT DISTINCT FROM OLD.requested_by THEN
+        RAISE EXCEPTION 'An advance must be approved or rejected by someone other than who requested it';
+      END IF;
+      NEW.decided_by := auth.uid();
+      NEW.decided_at := NOW();
+    ELSIF OLD.approval_status = 'approved' AND NEW.approval_status = 'disbursed' THEN
+      -- The employee may have taken other advances or fallen behind since the approval
+      SELECT * INTO headroom FROM public.petty_cash_headroom(NEW.employee_id, NEW.id);
+
+      IF headroom.overdue_count > 0 THEN
+        RAISE EXCEPTION 'This employee has % overdue advance(s); settle them before paying this one out', headroom.overdue_count;
+      END IF;
+
+      IF headroom.max_outstanding IS NOT NULL
+        AND headroom.outstanding + NEW.advance_amount > headroom.max_outstanding THEN
+        RAISE EXCEPTION 'Paying this advance out would take the employee to % outstanding, over their limit of %',
+          headroom.outstanding + NEW.advance_amount, headroom.max_outstanding;
+      END IF;
+
+      NEW.disbursed_on := COALESCE(NEW.disbursed_on, (NOW() AT TIME ZONE 'Asia/Kolkata')::DATE);
+      -- The settle-by term runs from the day the cash is handed over
+      NEW.due_date := NEW.disbursed_on
+        + (OLD.due_date - COALESCE((OLD.created_at AT TIME ZONE 'Asia/Kolkata')::DATE, OLD.due_date));
+    ELSE
+      RAISE EXCEPTION 'An advance cannot go from % to %', OLD.approval_status, NEW.approval_status;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.advance_amount > OLD.advance_amount THEN
+    IF NEW.approval_status IN ('approved', 'rejected') THEN
+      RAISE EXCEPTION 'The amount of a % advance cannot be raised; request a new one', NEW.approval_status;
+    END IF;
+
+    SELECT * INTO headroom FROM public.petty_cash_headroom(NEW.employee_id, NEW.id);
+
+    IF headroom.max_outstanding IS NOT NULL
+      AND headroom.outstanding + NEW.advance_amount - NEW.expense_total - NEW.returned_amount + NEW.reimbursed_amount
+        > headroom.max_outstanding THEN
+      RAISE EXCEPTION 'Raising this advance would take the employee over their limit of %', headroom.max_outstanding;
+    END IF;
+
+    IF NEW.approval_status = 'disbursed' AND headroom.approval_threshold IS NOT NULL
+      AND NEW.advance_amount > headroom.approval_threshold THEN
+      RAISE EXCEPTION 'Advances over % need approval; request a new advance for the difference', headroom.approval_threshold;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_petty_cash_advance_approval_trigger
+  BEFORE UPDATE ON public.petty_cash_advance
+  FOR EACH ROW EXECUTE FUNCTION public.validate_petty_cash_advance_approval();
+
+-- Nothing is spent or settled against an advance before the cash goes out
+CREATE OR REPLACE FUNCTION public.require_disbursed_advance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (SELECT approval_status FROM public.petty_cash_advance WHERE id = NEW.advance_id) <> 'disbursed' THEN
+    RAISE EXCEPTION 'This advance has not been paid out yet';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_disbursed_advance_for_expense
+  BEFORE INSERT ON public.petty_cash_expenses
+  FOR EACH ROW EXECUTE FUNCTION public.require_disbursed_advance();
+
+CREATE TRIGGER require_disbursed_advance_for_settlement
+  BEFORE INSERT ON public.petty_cash_settlements
+  FOR EACH ROW EXECUTE FUNCTION public.require_disbursed_advance();
+
+-- The cash leaves the till on disbursement, so that is when the issue is posted
+CREATE OR REPLACE FUNCTION public.sync_petty_cash_advance_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  employee_name TEXT;
+BEGIN
+  -- Cascades would only null the link, so the postings go before the advance does
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.transactions WHERE related_advance_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.approval_status <> 'disbursed' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT name INTO employee_name FROM public.employees WHERE id = NEW.employee_id;
+
+  IF TG_OP = 'INSERT' OR OLD.approval_status <> 'disbursed' THEN
+    INSERT INTO public.transactions (
+      transaction_type, fund_source, amount, payment_mode, reason, transaction_date,
+      related_employee_id, related_advance_id
+    )
+    VALUES (
+      'debit', 'cash', NEW.advance_amount, 'Cash', 'Petty cash advance to ' || employee_name,
+      NEW.disbursed_on, NEW.employee_id, NEW.id
+    );
+  ELSE
+    UPDATE public.transactions
+    SET amount = NEW.advance_amount,
+        reason = 'Petty cash advance to ' || employee_name,
+        transaction_date = NEW.disbursed_on
+    WHERE related_advance_id = NEW.id
+      AND petty_cash_expense_id IS NULL
+      AND petty_cash_settlement_id IS NULL;
+
+    UPDATE public.transactions
+    SET related_employee_id = NEW.employee_id
+    WHERE related_advance_id = NEW.id AND related_employee_id IS DISTINCT FROM NEW.employee_id;
+
+    -- Lines without a project of their own are charged to the advance's, so re-post them
+    IF NEW.project_id IS DISTINCT FROM OLD.project_id THEN
+      UPDATE public.petty_cash_expenses SET updated_at = NOW()
+      WHERE advance_id = NEW.id AND project_id IS NULL;
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER sync_petty_cash_advance_transaction_on_change ON public.petty_cash_advance;
+
+CREATE TRIGGER sync_petty_cash_advance_transaction_on_change
+  AFTER INSERT OR UPDATE OF advance_amount, employee_id, project_id, approval_status, disbursed_on
+  ON public.petty_cash_advance
+  FOR EACH ROW EXECUTE FUNCTION public.sync_petty_cash_advance_transaction();
+
+-- The issue posting now follows disbursed_on rather than the day the row was created
+UPDATE public.transactions t
+SET transaction_date = a.disbursed_on
+FROM public.petty_cash_advance a
+WHERE t.related_advance_id = a.id
+  AND t.petty_cash_expense_id IS NULL
+  AND t.petty_cash_settlement_id IS NULL
+  AND t.transaction_date IS DISTINCT FROM a.disbursed_on;
+
+ALTER TABLE public.petty_cash_limits ENABLE ROW LEVEL SECURITY;
+
+-- Whoever issues advances needs to see the limits; only finance roles set them
+CREATE POLICY "Staff roles can view petty cash limits" ON public.petty_cash_limits
+  FOR SELECT TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant', 'site_supervisor']::public.app_role[]));
+
+CREATE POLICY "Finance roles can manage petty cash limits" ON public.petty_cash_limits
+  FOR ALL TO authenticated
+  USING (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]))
+  WITH CHECK (public.has_any_role(auth.uid(), ARRAY['admin', 'accountant']::public.app_role[]));
+
+CREATE TRIGGER audit_petty_cash_limits
+  AFTER INSERT OR UPDATE OR DELETE ON public.petty_cash_limits
+  FOR EACH ROW EXECUTE FUNCTION public.log_entity_change('petty_cash_limit');